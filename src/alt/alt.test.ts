@@ -0,0 +1,91 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { AltTextProvider, SidecarAltTextSource, TitleAltTextSource } from "./alt";
+import { Media } from "../media/InstagramExportedPost";
+
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const media = (uri: string, title = ""): Media => ({ uri, title } as Media);
+
+describe("TitleAltTextSource", () => {
+  test("should describe media with its title", () => {
+    expect(new TitleAltTextSource().getAltText(media("photo.jpg", " A dog on a beach "))).toBe("A dog on a beach");
+  });
+
+  test("should have nothing for a blank title", () => {
+    expect(new TitleAltTextSource().getAltText(media("photo.jpg", "  "))).toBeUndefined();
+  });
+});
+
+describe("SidecarAltTextSource", () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "alt-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test("should describe media by their URI", () => {
+    const filePath = path.join(folder, "alt-text.json");
+    fs.writeFileSync(filePath, JSON.stringify({ "media/posts/photo.jpg": "A dog on a beach", "media/posts/blank.jpg": "" }));
+
+    const source = SidecarAltTextSource.load(filePath);
+
+    expect(source.size).toBe(2);
+    expect(source.getAltText(media("media/posts/photo.jpg"))).toBe("A dog on a beach");
+    expect(source.getAltText(media("media/posts/blank.jpg"))).toBeUndefined();
+    expect(source.getAltText(media("media/posts/other.jpg"))).toBeUndefined();
+  });
+
+  test("should describe media from a reviewed manifest", () => {
+    const filePath = path.join(folder, "alt-text.csv");
+    fs.writeFileSync(filePath, "uri,type,postDate,altText,source\nmedia/posts/photo.jpg,image,,A dog on a beach,title\n");
+
+    expect(SidecarAltTextSource.load(filePath).getAltText(media("media/posts/photo.jpg"))).toBe("A dog on a beach");
+  });
+});
+
+describe("AltTextProvider", () => {
+  test("should keep reporting alt text a review kept as generated", () => {
+    const reviewed = new SidecarAltTextSource(
+      new Map([
+        ["beach.jpg", "Waves on a sandy beach"],
+        ["photo.jpg", "A dog on a beach"],
+      ]),
+      new Map([["beach.jpg", "llava"]])
+    );
+    const provider = new AltTextProvider([reviewed]);
+
+    expect(provider.getAltText(media("beach.jpg"))).toEqual({
+      text: "Waves on a sandy beach",
+      source: "llava",
+      generated: true,
+    });
+    expect(provider.getAltText(media("photo.jpg"))).toEqual({ text: "A dog on a beach", source: "sidecar" });
+  });
+
+  const sidecar = new SidecarAltTextSource(new Map([["photo.jpg", "A dog on a beach"]]));
+
+  test("should use the first source with alt text", () => {
+    const provider = new AltTextProvider([new TitleAltTextSource(), sidecar]);
+
+    expect(provider.getAltText(media("photo.jpg", "Beach day"))).toEqual({ text: "Beach day", source: "title" });
+    expect(provider.getAltText(media("photo.jpg"))).toEqual({ text: "A dog on a beach", source: "sidecar" });
+  });
+
+  test("should leave the alt text empty when no source has any", () => {
+    expect(new AltTextProvider().getAltText(media("other.jpg"))).toEqual({ text: "" });
+  });
+});
@@ -0,0 +1,125 @@
+import { AltTextGenerator, capAltText } from "./generator";
+import { readAltTextManifest } from "./manifest";
+import { logger } from "../logger/logger";
+import { Media } from "../media/InstagramExportedPost";
+
+/**
+ * A place alt text for media can come from, e.g. the media title or a file written by the user.
+ */
+export interface AltTextSource {
+  // Names the source in the logs.
+  readonly name: string;
+  /**
+   * @returns the alt text of the media, or undefined if the source has none.
+   */
+  getAltText(media: Media): string | undefined;
+  /**
+   * @returns the name of the model that generated the alt text of the media, or undefined if a person wrote it.
+   */
+  getGenerator?(media: Media): string | undefined;
+}
+
+/**
+ * Alt text chosen for a media, empty when no source had any.
+ */
+export interface AltText {
+  text: string;
+  // Name of the source the text came from.
+  source?: string;
+  // The text was generated by a model rather than written by a person.
+  generated?: boolean;
+}
+
+/**
+ * The title Instagram keeps for each media of a post.
+ */
+export class TitleAltTextSource implements AltTextSource {
+  readonly name = "title";
+
+  getAltText(media: Media): string | undefined {
+    return media.title?.trim() || undefined;
+  }
+}
+
+/**
+ * A file written by the user, mapping the URI of each media in the archive to its alt text.
+ */
+export class SidecarAltTextSource implements AltTextSource {
+  readonly name = "sidecar";
+
+  constructor(
+    private readonly altTexts: Map<string, string>,
+    // Model by media URI, for the alt text a review kept as generated.
+    private readonly generators: Map<string, string> = new Map()
+  ) {}
+
+  /**
+   * Reads the alt text file: a JSON object, e.g. `{ "media/posts/202106/photo.jpg": "A dog on a beach" }`,
+   * or a manifest written by the alt text review, as JSON or CSV.
+   * @param filePath
+   * @throws when the file can not be read or has no alt text by media URI.
+   */
+  static load(filePath: string): SidecarAltTextSource {
+    const { altTexts, generators } = readAltTextManifest(filePath);
+    const source = new SidecarAltTextSource(altTexts, generators);
+    logger.debug(`Loaded ${source.size} alt texts from ${filePath}`);
+    return source;
+  }
+
+  get size(): number {
+    return this.altTexts.size;
+  }
+
+  getAltText(media: Media): string | undefined {
+    return this.altTexts.get(media.uri)?.trim() || undefined;
+  }
+
+  getGenerator(media: Media): string | undefined {
+    return this.generators.get(media.uri);
+  }
+}
+
+/**
+ * Chooses the alt text of each media from the first source that has one, in priority order.
+ * Images no source describes can be described by a generator.
+ */
+export class AltTextProvider {
+  constructor(
+    private readonly sources: AltTextSource[] = [new TitleAltTextSource()],
+    private readonly generator?: AltTextGenerator
+  ) {}
+
+  getAltText(media: Media): AltText {
+    for (const source of this.sources) {
+      const text = source.getAltText(media);
+      if (text) {
+        // Generated alt text kept by a review is still reported as generated, named after its model.
+        const generator = source.getGenerator?.(media);
+        return generator ? { text, source: generator, generated: true } : { text, source: source.name };
+      }
+    }
+    return { text: "" };
+  }
+
+  /**
+   * Generates the alt text of an image no source describes, capped to the length Bluesky accepts.
+   * @param media
+   * @param image the image as uploaded.
+   * @param mimeType
+   * @returns the generated alt text, empty without a generator or when it fails.
+   */
+  async generateAltText(media: Media, image: Buffer, mimeType: string): Promise<AltText> {
+    if (!this.generator) {
+      return { text: "" };
+    }
+    try {
+      const text = (await this.generator.generate(media, image, mimeType))?.trim();
+      if (text) {
+        return { text: capAltText(text), source: this.generator.name, generated: true };
+      }
+    } catch (error) {
+      logger.warn(`Failed to generate alt text for ${media.uri}: ${(error as Error)?.message}`);
+    }
+    return { text: "" };
+  }
+}
@@ -0,0 +1,127 @@
+import { AltTextProvider } from "./alt";
+import { ALT_TEXT_LIMIT, capAltText, HttpAltTextGenerator, StubAltTextGenerator } from "./generator";
+import { logger } from "../logger/logger";
+import { Media } from "../media/InstagramExportedPost";
+import { getGraphemeLength } from "../text";
+
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const media = (uri: string): Media => ({ uri, title: "" } as Media);
+
+describe("HttpAltTextGenerator", () => {
+  const originalFetch = global.fetch;
+  const mockFetch = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should describe the image with the model of the server", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ response: " A dog running on a beach. \n" }),
+    });
+    const generator = new HttpAltTextGenerator("http://localhost:11434", "llava", "Describe it");
+
+    const text = await generator.generate(media("photo.jpg"), Buffer.from("image"));
+
+    expect(text).toBe("A dog running on a beach.");
+    expect(generator.name).toBe("llava");
+    const [url, request] = mockFetch.mock.calls[0];
+    expect(url.toString()).toBe("http://localhost:11434/api/generate");
+    expect(request.method).toBe("POST");
+    expect(JSON.parse(request.body)).toEqual({
+      model: "llava",
+      prompt: "Describe it",
+      images: [Buffer.from("image").toString("base64")],
+      stream: false,
+    });
+  });
+
+  test.each([
+    ["http://localhost/ollama", "http://localhost/ollama/api/generate"],
+    ["http://localhost/ollama/", "http://localhost/ollama/api/generate"],
+    ["http://localhost:11434/", "http://localhost:11434/api/generate"],
+  ])("should keep the path of the server URL %s", async (serverUrl, generateUrl) => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ response: "A dog" }) });
+
+    await new HttpAltTextGenerator(serverUrl).generate(media("photo.jpg"), Buffer.from("image"));
+
+    expect(mockFetch.mock.calls[0][0].toString()).toBe(generateUrl);
+  });
+
+  test("should throw when the server responds with an error", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: "Not Found" });
+
+    await expect(
+      new HttpAltTextGenerator("http://localhost:11434").generate(media("photo.jpg"), Buffer.from("image"))
+    ).rejects.toThrow("Alt text generator responded 404 Not Found");
+  });
+});
+
+describe("StubAltTextGenerator", () => {
+  test("should describe every image from its file name", async () => {
+    expect(await new StubAltTextGenerator().generate(media("media/posts/photo.jpg"))).toBe("Image photo.jpg");
+  });
+});
+
+describe("capAltText", () => {
+  test("should keep alt text within the limit", () => {
+    expect(capAltText("A dog on a beach.")).toBe("A dog on a beach.");
+  });
+
+  test("should cut long alt text at the end of a word", () => {
+    const capped = capAltText("word ".repeat(500));
+
+    expect(getGraphemeLength(capped)).toBeLessThanOrEqual(ALT_TEXT_LIMIT);
+    expect(capped.endsWith("word")).toBe(true);
+  });
+});
+
+describe("AltTextProvider.generateAltText", () => {
+  const image = Buffer.from("image");
+
+  test("should mark generated alt text", async () => {
+    const provider = new AltTextProvider(undefined, new StubAltTextGenerator());
+
+    expect(await provider.generateAltText(media("photo.jpg"), image, "image/jpeg")).toEqual({
+      text: "Image photo.jpg",
+      source: "stub",
+      generated: true,
+    });
+  });
+
+  test("should cap generated alt text to the limit", async () => {
+    const provider = new AltTextProvider(undefined, new StubAltTextGenerator(() => "a".repeat(3000)));
+
+    const { text } = await provider.generateAltText(media("photo.jpg"), image, "image/jpeg");
+
+    expect(text).toHaveLength(ALT_TEXT_LIMIT);
+  });
+
+  test("should leave the alt text empty without a generator", async () => {
+    expect(await new AltTextProvider().generateAltText(media("photo.jpg"), image, "image/jpeg")).toEqual({ text: "" });
+  });
+
+  test("should leave the alt text empty when the generator fails", async () => {
+    const provider = new AltTextProvider(undefined, {
+      name: "broken",
+      generate: () => Promise.reject(new Error("connect ECONNREFUSED")),
+    });
+
+    expect(await provider.generateAltText(media("photo.jpg"), image, "image/jpeg")).toEqual({ text: "" });
+    expect(logger.warn).toHaveBeenCalledWith("Failed to generate alt text for photo.jpg: connect ECONNREFUSED");
+  });
+});
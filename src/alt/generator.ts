@@ -0,0 +1,103 @@
+import path from "path";
+
+import { logger } from "../logger/logger";
+import { Media } from "../media/InstagramExportedPost";
+import { splitText } from "../text";
+
+/**
+ * Bluesky clients accept alt text of up to 2000 graphemes.
+ * @link https://github.com/bluesky-social/social-app/blob/main/src/lib/constants.ts
+ */
+export const ALT_TEXT_LIMIT = 2000;
+// The alt text of a video embed is limited to 1000 graphemes.
+export const VIDEO_ALT_TEXT_LIMIT = 1000;
+
+export const DEFAULT_ALT_TEXT_MODEL = "llava";
+export const DEFAULT_ALT_TEXT_PROMPT =
+  "Describe this image for someone who can not see it, in one to three sentences. Answer with the description only.";
+const DEFAULT_GENERATE_TIMEOUT = 120000;
+
+/**
+ * Describes images no source has alt text for, e.g. with a captioning model.
+ */
+export interface AltTextGenerator {
+  // Names the generator in the logs and the run report.
+  readonly name: string;
+  /**
+   * @param media the media of the archive the image comes from.
+   * @param image the image as uploaded.
+   * @param mimeType
+   * @returns the description of the image, or undefined if the generator has none.
+   * @throws when the generator fails.
+   */
+  generate(media: Media, image: Buffer, mimeType: string): Promise<string | undefined>;
+}
+
+/**
+ * Response of the generate API of Ollama, only the generated text is needed.
+ * @link https://github.com/ollama/ollama/blob/main/docs/api.md#generate-a-completion
+ */
+interface GenerateResponse {
+  response?: string;
+}
+
+/**
+ * A captioning model hosted locally behind an Ollama compatible HTTP API, e.g. Ollama or a
+ * llama.cpp server with a vision model. Images never leave the machine running the server.
+ */
+export class HttpAltTextGenerator implements AltTextGenerator {
+  readonly name: string;
+
+  constructor(
+    private readonly serverUrl: string,
+    private readonly model: string = DEFAULT_ALT_TEXT_MODEL,
+    private readonly prompt: string = DEFAULT_ALT_TEXT_PROMPT,
+    private readonly timeout: number = DEFAULT_GENERATE_TIMEOUT
+  ) {
+    this.name = model;
+  }
+
+  async generate(media: Media, image: Buffer): Promise<string | undefined> {
+    logger.debug(`Generating alt text for ${media.uri} with ${this.model}`);
+    // Relative to the server URL, a server behind a proxy keeps the path it is served under.
+    const baseUrl = this.serverUrl.endsWith("/") ? this.serverUrl : `${this.serverUrl}/`;
+    const response = await fetch(new URL("api/generate", baseUrl), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: this.model,
+        prompt: this.prompt,
+        images: [image.toString("base64")],
+        stream: false,
+      }),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (!response.ok) {
+      throw new Error(`Alt text generator responded ${response.status} ${response.statusText}`);
+    }
+    const { response: text } = (await response.json()) as GenerateResponse;
+    return text?.trim() || undefined;
+  }
+}
+
+/**
+ * Describes every image the same way from its file name, for tests and dry runs without a model.
+ */
+export class StubAltTextGenerator implements AltTextGenerator {
+  readonly name = "stub";
+
+  constructor(private readonly describe: (media: Media) => string = (media) => `Image ${path.basename(media.uri)}`) {}
+
+  async generate(media: Media): Promise<string | undefined> {
+    return this.describe(media);
+  }
+}
+
+/**
+ * Cuts generated alt text to the length Bluesky accepts, at the end of a sentence or word.
+ * @param text
+ * @param limit in graphemes, lower for videos.
+ */
+export function capAltText(text: string, limit: number = ALT_TEXT_LIMIT): string {
+  return splitText(text, { graphemes: limit, bytes: Infinity })[0];
+}
@@ -0,0 +1,3 @@
+export * from './alt';
+export * from './generator';
+export * from './manifest';
\ No newline at end of file
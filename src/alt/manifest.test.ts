@@ -0,0 +1,115 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { AltTextManifestEntry, readAltTextManifest, writeAltTextManifest } from "./manifest";
+
+const entries: AltTextManifestEntry[] = [
+  {
+    uri: "media/posts/photo.jpg",
+    type: "image",
+    postDate: "2021-06-04T18:30:00.000Z",
+    altText: 'A dog, "Rex", on a beach\nat sunset',
+    source: "title",
+    generated: false,
+  },
+  {
+    uri: "media/posts/beach.jpg",
+    type: "image",
+    postDate: "2021-06-04T18:30:00.000Z",
+    altText: "Waves on a sandy beach",
+    source: "llava",
+    generated: true,
+  },
+  {
+    uri: "media/reels/reel.mp4",
+    type: "video",
+    postDate: "2021-06-05T10:00:00.000Z",
+    altText: "",
+    source: "",
+    generated: false,
+  },
+];
+
+describe("alt text manifest", () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test.each(["alt-text.json", "alt-text.csv"])("should read back the alt text written to %s", (fileName) => {
+    const filePath = path.join(folder, fileName);
+
+    writeAltTextManifest(filePath, entries);
+
+    expect(readAltTextManifest(filePath)).toEqual({
+      altTexts: new Map([
+        ["media/posts/photo.jpg", 'A dog, "Rex", on a beach\nat sunset'],
+        ["media/posts/beach.jpg", "Waves on a sandy beach"],
+        ["media/reels/reel.mp4", ""],
+      ]),
+      generators: new Map([["media/posts/beach.jpg", "llava"]]),
+    });
+  });
+
+  test("should write a CSV with a header row and quoted fields", () => {
+    const filePath = path.join(folder, "alt-text.csv");
+
+    writeAltTextManifest(filePath, entries);
+
+    expect(fs.readFileSync(filePath, "utf8")).toBe(
+      "uri,type,postDate,altText,source,generated\n" +
+        'media/posts/photo.jpg,image,2021-06-04T18:30:00.000Z,"A dog, ""Rex"", on a beach\nat sunset",title,false\n' +
+        "media/posts/beach.jpg,image,2021-06-04T18:30:00.000Z,Waves on a sandy beach,llava,true\n" +
+        "media/reels/reel.mp4,video,2021-06-05T10:00:00.000Z,,,false\n"
+    );
+  });
+
+  test("should read a CSV saved by a spreadsheet app", () => {
+    const filePath = path.join(folder, "alt-text.csv");
+    fs.writeFileSync(filePath, "\uFEFFaltText,uri\r\nA dog on a beach,media/posts/photo.jpg\r\n\r\n");
+
+    expect(readAltTextManifest(filePath).altTexts).toEqual(new Map([["media/posts/photo.jpg", "A dog on a beach"]]));
+  });
+
+  test("should read a JSON object mapping media URIs to alt text", () => {
+    const filePath = path.join(folder, "alt-text.json");
+    fs.writeFileSync(filePath, JSON.stringify({ "media/posts/photo.jpg": "A dog on a beach" }));
+
+    expect(readAltTextManifest(filePath).altTexts).toEqual(new Map([["media/posts/photo.jpg", "A dog on a beach"]]));
+  });
+
+  test("should read generated alt text marked by a spreadsheet app", () => {
+    const filePath = path.join(folder, "alt-text.csv");
+    fs.writeFileSync(
+      filePath,
+      "uri,altText,source,generated\nphoto.jpg,A dog,llava,TRUE\nbeach.jpg,A beach,,true\nedited.jpg,A cat,llava,FALSE\n"
+    );
+
+    expect(readAltTextManifest(filePath).generators).toEqual(
+      new Map([
+        ["photo.jpg", "llava"],
+        ["beach.jpg", "model"],
+      ])
+    );
+  });
+
+  test.each([
+    ["alt-text.csv", "uri,description\nphoto.jpg,A dog\n"],
+    ["alt-text.json", '[{ "uri": "photo.jpg" }]'],
+    ["alt-text.json", '{ "photo.jpg": 1 }'],
+    ["alt-text.json", '"photo.jpg"'],
+  ])("should reject %s without alt text by media URI: %s", (fileName, content) => {
+    const filePath = path.join(folder, fileName);
+    fs.writeFileSync(filePath, content);
+
+    expect(() => readAltTextManifest(filePath)).toThrow(
+      `Alt text file ${filePath} must list media with their uri and altText, or map media URIs to alt text`
+    );
+  });
+});
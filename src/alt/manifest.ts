@@ -0,0 +1,153 @@
+import FS from "fs";
+import path from "path";
+
+/**
+ * A media of the archive listed for review, with the alt text proposed for it.
+ */
+export interface AltTextManifestEntry {
+  uri: string;
+  type: "image" | "video";
+  // Creation date of the post the media is in, ISO 8601.
+  postDate: string;
+  altText: string;
+  // Where the proposed alt text came from, empty when there was none.
+  source: string;
+  // The alt text was generated by the model named in source, set to false once a person rewrote it.
+  generated: boolean;
+}
+
+/**
+ * Alt text read from a manifest, by media URI.
+ */
+export interface AltTextManifest {
+  altTexts: Map<string, string>;
+  // Name of the model that generated the alt text of a media, for the alt text still marked generated.
+  generators: Map<string, string>;
+}
+
+const MANIFEST_COLUMNS: (keyof AltTextManifestEntry)[] = ["uri", "type", "postDate", "altText", "source", "generated"];
+
+/**
+ * Checks if the manifest file is CSV, every other file is JSON.
+ * @param filePath
+ */
+export function isCsvManifest(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === ".csv";
+}
+
+function formatCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Splits CSV text into rows of fields, quoted fields can hold commas, quotes and line breaks.
+ * @param text
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      // A CRLF line break ends the row once.
+      if (char === "\r" && text[index + 1] === "\n") {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value !== ""));
+}
+
+/**
+ * Writes the manifest as CSV when the file name ends with .csv, and as JSON otherwise.
+ * @param filePath
+ * @param entries
+ */
+export function writeAltTextManifest(filePath: string, entries: AltTextManifestEntry[]): void {
+  const content = isCsvManifest(filePath)
+    ? [MANIFEST_COLUMNS, ...entries.map((entry) => MANIFEST_COLUMNS.map((column) => String(entry[column])))]
+        .map((fields) => fields.map(formatCsvField).join(","))
+        .join("\n") + "\n"
+    : JSON.stringify(entries, null, 2) + "\n";
+  FS.writeFileSync(filePath, content);
+}
+
+/**
+ * Reads the alt text of each media from a manifest edited by the user. Only the uri and altText
+ * columns are required, generated and source tell alt text generated by a model, the others are
+ * informational.
+ * @param filePath
+ * @returns the alt text by media URI.
+ * @throws when the file can not be read or has no uri and altText for its entries.
+ */
+export function readAltTextManifest(filePath: string): AltTextManifest {
+  // Spreadsheet apps may save a byte order mark.
+  const content = FS.readFileSync(filePath).toString().replace(/^\uFEFF/, "");
+  const invalid = new Error(
+    `Alt text file ${filePath} must list media with their uri and altText, or map media URIs to alt text`
+  );
+
+  let entries: Partial<Record<keyof AltTextManifestEntry, unknown>>[];
+  if (isCsvManifest(filePath)) {
+    const [header = [], ...rows] = parseCsv(content);
+    if (!header.includes("uri") || !header.includes("altText")) {
+      throw invalid;
+    }
+    entries = rows.map((fields) =>
+      Object.fromEntries(header.map((column, index) => [column, fields[index] ?? ""]))
+    );
+  } else {
+    const json = JSON.parse(content);
+    if (json && typeof json === "object" && !Array.isArray(json)) {
+      // A plain object maps each media URI to its alt text.
+      entries = Object.entries(json).map(([uri, altText]) => ({ uri, altText }));
+    } else if (Array.isArray(json)) {
+      entries = json;
+    } else {
+      throw invalid;
+    }
+  }
+
+  if (entries.some((entry) => typeof entry?.uri !== "string" || typeof entry.altText !== "string")) {
+    throw invalid;
+  }
+  const generators = new Map<string, string>();
+  for (const { uri, generated, source } of entries) {
+    // CSV fields are text, a spreadsheet app may also write TRUE.
+    if (generated === true || String(generated).toLowerCase() === "true") {
+      generators.set(uri as string, typeof source === "string" && source ? source : "model");
+    }
+  }
+  return {
+    altTexts: new Map(entries.map((entry) => [entry.uri as string, entry.altText as string])),
+    generators,
+  };
+}
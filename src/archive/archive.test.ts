@@ -0,0 +1,141 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { FolderArchive, openArchive, ZipArchive } from "./archive";
+import { STORED, writeZip } from "../test/zip";
+
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("archives", () => {
+  let folder: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "archive-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  describe("ZipArchive", () => {
+    test("should read deflated and stored entries", () => {
+      const deflated = path.join(folder, "deflated.zip");
+      const stored = path.join(folder, "stored.zip");
+      writeZip(deflated, { "posts.json": "[]" });
+      writeZip(stored, { "media/photo.jpg": "photo" }, { method: STORED });
+
+      const archive = new ZipArchive([deflated, stored]);
+
+      expect(archive.read("posts.json").toString()).toBe("[]");
+      expect(archive.read("media/photo.jpg").toString()).toBe("photo");
+      expect(archive.has("media/photo.jpg")).toBe(true);
+      expect(archive.has("media/missing.jpg")).toBe(false);
+      expect(archive.getPath()).toBeUndefined();
+      expect(() => archive.read("media/missing.jpg")).toThrow(`media/missing.jpg is not in ${deflated}, ${stored}`);
+    });
+
+    test("should merge the files of every part, the first part listing a file wins", () => {
+      const part1 = path.join(folder, "part1.zip");
+      const part2 = path.join(folder, "part2.zip");
+      writeZip(part1, { "your_instagram_activity/media/posts_1.json": "[1]", "media/posts/a.jpg": "a" });
+      writeZip(part2, { "your_instagram_activity/media/posts_1.json": "[2]", "media/reels/b.mp4": "b" });
+
+      const archive = new ZipArchive([part1, part2]);
+
+      expect(archive.read("your_instagram_activity/media/posts_1.json").toString()).toBe("[1]");
+      expect(archive.list("media").sort()).toEqual(["posts", "reels"]);
+      expect(archive.list("media/reels/")).toEqual(["b.mp4"]);
+      expect(archive.list("")).toEqual(["your_instagram_activity", "media"]);
+      expect(archive.list("stories")).toEqual([]);
+    });
+
+    test("should reject an unsupported compression method", () => {
+      const zipFile = path.join(folder, "export.zip");
+      writeZip(zipFile, { "photo.jpg": "photo" }, { method: 12 });
+
+      expect(() => new ZipArchive([zipFile]).read("photo.jpg")).toThrow(
+        "photo.jpg uses the unsupported compression method 12"
+      );
+    });
+
+    test("should extract an entry on its own and reuse it", async () => {
+      const zipFile = path.join(folder, "export.zip");
+      writeZip(zipFile, { "media/reels/reel.mp4": "video", "media/reels/other.mp4": "other" });
+      const extractFolder = path.join(folder, "extracted");
+      const archive = new ZipArchive([zipFile], extractFolder);
+
+      const filePath = await archive.extract("media/reels/reel.mp4");
+
+      expect(filePath).toBe(path.join(extractFolder, "media/reels/reel.mp4"));
+      expect(fs.readFileSync(filePath, "utf8")).toBe("video");
+      expect(fs.readdirSync(path.join(extractFolder, "media/reels"))).toEqual(["reel.mp4"]);
+
+      // A file of the same size is not extracted again.
+      fs.writeFileSync(filePath, "kept!");
+      expect(await archive.extract("media/reels/reel.mp4")).toBe(filePath);
+      expect(fs.readFileSync(filePath, "utf8")).toBe("kept!");
+    });
+
+    test("should not extract an entry outside of the extract folder", async () => {
+      const zipFile = path.join(folder, "export.zip");
+      writeZip(zipFile, { "../escape.txt": "escape" });
+
+      await expect(new ZipArchive([zipFile], path.join(folder, "extracted")).extract("../escape.txt")).rejects.toThrow(
+        "../escape.txt is outside of the extract folder"
+      );
+      expect(fs.existsSync(path.join(folder, "escape.txt"))).toBe(false);
+    });
+  });
+
+  describe("FolderArchive", () => {
+    test("should read the files of the folder", async () => {
+      fs.mkdirSync(path.join(folder, "media"));
+      fs.writeFileSync(path.join(folder, "media", "photo.jpg"), "photo");
+      const archive = new FolderArchive(folder);
+
+      expect(archive.read("media/photo.jpg").toString()).toBe("photo");
+      expect(archive.has("media/photo.jpg")).toBe(true);
+      expect(archive.list("media")).toEqual(["photo.jpg"]);
+      expect(archive.list("missing")).toEqual([]);
+      expect(await archive.extract("media/photo.jpg")).toBe(path.join(folder, "media", "photo.jpg"));
+    });
+  });
+
+  describe("openArchive", () => {
+    test("should open a ZIP file", () => {
+      const zipFile = path.join(folder, "export.zip");
+      writeZip(zipFile, { "posts.json": "[]" });
+
+      const archive = openArchive(zipFile);
+
+      expect(archive).toBeInstanceOf(ZipArchive);
+      expect(openArchive(zipFile)).toBe(archive);
+    });
+
+    test("should open the parts of an export in a folder of ZIP files", () => {
+      writeZip(path.join(folder, "export-part2.zip"), { "b.txt": "b" });
+      writeZip(path.join(folder, "export-part1.zip"), { "a.txt": "a" });
+      fs.writeFileSync(path.join(folder, ".DS_Store"), "");
+
+      const archive = openArchive(folder);
+
+      expect(archive.name).toBe(`${path.join(folder, "export-part1.zip")}, ${path.join(folder, "export-part2.zip")}`);
+      expect(archive.read("b.txt").toString()).toBe("b");
+    });
+
+    test("should open an unzipped export as a folder", () => {
+      fs.mkdirSync(path.join(folder, "media"));
+
+      expect(openArchive(folder)).toBeInstanceOf(FolderArchive);
+    });
+  });
+});
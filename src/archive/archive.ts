@@ -0,0 +1,206 @@
+import { createHash } from "crypto";
+import FS from "fs";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+
+import { createZipEntryStream, readZipEntries, readZipEntry, ZipEntry } from "./zip";
+import { logger } from "../logger/logger";
+import { writeThenRename } from "../video/cache";
+
+/**
+ * An Instagram export, unzipped in a folder or still in its ZIP files.
+ * Entries are paths relative to the root of the export with forward slashes, e.g. the media URIs.
+ */
+export interface Archive {
+  // Describes the archive in the logs.
+  readonly name: string;
+  has(entry: string): boolean;
+  /**
+   * @throws when the entry is not in the archive.
+   */
+  read(entry: string): Buffer;
+  /**
+   * @param folder of the archive, empty for its root.
+   * @returns the names in the folder, empty when the folder is not in the archive.
+   */
+  list(folder: string): string[];
+  /**
+   * Gets the path of an entry on disk, undefined when it only is in a ZIP file.
+   */
+  getPath(entry: string): string | undefined;
+  /**
+   * Gets a path on disk of an entry for tools reading files, e.g. ffmpeg.
+   * An entry of a ZIP file is extracted on its own first.
+   * @throws when the entry is not in the archive.
+   */
+  extract(entry: string): Promise<string>;
+}
+
+/**
+ * An export unzipped in a folder.
+ */
+export class FolderArchive implements Archive {
+  constructor(private readonly folder: string) {}
+
+  get name(): string {
+    return this.folder;
+  }
+
+  has(entry: string): boolean {
+    return FS.existsSync(path.join(this.folder, entry));
+  }
+
+  read(entry: string): Buffer {
+    return FS.readFileSync(path.join(this.folder, entry));
+  }
+
+  list(folder: string): string[] {
+    try {
+      return FS.readdirSync(path.join(this.folder, folder));
+    } catch (error) {
+      logger.debug(`Failed to list ${path.join(this.folder, folder)}: ${(error as Error)?.message}`);
+      return [];
+    }
+  }
+
+  getPath(entry: string): string {
+    return path.join(this.folder, entry);
+  }
+
+  async extract(entry: string): Promise<string> {
+    return this.getPath(entry);
+  }
+}
+
+/**
+ * An export still in its ZIP files, Instagram splits large exports into several parts with different files.
+ * Only the central directory of each part is read up front, entries are decompressed when read.
+ */
+export class ZipArchive implements Archive {
+  private readonly entries = new Map<string, ZipEntry>();
+
+  /**
+   * @param zipFiles parts of the export, the first part listing an entry is used.
+   * @param extractFolder where entries are extracted for tools reading files, kept to be reused by the next run.
+   * @throws when a part is not a ZIP file.
+   */
+  constructor(
+    private readonly zipFiles: string[],
+    private readonly extractFolder: string = path.join(os.tmpdir(), "instagram-to-bluesky", getArchiveKey(zipFiles))
+  ) {
+    for (const zipFile of zipFiles) {
+      for (const entry of readZipEntries(zipFile)) {
+        if (!this.entries.has(entry.name)) {
+          this.entries.set(entry.name, entry);
+        }
+      }
+    }
+  }
+
+  get name(): string {
+    return this.zipFiles.join(", ");
+  }
+
+  has(entry: string): boolean {
+    return this.entries.has(entry);
+  }
+
+  read(entry: string): Buffer {
+    return readZipEntry(this.getEntry(entry));
+  }
+
+  list(folder: string): string[] {
+    const prefix = folder ? `${folder.replace(/\/+$/, "")}/` : "";
+    const names = new Set<string>();
+    for (const name of this.entries.keys()) {
+      if (name.startsWith(prefix)) {
+        // Files of the folder and its subfolders, as a folder would list them.
+        names.add(name.substring(prefix.length).split("/")[0]);
+      }
+    }
+    return Array.from(names);
+  }
+
+  getPath(): undefined {
+    return undefined;
+  }
+
+  async extract(entry: string): Promise<string> {
+    const zipEntry = this.getEntry(entry);
+    const filePath = path.join(this.extractFolder, entry);
+    if (!filePath.startsWith(path.join(this.extractFolder, path.sep))) {
+      throw new Error(`${entry} is outside of the extract folder`);
+    }
+    // Extracted by a previous run, reused so the videos transcoded from it stay cached.
+    if (FS.existsSync(filePath) && FS.statSync(filePath).size === zipEntry.size) {
+      return filePath;
+    }
+
+    FS.mkdirSync(path.dirname(filePath), { recursive: true });
+    await writeThenRename(filePath, (partialPath) =>
+      pipeline(createZipEntryStream(zipEntry), FS.createWriteStream(partialPath))
+    );
+    logger.debug(`Extracted ${entry} to ${filePath}`);
+    return filePath;
+  }
+
+  private getEntry(entry: string): ZipEntry {
+    const zipEntry = this.entries.get(entry);
+    if (!zipEntry) {
+      throw new Error(`${entry} is not in ${this.name}`);
+    }
+    return zipEntry;
+  }
+}
+
+function getArchiveKey(zipFiles: string[]): string {
+  return createHash("sha256").update(zipFiles.map((zipFile) => path.resolve(zipFile)).join("\n")).digest("hex").substring(0, 16);
+}
+
+function isZipFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === ".zip";
+}
+
+/**
+ * Finds the parts of an export downloaded in several ZIP files, in a folder holding nothing else.
+ * @param folder
+ */
+function findZipParts(folder: string): string[] {
+  let fileNames: string[];
+  try {
+    fileNames = FS.readdirSync(folder).filter((fileName) => !fileName.startsWith("."));
+  } catch {
+    return [];
+  }
+  return fileNames.length > 0 && fileNames.every(isZipFile)
+    ? fileNames.sort().map((fileName) => path.join(folder, fileName))
+    : [];
+}
+
+const archives = new Map<string, Archive>();
+
+/**
+ * Opens the export at a path, read once and shared by every reader of the export:
+ * - a ZIP file,
+ * - a folder holding only the ZIP files of an export split into parts,
+ * - otherwise a folder of the unzipped export.
+ * @param archivePath
+ * @throws when a ZIP file can not be read.
+ */
+export function openArchive(archivePath: string): Archive {
+  let archive = archives.get(archivePath);
+  if (archive) {
+    return archive;
+  }
+
+  const zipFiles = isZipFile(archivePath) ? [archivePath] : findZipParts(archivePath);
+  if (zipFiles.length > 0) {
+    archive = new ZipArchive(zipFiles);
+    logger.info(`Reading ${zipFiles.length} ZIP files: ${zipFiles.map((zipFile) => path.basename(zipFile)).join(", ")}`);
+  } else {
+    archive = new FolderArchive(archivePath);
+  }
+  archives.set(archivePath, archive);
+  return archive;
+}
@@ -0,0 +1,238 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { FolderArchive } from "./archive";
+import {
+  describeUnknownLayout,
+  detectExportLayout,
+  findArchiveFiles,
+  findShards,
+  readArchivePosts,
+} from "./discovery";
+import { EXPORT_LAYOUTS } from "./layouts";
+import { logger } from "../logger/logger";
+
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const post = (uri: string, title = "Post") => ({
+  creation_timestamp: 1622830200,
+  title,
+  media: [{ uri, creation_timestamp: 1622830200, title }],
+});
+
+describe("archive discovery", () => {
+  let folder: string;
+
+  const postsFolder = EXPORT_LAYOUTS.find(({ name }) => name === "posts folder")!;
+
+  const write = (fileName: string, content: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(folder, fileName)), { recursive: true });
+    fs.writeFileSync(path.join(folder, fileName), JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "archive-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  describe("findShards", () => {
+    test("should order the shards by their number", () => {
+      for (const fileName of ["posts_10.json", "posts_2.json", "posts_1.json", "posts.json", "posts_1.html", "reposts_1.json"]) {
+        fs.writeFileSync(path.join(folder, fileName), "[]");
+      }
+
+      expect(findShards(new FolderArchive(folder), "", "posts")).toEqual([
+        "posts.json",
+        "posts_1.json",
+        "posts_2.json",
+        "posts_10.json",
+      ]);
+    });
+
+    test("should find no shards in a missing folder", () => {
+      expect(findShards(new FolderArchive(folder), "missing", "posts")).toEqual([]);
+    });
+  });
+
+  describe("findArchiveFiles", () => {
+    test("should log every posts and reels file found", () => {
+      write("posts_1.json", []);
+      write("posts_2.json", []);
+      write("reels.json", {});
+
+      expect(findArchiveFiles(new FolderArchive(folder), postsFolder)).toEqual({
+        layout: postsFolder,
+        posts: ["posts_1.json", "posts_2.json"],
+        reels: ["reels.json"],
+      });
+      expect(logger.info).toHaveBeenCalledWith("Found 2 posts files: posts_1.json, posts_2.json");
+      expect(logger.info).toHaveBeenCalledWith("Found 1 reels files: reels.json");
+    });
+
+    test("should log when no posts or reels are found", () => {
+      expect(findArchiveFiles(new FolderArchive(folder), postsFolder)).toEqual({ layout: postsFolder, posts: [], reels: [] });
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("No posts found."));
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining("No reels found."));
+    });
+  });
+
+  describe("readArchivePosts", () => {
+    test("should merge the posts of every shard and skip those listed twice", () => {
+      write("posts_1.json", [post("media/posts/1.jpg"), post("media/posts/2.jpg")]);
+      write("posts_2.json", [post("media/posts/2.jpg", "Again"), post("media/posts/3.jpg")]);
+      write("reels.json", { ig_reels_media: [post("media/reels/1.mp4")] });
+      write("reels_2.json", { ig_reels_media: [post("media/reels/1.mp4"), post("media/reels/2.mp4")] });
+
+      const archive = new FolderArchive(folder);
+      const posts = readArchivePosts(archive, findArchiveFiles(archive, postsFolder));
+
+      expect(posts.map(({ media }) => media[0].uri)).toEqual([
+        "media/posts/1.jpg",
+        "media/posts/2.jpg",
+        "media/posts/3.jpg",
+        "media/reels/1.mp4",
+        "media/reels/2.mp4",
+      ]);
+      expect(posts[1].title).toBe("Post");
+      expect(logger.info).toHaveBeenCalledWith("Skipped 2 posts listed in more than one file");
+    });
+
+    test("should decode the text of the posts", () => {
+      write("posts_1.json", [post("media/posts/1.jpg", "CafÃ©")]);
+
+      const [decoded] = readArchivePosts(new FolderArchive(folder), {
+        layout: postsFolder,
+        posts: ["posts_1.json"],
+        reels: [],
+      });
+
+      expect(decoded.title).toBe("Café");
+    });
+  });
+
+  describe("detectExportLayout", () => {
+    test("should detect the current layout", () => {
+      write("your_instagram_activity/media/posts_1.json", []);
+      write("content/posts_1.json", []);
+
+      expect(detectExportLayout(new FolderArchive(folder))?.name).toBe("your_instagram_activity");
+      expect(logger.info).toHaveBeenCalledWith("Reading an export with the your_instagram_activity layout");
+    });
+
+    test("should detect an export from the content folder of your_instagram_activity", () => {
+      write("your_instagram_activity/content/posts_1.json", [post("media/posts/1.jpg")]);
+      write("your_instagram_activity/content/stories.json", { ig_stories: [] });
+      const archive = new FolderArchive(folder);
+
+      const layout = detectExportLayout(archive)!;
+
+      expect(layout.name).toBe("your_instagram_activity content");
+      expect(readArchivePosts(archive, findArchiveFiles(archive, layout)).map(({ media }) => media[0].uri)).toEqual([
+        "media/posts/1.jpg",
+      ]);
+    });
+
+    test("should detect an older export from its content folder", () => {
+      write("content/reels.json", { ig_reels_media: [post("media/reels/1.mp4")] });
+      const archive = new FolderArchive(folder);
+
+      const layout = detectExportLayout(archive)!;
+
+      expect(layout.name).toBe("content");
+      expect(readArchivePosts(archive, findArchiveFiles(archive, layout)).map(({ media }) => media[0].uri)).toEqual([
+        "media/reels/1.mp4",
+      ]);
+    });
+
+    test("should read the single media.json file of the oldest exports", () => {
+      write("media.json", {
+        photos: [{ caption: "Beach", taken_at: "2018-06-12T10:20:30", path: "photos/201806/1.jpg" }],
+      });
+      const archive = new FolderArchive(folder);
+
+      const layout = detectExportLayout(archive)!;
+
+      expect(layout.name).toBe("media.json");
+      expect(readArchivePosts(archive, findArchiveFiles(archive, layout))).toEqual([
+        {
+          creation_timestamp: 1528798830,
+          title: "Beach",
+          media: [{ uri: "photos/201806/1.jpg", creation_timestamp: 1528798830, title: "Beach" }],
+        },
+      ]);
+    });
+
+    const page = (uri: string) =>
+      `<html><body><div class="pam _3-95 _2ph- _a6-g uiBoxWhite noborder"><h2>Café &amp; more</h2>` +
+      `<img src="${uri}" /><div class="_3-94 _a6-o">Jun 04, 2021 6:10 pm</div></div></body></html>`;
+
+    test("should read the pages of a current export downloaded in HTML format", () => {
+      fs.mkdirSync(path.join(folder, "your_instagram_activity/media"), { recursive: true });
+      fs.writeFileSync(path.join(folder, "your_instagram_activity/media/posts_1.html"), page("media/posts/1.jpg"));
+      const archive = new FolderArchive(folder);
+
+      const layout = detectExportLayout(archive)!;
+      const posts = readArchivePosts(archive, findArchiveFiles(archive, layout));
+
+      expect(layout.name).toBe("your_instagram_activity HTML");
+      expect(posts.map(({ title, media }) => ({ title, uri: media[0].uri }))).toEqual([
+        { title: "Café & more", uri: "media/posts/1.jpg" },
+      ]);
+    });
+
+    test("should read the pages of an export downloaded in HTML format", () => {
+      fs.mkdirSync(path.join(folder, "your_instagram_activity/content"), { recursive: true });
+      fs.writeFileSync(path.join(folder, "your_instagram_activity/content/posts_1.html"), page("media/posts/1.jpg"));
+      fs.writeFileSync(path.join(folder, "your_instagram_activity/content/reels.html"), page("media/reels/1.mp4"));
+      const archive = new FolderArchive(folder);
+
+      const layout = detectExportLayout(archive)!;
+      const posts = readArchivePosts(archive, findArchiveFiles(archive, layout));
+
+      expect(layout.name).toBe("your_instagram_activity content HTML");
+      expect(posts.map(({ title, media }) => ({ title, uri: media[0].uri }))).toEqual([
+        { title: "Café & more", uri: "media/posts/1.jpg" },
+        { title: "Café & more", uri: "media/reels/1.mp4" },
+      ]);
+    });
+
+    test("should not detect an unknown layout", () => {
+      write("your_instagram_activity/messages/inbox.json", []);
+
+      expect(detectExportLayout(new FolderArchive(folder))).toBeUndefined();
+    });
+  });
+
+  describe("describeUnknownLayout", () => {
+    test("should list the expected files and the JSON and HTML files found", () => {
+      write("index.html", "");
+      write("your_instagram_activity/messages/inbox.html", "");
+      write("your_instagram_activity/messages/photo.jpg", "");
+      write("media/posts/202106/photo.json", {});
+
+      expect(describeUnknownLayout(new FolderArchive(folder))).toBe(
+        `No known Instagram export layout found in ${folder}, expected one of your_instagram_activity/media/posts*.json, ` +
+          "your_instagram_activity/content/posts*.json, content/posts*.json, posts*.json, media*.json, " +
+          "your_instagram_activity/media/posts*.html, your_instagram_activity/content/posts*.html, content/posts*.html. " +
+          "JSON and HTML files found: index.html, your_instagram_activity/messages/inbox.html. " +
+          "Check that ARCHIVE_FOLDER points to the export."
+      );
+    });
+
+    test("should say when nothing was found", () => {
+      expect(describeUnknownLayout(new FolderArchive(folder))).toContain("JSON and HTML files found: none.");
+    });
+  });
+});
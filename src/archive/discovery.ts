@@ -0,0 +1,176 @@
+import path from "path";
+
+import { Archive } from "./archive";
+import { EXPORT_LAYOUTS, ExportLayout } from "./layouts";
+import { logger } from "../logger/logger";
+import { InstagramExportedPost, readJsonFile } from "../media";
+
+// The diagnostic of an unknown layout lists the root of the archive and the two levels of folders below.
+const DIAGNOSTIC_DEPTH = 3;
+const DIAGNOSTIC_FILE_COUNT = 20;
+
+/**
+ * Files of an archive listing posts, large accounts get them sharded across
+ * posts_1.json, posts_2.json, ... and reels.json, reels_2.json, ...
+ */
+export interface ArchiveFiles {
+  layout: ExportLayout;
+  posts: string[];
+  reels: string[];
+}
+
+/**
+ * Finds the shards of a file in a folder, e.g. posts.json, posts_1.json and posts_2.json for posts,
+ * ordered by their number. A file without a number comes first.
+ * @param archive
+ * @param folder of the archive.
+ * @param name of the file without its number and extension.
+ * @param extension of the file.
+ * @returns the entries of the shards in the archive.
+ */
+export function findShards(archive: Archive, folder: string, name: string, extension = ".json"): string[] {
+  const pattern = new RegExp(`^${name}(?:_(\\d+))?\\${extension}$`);
+  return archive
+    .list(folder)
+    .map((fileName) => ({ fileName, match: pattern.exec(fileName) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => Number(a.match![1] ?? 0) - Number(b.match![1] ?? 0))
+    .map(({ fileName }) => path.posix.join(folder, fileName));
+}
+
+/**
+ * Detects the layout of an export from the posts or reels files it has.
+ * @param archive
+ * @returns the first known layout with files in the archive, undefined for an unknown layout.
+ */
+export function detectExportLayout(archive: Archive): ExportLayout | undefined {
+  const layout = EXPORT_LAYOUTS.find(
+    ({ folder, posts, reels, extension }) =>
+      findShards(archive, folder, posts, extension).length > 0 ||
+      (reels && findShards(archive, folder, reels, extension).length > 0)
+  );
+  if (layout) {
+    logger.info(`Reading an export with the ${layout.name} layout`);
+  }
+  return layout;
+}
+
+/**
+ * Describes an archive whose layout is unknown, listing the JSON and HTML files near its root
+ * so users can tell a wrong ARCHIVE_FOLDER or an HTML export apart from a new layout.
+ * @param archive
+ */
+export function describeUnknownLayout(archive: Archive): string {
+  const files: string[] = [];
+  let folders = [""];
+  for (let depth = 0; depth < DIAGNOSTIC_DEPTH; depth++) {
+    const subfolders: string[] = [];
+    for (const folder of folders) {
+      for (const name of archive.list(folder)) {
+        const entry = path.posix.join(folder, name);
+        if (/\.(json|html)$/i.test(name)) {
+          files.push(entry);
+        } else if (!path.extname(name)) {
+          subfolders.push(entry);
+        }
+      }
+    }
+    folders = subfolders;
+  }
+
+  const expected = EXPORT_LAYOUTS.map(({ folder, posts, extension }) => path.posix.join(folder, `${posts}*${extension}`));
+  const found =
+    files.length > DIAGNOSTIC_FILE_COUNT
+      ? `${files.slice(0, DIAGNOSTIC_FILE_COUNT).join(", ")} and ${files.length - DIAGNOSTIC_FILE_COUNT} more`
+      : files.join(", ") || "none";
+  return (
+    `No known Instagram export layout found in ${archive.name}, expected one of ${expected.join(", ")}. ` +
+    `JSON and HTML files found: ${found}. Check that ARCHIVE_FOLDER points to the export.`
+  );
+}
+
+/**
+ * Finds every posts and reels file of an archive and logs them, so users can see nothing was skipped.
+ * @param archive
+ * @param layout of the archive.
+ */
+export function findArchiveFiles(archive: Archive, layout: ExportLayout): ArchiveFiles {
+  const files: ArchiveFiles = {
+    layout,
+    posts: findShards(archive, layout.folder, layout.posts, layout.extension),
+    reels: layout.reels ? findShards(archive, layout.folder, layout.reels, layout.extension) : [],
+  };
+
+  if (files.posts.length > 0) {
+    logger.info(`Found ${files.posts.length} posts files: ${files.posts.map((file) => path.basename(file)).join(", ")}`);
+  } else {
+    logger.info(`No posts found. Some accounts only have reels.`);
+  }
+  if (files.reels.length > 0) {
+    logger.info(`Found ${files.reels.length} reels files: ${files.reels.map((file) => path.basename(file)).join(", ")}`);
+  } else {
+    logger.info(`No reels found. Some accounts don't have reels.`);
+  }
+  return files;
+}
+
+/**
+ * Reads a posts, reels or stories file of a layout, parsed when it is a JSON file.
+ * @param archive
+ * @param layout of the archive.
+ * @param file entry of the file in the archive.
+ * @param missingFileMessage logged when the file is not in the archive.
+ */
+export function readLayoutFile(archive: Archive, layout: ExportLayout, file: string, missingFileMessage: string): any {
+  if (layout.extension === ".json") {
+    return readJsonFile(file, missingFileMessage, [], archive);
+  }
+  if (!archive.has(file)) {
+    logger.info(missingFileMessage);
+    return "";
+  }
+  return archive.read(file).toString();
+}
+
+/**
+ * Identifies a post by the media it contains, the same post listed in two files has the same media.
+ * @returns undefined for a post without media URIs, which can not be told apart.
+ */
+function getPostKey(post: InstagramExportedPost): string | undefined {
+  const media = Array.isArray(post.media) ? post.media : [post.media];
+  const uris = media.map((item) => item?.uri).filter((uri) => uri);
+  return uris.length > 0 ? uris.join("\n") : undefined;
+}
+
+/**
+ * Reads and merges the posts of every posts and reels file, mapped by the layout of the archive, keeping the first of the posts
+ * listed in more than one file.
+ * @param archive
+ * @param files
+ * @returns the posts, in the order of the files.
+ */
+export function readArchivePosts(archive: Archive, files: ArchiveFiles): InstagramExportedPost[] {
+  const { layout } = files;
+  const entries = [
+    ...files.posts.flatMap((file) => layout.readPosts(readLayoutFile(archive, layout, file, `Posts file ${file} not found.`))),
+    ...files.reels.flatMap((file) => layout.readReels(readLayoutFile(archive, layout, file, `Reels file ${file} not found.`))),
+  ];
+
+  const keys = new Set<string>();
+  const posts: InstagramExportedPost[] = [];
+  for (const post of entries) {
+    const key = getPostKey(post);
+    if (key && keys.has(key)) {
+      continue;
+    }
+    if (key) {
+      keys.add(key);
+    }
+    posts.push(post);
+  }
+
+  if (posts.length < entries.length) {
+    logger.info(`Skipped ${entries.length - posts.length} posts listed in more than one file`);
+  }
+  return posts;
+}
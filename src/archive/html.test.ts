@@ -0,0 +1,63 @@
+import { decodeHtmlEntities, parseHtmlDate, parseHtmlPosts } from "./html";
+
+const box = (content: string) => `<div class="pam _3-95 _2ph- _a6-g uiBoxWhite noborder">${content}</div>`;
+
+describe("HTML exports", () => {
+  describe("parseHtmlDate", () => {
+    test("should read the dates of posts in local time", () => {
+      expect(parseHtmlDate("Jun 04, 2021 6:10 pm")).toBe(new Date(2021, 5, 4, 18, 10).getTime() / 1000);
+      expect(parseHtmlDate("Dec 1, 2020, 12:05:30 AM")).toBe(new Date(2020, 11, 1, 0, 5, 30).getTime() / 1000);
+    });
+
+    test("should return 0 for text that is not a date", () => {
+      expect(parseHtmlDate("Photos")).toBe(0);
+      expect(parseHtmlDate("Foo 04, 2021 6:10 pm")).toBe(0);
+    });
+  });
+
+  test("should decode character references", () => {
+    expect(decodeHtmlEntities("Tom &amp; Jerry&#039;s &#x1F600; &quot;quoted&quot; &unknown;")).toBe(
+      'Tom & Jerry\'s \u{1F600} "quoted" &unknown;'
+    );
+  });
+
+  describe("parseHtmlPosts", () => {
+    test("should extract the caption, date and media of each post", () => {
+      const html =
+        `<html><head><title>Posts</title></head><body><div class="_a706">` +
+        box(
+          `<h2 class="_3-95 _2pim _a6-h _a6-i">Summer<br />at the beach &#x1F3D6;</h2><div class="_3-95 _a6-p">` +
+            `<a href="media/posts/202106/1.jpg"><img src="media/posts/202106/1.jpg" class="_a6_o _3-96" /></a>` +
+            `<video src="media/posts/202106/2.mp4" controls></video>` +
+            `</div><div class="_3-94 _a6-o">Jun 04, 2021 6:10 pm</div>`
+        ) +
+        box(`<img src="../../media/posts/202107/3.jpg" /><img src="https://example.com/icon.png" /><div>Jul 01, 2021 9:00 am</div>`) +
+        box(`<h2>No media</h2><div>Jul 02, 2021 9:00 am</div>`) +
+        `</div></body></html>`;
+
+      const timestamp = new Date(2021, 5, 4, 18, 10).getTime() / 1000;
+      expect(parseHtmlPosts(html)).toEqual([
+        {
+          creation_timestamp: timestamp,
+          title: "Summer\nat the beach \u{1F3D6}",
+          media: [
+            { uri: "media/posts/202106/1.jpg", creation_timestamp: timestamp, title: "" },
+            { uri: "media/posts/202106/2.mp4", creation_timestamp: timestamp, title: "" },
+          ],
+        },
+        {
+          creation_timestamp: new Date(2021, 6, 1, 9, 0).getTime() / 1000,
+          title: "",
+          media: [{ uri: "media/posts/202107/3.jpg", creation_timestamp: new Date(2021, 6, 1, 9, 0).getTime() / 1000, title: "" }],
+        },
+      ]);
+    });
+
+    test("should give the caption of a single media post to its media", () => {
+      const [post] = parseHtmlPosts(box(`<h2>Sunset</h2><img src="media/posts/1.jpg" />`));
+
+      expect(post.creation_timestamp).toBe(0);
+      expect(post.media).toEqual([{ uri: "media/posts/1.jpg", creation_timestamp: 0, title: "Sunset" }]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { InstagramExportedPost, Media } from "../media";
+
+// Every post of an HTML export page is in a box of this class, the page header is not.
+const POST_BOX = /<div\b[^>]*\bclass="[^"]*\buiBoxWhite\b[^"]*"[^>]*>/gi;
+const MEDIA_SOURCE = /<(?:img|video|source)\b[^>]*?\ssrc="([^"]*)"/gi;
+const CAPTION = /<h2\b[^>]*>([\s\S]*?)<\/h2>/i;
+const TEXT = />([^<]+)</g;
+// e.g. Jun 04, 2021 6:10 pm or Jun 04, 2021, 6:10:30 PM
+const DATE = /^([A-Z][a-z]{2}) (\d{1,2}), (\d{4}),? (\d{1,2}):(\d{2})(?::(\d{2}))? ?([ap]m)$/i;
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decodes the character references of HTML text, e.g. &amp; and &#039;.
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (reference, name: string) => {
+    if (name.startsWith("#")) {
+      const codePoint = name[1].toLowerCase() === "x" ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+    }
+    return ENTITIES[name.toLowerCase()] ?? reference;
+  });
+}
+
+/**
+ * Parses the date of a post in an HTML export. The pages have no time zone, the dates are read in
+ * the time zone of the computer running the import, usually the one of the account.
+ * @returns the creation timestamp in seconds, 0 when the text is not a date.
+ */
+export function parseHtmlDate(text: string): number {
+  const match = DATE.exec(text.trim());
+  const month = match ? MONTHS.indexOf(match[1].toLowerCase()) : -1;
+  if (!match || month < 0) {
+    return 0;
+  }
+  const [, , day, year, hours, minutes, seconds = "0", meridiem] = match;
+  const hour = (Number(hours) % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0);
+  const date = new Date(Number(year), month, Number(day), hour, Number(minutes), Number(seconds));
+  return Math.floor(date.getTime() / 1000);
+}
+
+function readCaption(box: string): string {
+  const caption = CAPTION.exec(box);
+  if (!caption) {
+    return "";
+  }
+  const text = caption[1].replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]*>/g, "");
+  return decodeHtmlEntities(text).trim();
+}
+
+/**
+ * Extracts the posts of a posts or reels page of an HTML export, with the same data as the JSON files:
+ * the caption, the date and the media of each post, a carousel keeping its media together.
+ * @param html of the page.
+ * @returns the posts with media, in the order of the page.
+ */
+export function parseHtmlPosts(html: string): InstagramExportedPost[] {
+  const starts = Array.from(html.matchAll(POST_BOX), (match) => match.index!);
+  const posts: InstagramExportedPost[] = [];
+  for (const [index, start] of starts.entries()) {
+    const box = html.substring(start, starts[index + 1] ?? html.length);
+
+    // Images link to themselves, a media is kept once. The media folder is at the root of the export,
+    // pages linking it relative to their own folder with ../ are read from the root too.
+    const uris = new Set(
+      Array.from(box.matchAll(MEDIA_SOURCE), ([, source]) => decodeHtmlEntities(source).replace(/^(\.\.?\/)+/, ""))
+        .filter((source) => source && !/^(https?|data):/i.test(source))
+    );
+    if (uris.size === 0) {
+      continue;
+    }
+
+    const title = readCaption(box);
+    const creation_timestamp =
+      Array.from(box.matchAll(TEXT), ([, text]) => parseHtmlDate(decodeHtmlEntities(text))).find(
+        (timestamp) => timestamp > 0
+      ) ?? 0;
+    // As in the JSON files, the caption of a single media post is its title.
+    const media = Array.from(
+      uris,
+      (uri) => ({ uri, creation_timestamp, title: uris.size === 1 ? title : "" }) as Media
+    );
+    posts.push({ creation_timestamp, title, media });
+  }
+  return posts;
+}
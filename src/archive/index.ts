@@ -0,0 +1,5 @@
+export * from './archive';
+export * from './discovery';
+export * from './html';
+export * from './layouts';
+export * from './zip';
\ No newline at end of file
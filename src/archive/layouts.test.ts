@@ -0,0 +1,41 @@
+import { EXPORT_LAYOUTS, parseTakenAt } from "./layouts";
+
+describe("export layouts", () => {
+  const layout = (name: string) => EXPORT_LAYOUTS.find((exportLayout) => exportLayout.name === name)!;
+
+  describe("parseTakenAt", () => {
+    test("should read a date without time zone in UTC", () => {
+      expect(parseTakenAt("2018-06-12T10:20:30")).toBe(1528798830);
+      expect(parseTakenAt("2018-06-12T12:20:30+02:00")).toBe(1528798830);
+    });
+
+    test("should return 0 for an invalid date", () => {
+      expect(parseTakenAt("yesterday")).toBe(0);
+    });
+  });
+
+  test("should group the media of a legacy carousel into a post", () => {
+    const posts = layout("media.json").readPosts({
+      photos: [
+        { caption: "Trip", taken_at: "2018-06-12T10:20:30", path: "photos/201806/1.jpg" },
+        { caption: "Trip", taken_at: "2018-06-12T10:20:30", path: "photos/201806/2.jpg" },
+        { taken_at: "2018-06-13T10:20:30", path: "photos/201806/3.jpg" },
+        { caption: "No path", taken_at: "2018-06-14T10:20:30" },
+      ],
+      videos: [{ caption: "Trip", taken_at: "2018-06-12T10:20:30", path: "videos/201806/4.mp4" }],
+    });
+
+    expect(posts.map(({ title, media }) => ({ title, uris: (media as { uri: string }[]).map(({ uri }) => uri) }))).toEqual([
+      { title: "Trip", uris: ["photos/201806/1.jpg", "photos/201806/2.jpg", "videos/201806/4.mp4"] },
+      { title: "", uris: ["photos/201806/3.jpg"] },
+    ]);
+  });
+
+  test("should map unexpected content to no posts", () => {
+    for (const { extension, readPosts, readReels, readStories } of EXPORT_LAYOUTS) {
+      expect(readPosts(extension === ".html" ? "<html></html>" : {})).toEqual([]);
+      expect(readReels(extension === ".html" ? "" : [])).toEqual([]);
+      expect(readStories(extension === ".html" ? "" : {})).toEqual([]);
+    }
+  });
+});
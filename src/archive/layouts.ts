@@ -0,0 +1,211 @@
+import { parseHtmlPosts } from "./html";
+import { decodeUTF8, InstagramExportedPost, Media } from "../media";
+
+/**
+ * Where an Instagram export version keeps its posts files and how their content maps onto posts.
+ */
+export interface ExportLayout {
+  // Names the layout in the logs.
+  name: string;
+  // Folder of the posts and reels files in the archive, empty for its root.
+  folder: string;
+  // Name of the posts files without their shard number and extension, e.g. posts for posts_1.json.
+  posts: string;
+  // Name of the reels files, undefined when the layout keeps reels with the posts.
+  reels?: string;
+  // Name of the stories files, undefined when the layout has no stories.
+  stories?: string;
+  // Format of the posts files, .json or the .html pages of an export downloaded in HTML format.
+  extension: ".json" | ".html";
+  /**
+   * Maps the content of a posts file onto posts, the parsed JSON or the HTML page.
+   */
+  readPosts(content: any): InstagramExportedPost[];
+  /**
+   * Maps the content of a reels file onto posts, the parsed JSON or the HTML page.
+   */
+  readReels(content: any): InstagramExportedPost[];
+  /**
+   * Maps the content of a stories file onto the media of the stories, each story being one media.
+   */
+  readStories(content: any): Media[];
+}
+
+// The text of JSON files is decoded, Instagram escapes it as UTF-8 bytes.
+function readPostList(content: any): InstagramExportedPost[] {
+  return Array.isArray(content) ? decodeUTF8(content) : [];
+}
+
+// Reels files wrap their posts.
+function readReelList(content: any): InstagramExportedPost[] {
+  return Array.isArray(content?.["ig_reels_media"]) ? decodeUTF8(content["ig_reels_media"]) : [];
+}
+
+// Stories files wrap their media.
+function readStoryList(content: any): Media[] {
+  return Array.isArray(content?.["ig_stories"]) ? decodeUTF8(content["ig_stories"]) : [];
+}
+
+// Pages of stories list them like posts.
+function readHtmlStories(content: any): Media[] {
+  return parseHtmlPosts(content).flatMap(({ media }) => media);
+}
+
+/**
+ * A photo or video of the oldest exports, dated with an ISO 8601 string.
+ */
+interface LegacyMedia {
+  caption?: string;
+  taken_at: string;
+  path: string;
+}
+
+/**
+ * Parses the date of a legacy media, without a time zone it is in UTC.
+ * @returns the creation timestamp in seconds, 0 when the date is invalid.
+ */
+export function parseTakenAt(takenAt: string): number {
+  const date = Date.parse(/(Z|[+-]\d{2}:?\d{2})$/.test(takenAt) ? takenAt : `${takenAt}Z`);
+  return Number.isNaN(date) ? 0 : Math.floor(date / 1000);
+}
+
+function toLegacyMedia(item: LegacyMedia): Media {
+  return { uri: item.path, creation_timestamp: parseTakenAt(item.taken_at), title: item.caption ?? "" } as Media;
+}
+
+/**
+ * Maps the photos and videos of a media.json file onto posts. The file lists carousels media by media,
+ * they are grouped back into a post by their date and caption.
+ */
+function readLegacyMedia(content: any): InstagramExportedPost[] {
+  const items: LegacyMedia[] = decodeUTF8([
+    ...(Array.isArray(content?.photos) ? content.photos : []),
+    ...(Array.isArray(content?.videos) ? content.videos : []),
+  ]);
+
+  const posts = new Map<string, InstagramExportedPost & { media: Media[] }>();
+  for (const item of items) {
+    if (!item?.path) {
+      continue;
+    }
+    const media = toLegacyMedia(item);
+    const { title, creation_timestamp } = media;
+
+    const key = `${item.taken_at}\n${title}`;
+    const post = posts.get(key);
+    if (post) {
+      post.media.push(media);
+    } else {
+      posts.set(key, { creation_timestamp, title, media: [media] });
+    }
+  }
+  return Array.from(posts.values());
+}
+
+// Stories of a media.json file, listed with its photos and videos.
+function readLegacyStories(content: any): Media[] {
+  const items: LegacyMedia[] = decodeUTF8(Array.isArray(content?.stories) ? content.stories : []);
+  return items.filter((item) => item?.path).map(toLegacyMedia);
+}
+
+/**
+ * Known layouts of Instagram exports, the first one with posts or reels files in an archive is used,
+ * the JSON files before the HTML pages of an archive having both.
+ */
+export const EXPORT_LAYOUTS: ExportLayout[] = [
+  {
+    // Current exports.
+    name: "your_instagram_activity",
+    folder: "your_instagram_activity/media",
+    posts: "posts",
+    reels: "reels",
+    stories: "stories",
+    extension: ".json",
+    readPosts: readPostList,
+    readReels: readReelList,
+    readStories: readStoryList,
+  },
+  {
+    // Exports between the content folder and the media folder of your_instagram_activity, with the same files.
+    name: "your_instagram_activity content",
+    folder: "your_instagram_activity/content",
+    posts: "posts",
+    reels: "reels",
+    stories: "stories",
+    extension: ".json",
+    readPosts: readPostList,
+    readReels: readReelList,
+    readStories: readStoryList,
+  },
+  {
+    // Exports before the your_instagram_activity folder, with the same files.
+    name: "content",
+    folder: "content",
+    posts: "posts",
+    reels: "reels",
+    stories: "stories",
+    extension: ".json",
+    readPosts: readPostList,
+    readReels: readReelList,
+    readStories: readStoryList,
+  },
+  {
+    // ARCHIVE_FOLDER pointing to the folder of the posts files itself, e.g. the test modes.
+    name: "posts folder",
+    folder: "",
+    posts: "posts",
+    reels: "reels",
+    stories: "stories",
+    extension: ".json",
+    readPosts: readPostList,
+    readReels: readReelList,
+    readStories: readStoryList,
+  },
+  {
+    // The oldest exports, every photo and video in a single media.json file.
+    name: "media.json",
+    folder: "",
+    posts: "media",
+    stories: "media",
+    extension: ".json",
+    readPosts: readLegacyMedia,
+    readReels: () => [],
+    readStories: readLegacyStories,
+  },
+  {
+    // Current exports downloaded in HTML format, with the same folders as the JSON files.
+    name: "your_instagram_activity HTML",
+    folder: "your_instagram_activity/media",
+    posts: "posts",
+    reels: "reels",
+    stories: "stories",
+    extension: ".html",
+    readPosts: parseHtmlPosts,
+    readReels: parseHtmlPosts,
+    readStories: readHtmlStories,
+  },
+  {
+    // Exports downloaded in HTML format keeping their pages in the content folder of your_instagram_activity.
+    name: "your_instagram_activity content HTML",
+    folder: "your_instagram_activity/content",
+    posts: "posts",
+    reels: "reels",
+    stories: "stories",
+    extension: ".html",
+    readPosts: parseHtmlPosts,
+    readReels: parseHtmlPosts,
+    readStories: readHtmlStories,
+  },
+  {
+    // Older exports downloaded in HTML format.
+    name: "content HTML",
+    folder: "content",
+    posts: "posts",
+    reels: "reels",
+    stories: "stories",
+    extension: ".html",
+    readPosts: parseHtmlPosts,
+    readReels: parseHtmlPosts,
+    readStories: readHtmlStories,
+  },
+];
@@ -0,0 +1,158 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { text } from "stream/consumers";
+
+import { createZipEntryStream, readZipEntries, readZipEntry } from "./zip";
+import { DEFLATED, STORED, writeZip } from "../test/zip";
+
+describe("zip", () => {
+  let folder: string;
+  let zipFile: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "zip-"));
+    zipFile = path.join(folder, "export.zip");
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  // Reads an entry both at once and as a stream, the two must agree.
+  const readBothWays = async (name: string) => {
+    const entry = readZipEntries(zipFile).find((zipEntry) => zipEntry.name === name)!;
+    const content = readZipEntry(entry).toString();
+    expect(await text(createZipEntryStream(entry))).toBe(content);
+    return content;
+  };
+
+  describe("readZipEntries", () => {
+    test("should list the files of a ZIP file without its folders and encrypted files", () => {
+      writeZip(
+        zipFile,
+        { "media/": "", "media/posts/photo.jpg": "photo", "media/posts/secret.jpg": "secret" },
+        { encrypted: ["media/posts/secret.jpg"] }
+      );
+
+      expect(readZipEntries(zipFile)).toEqual([
+        expect.objectContaining({ name: "media/posts/photo.jpg", zipFile, method: DEFLATED, size: 5 }),
+      ]);
+    });
+
+    test("should read the sizes and offsets of a ZIP64 file after its other extra fields", async () => {
+      writeZip(zipFile, { "a.txt": "first", "b.txt": "second" }, { zip64: true });
+
+      const entries = readZipEntries(zipFile);
+
+      expect(entries.map(({ name, size }) => ({ name, size }))).toEqual([
+        { name: "a.txt", size: 5 },
+        { name: "b.txt", size: 6 },
+      ]);
+      expect(entries[1].localHeaderOffset).toBeGreaterThan(0);
+      expect(await readBothWays("b.txt")).toBe("second");
+    });
+
+    test("should find the end of central directory before the comment of the ZIP file", () => {
+      writeZip(zipFile, { "a.txt": "first" });
+      const content = fs.readFileSync(zipFile);
+      content.writeUInt16LE("Exported by Instagram".length, content.length - 2);
+      fs.writeFileSync(zipFile, Buffer.concat([content, Buffer.from("Exported by Instagram")]));
+
+      expect(readZipEntries(zipFile).map(({ name }) => name)).toEqual(["a.txt"]);
+    });
+
+    test.each(["not a zip", "not a zip, but longer than an end of central directory"])(
+      "should throw for a file that is not a ZIP file: %s",
+      (content) => {
+        fs.writeFileSync(zipFile, content);
+
+        expect(() => readZipEntries(zipFile)).toThrow(`${zipFile} is not a ZIP file`);
+      }
+    );
+
+    test("should throw for a ZIP64 file with an invalid end of central directory", () => {
+      writeZip(zipFile, { "a.txt": "first" }, { zip64: true });
+      const content = fs.readFileSync(zipFile);
+      // Points the locator at the start of the file instead of the ZIP64 record.
+      content.writeBigUInt64LE(0n, content.length - 22 - 20 + 8);
+      fs.writeFileSync(zipFile, content);
+
+      expect(() => readZipEntries(zipFile)).toThrow(`${zipFile} has an invalid ZIP64 end of central directory`);
+    });
+
+    test("should throw for a ZIP file with an invalid central directory", () => {
+      writeZip(zipFile, { "a.txt": "first" });
+      const content = fs.readFileSync(zipFile);
+      // Points the end of central directory at the local header.
+      content.writeUInt32LE(0, content.length - 22 + 16);
+      fs.writeFileSync(zipFile, content);
+
+      expect(() => readZipEntries(zipFile)).toThrow(`${zipFile} has an invalid central directory`);
+    });
+  });
+
+  describe("reading entries", () => {
+    test("should read deflated entries", async () => {
+      writeZip(zipFile, { "posts.json": "[]".repeat(1000) });
+
+      expect(await readBothWays("posts.json")).toBe("[]".repeat(1000));
+    });
+
+    test("should read stored entries", async () => {
+      writeZip(zipFile, { "media/photo.jpg": "photo" }, { method: STORED });
+
+      expect(await readBothWays("media/photo.jpg")).toBe("photo");
+    });
+
+    test("should read entries with a data descriptor from the sizes of the central directory", async () => {
+      writeZip(zipFile, { "a.txt": "first", "b.txt": "second" }, { dataDescriptor: true });
+
+      expect(await readBothWays("a.txt")).toBe("first");
+      expect(await readBothWays("b.txt")).toBe("second");
+    });
+
+    test("should read an empty stored entry", async () => {
+      writeZip(zipFile, { "empty.txt": "" }, { method: STORED });
+
+      expect(await readBothWays("empty.txt")).toBe("");
+    });
+
+    test("should read an empty deflated entry without compressed data", async () => {
+      writeZip(zipFile, { "empty.txt": "" });
+      const [entry] = readZipEntries(zipFile);
+      // Written by some tools instead of an empty deflate block.
+      const emptyEntry = { ...entry, compressedSize: 0 };
+
+      expect(readZipEntry(emptyEntry).toString()).toBe("");
+      expect(await text(createZipEntryStream(emptyEntry))).toBe("");
+    });
+
+    test("should throw for an entry with an invalid local header", () => {
+      writeZip(zipFile, { "a.txt": "first" });
+      const [entry] = readZipEntries(zipFile);
+
+      expect(() => readZipEntry({ ...entry, localHeaderOffset: 4 })).toThrow(
+        `a.txt has an invalid local header in ${zipFile}`
+      );
+      expect(() => createZipEntryStream({ ...entry, localHeaderOffset: 4 })).toThrow(
+        `a.txt has an invalid local header in ${zipFile}`
+      );
+    });
+
+    test("should fail the stream of an entry with corrupt compressed data", async () => {
+      writeZip(zipFile, { "a.txt": "first" }, { method: STORED });
+      const [entry] = readZipEntries(zipFile);
+
+      await expect(text(createZipEntryStream({ ...entry, method: DEFLATED }))).rejects.toThrow();
+    });
+
+    test("should reject an unsupported compression method", () => {
+      writeZip(zipFile, { "photo.jpg": "photo" }, { method: 12 });
+      const [entry] = readZipEntries(zipFile);
+
+      expect(() => readZipEntry(entry)).toThrow("photo.jpg uses the unsupported compression method 12");
+      expect(() => createZipEntryStream(entry)).toThrow("photo.jpg uses the unsupported compression method 12");
+    });
+  });
+});
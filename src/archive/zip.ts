@@ -0,0 +1,195 @@
+import FS from "fs";
+import { pipeline, Readable } from "stream";
+import zlib from "zlib";
+
+/**
+ * ZIP file format, only the records needed to read entries are parsed.
+ * @link https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+ */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+// The end of central directory record is 22 bytes, followed by a comment of up to 65535 bytes.
+const END_OF_CENTRAL_DIRECTORY_SEARCH = 22 + 0xffff;
+const ZIP64_LOCATOR_SIZE = 20;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const ENCRYPTED_FLAG = 0x0001;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * A file in a ZIP file, read from the central directory.
+ */
+export interface ZipEntry {
+  // Path of the file in the ZIP file, with forward slashes.
+  name: string;
+  // ZIP file the entry is in.
+  zipFile: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = FS.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Replaces the sizes and offset too large for their 32 bit field with their value in the ZIP64 extra field.
+ */
+function readZip64Extra(extra: Buffer, entry: ZipEntry): void {
+  let index = 0;
+  while (index + 4 <= extra.length) {
+    const id = extra.readUInt16LE(index);
+    const length = extra.readUInt16LE(index + 2);
+    if (id === ZIP64_EXTRA_FIELD) {
+      let position = index + 4;
+      const next = () => {
+        const value = Number(extra.readBigUInt64LE(position));
+        position += 8;
+        return value;
+      };
+      // Only the fields set to their maximum in the header are in the extra field, in this order.
+      if (entry.size === 0xffffffff) entry.size = next();
+      if (entry.compressedSize === 0xffffffff) entry.compressedSize = next();
+      if (entry.localHeaderOffset === 0xffffffff) entry.localHeaderOffset = next();
+      return;
+    }
+    index += 4 + length;
+  }
+}
+
+/**
+ * Lists the files of a ZIP file from its central directory, without reading their content.
+ * @param zipFile
+ * @throws when the file is not a ZIP file.
+ */
+export function readZipEntries(zipFile: string): ZipEntry[] {
+  const fd = FS.openSync(zipFile, "r");
+  try {
+    const fileSize = FS.fstatSync(fd).size;
+    const tailStart = Math.max(0, fileSize - END_OF_CENTRAL_DIRECTORY_SEARCH);
+    const tail = readAt(fd, tailStart, fileSize - tailStart);
+
+    let end = tail.length - 22;
+    while (end >= 0 && tail.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) {
+      end--;
+    }
+    if (end < 0) {
+      throw new Error(`${zipFile} is not a ZIP file`);
+    }
+
+    let entryCount = tail.readUInt16LE(end + 10);
+    let directorySize = tail.readUInt32LE(end + 12);
+    let directoryOffset = tail.readUInt32LE(end + 16);
+
+    // Archives over 4 GB or with over 65535 files keep the real values in the ZIP64 record.
+    const locator = end - ZIP64_LOCATOR_SIZE;
+    if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR) {
+      const zip64End = readAt(fd, Number(tail.readBigUInt64LE(locator + 8)), 56);
+      if (zip64End.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+        throw new Error(`${zipFile} has an invalid ZIP64 end of central directory`);
+      }
+      entryCount = Number(zip64End.readBigUInt64LE(32));
+      directorySize = Number(zip64End.readBigUInt64LE(40));
+      directoryOffset = Number(zip64End.readBigUInt64LE(48));
+    }
+
+    const directory = readAt(fd, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let position = 0;
+    for (let index = 0; index < entryCount; index++) {
+      if (directory.readUInt32LE(position) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error(`${zipFile} has an invalid central directory`);
+      }
+      const flags = directory.readUInt16LE(position + 8);
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      const nameStart = position + 46;
+      const entry: ZipEntry = {
+        name: directory.toString("utf8", nameStart, nameStart + nameLength),
+        zipFile,
+        method: directory.readUInt16LE(position + 10),
+        compressedSize: directory.readUInt32LE(position + 20),
+        size: directory.readUInt32LE(position + 24),
+        localHeaderOffset: directory.readUInt32LE(position + 42),
+      };
+      readZip64Extra(directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength), entry);
+      position = nameStart + nameLength + extraLength + commentLength;
+
+      // Folders have no content, encrypted files can not be read.
+      if (!entry.name.endsWith("/") && !(flags & ENCRYPTED_FLAG)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  } finally {
+    FS.closeSync(fd);
+  }
+}
+
+/**
+ * Finds where the compressed content of an entry starts, after its local header.
+ */
+function getDataOffset(fd: number, entry: ZipEntry): number {
+  const header = readAt(fd, entry.localHeaderOffset, LOCAL_FILE_HEADER_SIZE);
+  if (header.length < LOCAL_FILE_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new Error(`${entry.name} has an invalid local header in ${entry.zipFile}`);
+  }
+  return entry.localHeaderOffset + LOCAL_FILE_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+}
+
+function checkMethod(entry: ZipEntry): void {
+  if (entry.method !== STORED && entry.method !== DEFLATED) {
+    throw new Error(`${entry.name} uses the unsupported compression method ${entry.method}`);
+  }
+}
+
+/**
+ * Reads and decompresses the content of an entry, only its own bytes are read from the ZIP file.
+ * @param entry
+ */
+export function readZipEntry(entry: ZipEntry): Buffer {
+  checkMethod(entry);
+  const fd = FS.openSync(entry.zipFile, "r");
+  try {
+    const data = readAt(fd, getDataOffset(fd, entry), entry.compressedSize);
+    // Some tools write empty files as deflated without any compressed data.
+    return entry.method === DEFLATED && data.length > 0 ? zlib.inflateRawSync(data) : data;
+  } finally {
+    FS.closeSync(fd);
+  }
+}
+
+/**
+ * Streams the decompressed content of an entry, e.g. to extract a large video without holding it in memory.
+ * @param entry
+ */
+export function createZipEntryStream(entry: ZipEntry): Readable {
+  checkMethod(entry);
+  const fd = FS.openSync(entry.zipFile, "r");
+  let start: number;
+  try {
+    start = getDataOffset(fd, entry);
+  } finally {
+    FS.closeSync(fd);
+  }
+
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+  const data = FS.createReadStream(entry.zipFile, { start, end: start + entry.compressedSize - 1 });
+  if (entry.method !== DEFLATED) {
+    return data;
+  }
+  // Destroys the decompression with the error of a failed read.
+  return pipeline(data, zlib.createInflateRaw(), () => {});
+}
@@ -1,6 +1,7 @@
 import fs from 'fs';
 
-import { BlueskyClient } from './bluesky';
+import { BlueskyClient, findBlobCids, getPostUrl } from './bluesky';
+import { resolvePdsUrl } from './identity';
 import { ImagesEmbedImpl, VideoEmbedImpl } from './types/index';
 
 const TEST_VIDEO_PATH = './transfer/test_video/AQM8KYlOYHTF5GlP43eMroHUpmnFHJh5CnCJUdRUeqWxG4tNX7D43eM77F152vfi4znTzgkFTTzzM4nHa_v8ugmP4WPRJtjKPZX5pko_17845940218109367.mp4';
@@ -8,7 +9,16 @@ const TEST_IMAGE_PATH = './transfer/test_image/454093999_1240420453752667_463279
 jest.mock('@atproto/api', () => ({
   AtpAgent: jest.fn().mockImplementation(() => ({
     login: jest.fn(),
-    post: jest.fn().mockResolvedValue({ uri: 'at://did:plc:test/app.bsky.feed.post/123' }),
+    com: {
+      atproto: {
+        repo: {
+          createRecord: jest.fn().mockResolvedValue({
+            data: { uri: 'at://did:plc:test/app.bsky.feed.post/123', cid: 'test-cid' }
+          }),
+          getRecord: jest.fn()
+        }
+      }
+    },
     uploadBlob: jest.fn()
   })),
   RichText: jest.fn().mockImplementation(() => ({
@@ -20,7 +30,13 @@ jest.mock('@atproto/api', () => ({
     ref,
     mimeType,
     size
-  }))
+  })),
+  AtUri: jest.requireActual('@atproto/api').AtUri
+}));
+
+jest.mock('./identity', () => ({
+  DEFAULT_SERVICE_URL: 'https://bsky.social',
+  resolvePdsUrl: jest.fn().mockResolvedValue(undefined)
 }));
 
 describe('BlueskyClient', () => {
@@ -51,13 +67,123 @@ describe('BlueskyClient', () => {
   });
 
   test('should create post successfully', async () => {
-    const postUrl = await client.createPost(
+    const createdPost = await client.createPost(
       new Date(),
       'Test post',
       new ImagesEmbedImpl([])
     );
 
-    expect(postUrl).toContain('https://bsky.app/profile/test-user/post/');
+    expect(createdPost?.url).toBe('https://bsky.app/profile/did:plc:test/post/123');
+    expect(createdPost?.uri).toBe('at://did:plc:test/app.bsky.feed.post/123');
+    expect(createdPost?.cid).toBe('test-cid');
+  });
+
+  test('should log in to the PDS resolved from the username', async () => {
+    const { AtpAgent } = jest.requireMock('@atproto/api');
+    (resolvePdsUrl as jest.Mock).mockResolvedValueOnce('https://pds.example.com');
+
+    await client.login();
+
+    expect(resolvePdsUrl).toHaveBeenCalledWith('test-user');
+    expect(AtpAgent).toHaveBeenLastCalledWith(expect.objectContaining({ service: 'https://pds.example.com' }));
+    expect(AtpAgent.mock.results[1].value.login).toHaveBeenCalledWith({
+      identifier: 'test-user',
+      password: 'test-pass'
+    });
+  });
+
+  test('should log in to the configured service without resolving the PDS', async () => {
+    const { AtpAgent } = jest.requireMock('@atproto/api');
+
+    const localClient = new BlueskyClient('test-user', 'test-pass', { serviceUrl: 'http://localhost:2583' });
+    await localClient.login();
+
+    expect(AtpAgent).toHaveBeenLastCalledWith(expect.objectContaining({ service: 'http://localhost:2583' }));
+    expect(resolvePdsUrl).not.toHaveBeenCalled();
+  });
+
+  test('should log in to bsky.social when the PDS can not be resolved', async () => {
+    await client.login();
+
+    expect(jest.requireMock('@atproto/api').AtpAgent).toHaveBeenCalledWith(expect.objectContaining({ service: 'https://bsky.social' }));
+    expect(mockAgent.login).toHaveBeenCalled();
+  });
+
+  test('should spend the points of a record creation before posting', async () => {
+    const rateLimiter = { reserve: jest.fn().mockResolvedValue(undefined), wrapFetch: jest.fn() };
+    const limitedClient = new BlueskyClient('test-user', 'test-pass', { rateLimiter: rateLimiter as any });
+
+    await limitedClient.createPost(new Date(), 'Test post', undefined);
+
+    expect(rateLimiter.reserve).toHaveBeenCalledWith(3);
+  });
+
+  describe('retrying a post', () => {
+    let retryingClient: BlueskyClient;
+    let repo: { createRecord: jest.Mock; getRecord: jest.Mock };
+
+    beforeEach(() => {
+      retryingClient = new BlueskyClient('test-user', 'test-pass', { retryPolicy: { retries: 1, backoff: 0 } });
+      repo = jest.requireMock('@atproto/api').AtpAgent.mock.results[1].value.com.atproto.repo;
+      repo.createRecord.mockRejectedValueOnce(Object.assign(new Error('Internal Server Error'), { status: 500 }));
+    });
+
+    test('should retry a post failing with a server error with the same record key', async () => {
+      repo.getRecord.mockRejectedValueOnce(Object.assign(new Error('Could not locate record'), { status: 400 }));
+
+      const createdPost = await retryingClient.createPost(new Date(), 'Test post', undefined);
+
+      expect(repo.createRecord).toHaveBeenCalledTimes(2);
+      const [first, second] = repo.createRecord.mock.calls.map(([params]) => params.rkey);
+      expect(first).toMatch(/^[a-z2-7]{13}$/);
+      expect(second).toBe(first);
+      expect(createdPost.uri).toBe('at://did:plc:test/app.bsky.feed.post/123');
+    });
+
+    test('should not create a post again when the failed attempt created it', async () => {
+      repo.getRecord.mockResolvedValueOnce({
+        data: { uri: 'at://did:plc:test/app.bsky.feed.post/456', cid: 'created-cid', value: {} }
+      });
+
+      const createdPost = await retryingClient.createPost(new Date(), 'Test post', undefined);
+
+      expect(repo.createRecord).toHaveBeenCalledTimes(1);
+      expect(repo.getRecord).toHaveBeenCalledWith(expect.objectContaining({
+        collection: 'app.bsky.feed.post',
+        rkey: repo.createRecord.mock.calls[0][0].rkey
+      }));
+      expect(createdPost).toEqual({
+        uri: 'at://did:plc:test/app.bsky.feed.post/456',
+        cid: 'created-cid',
+        url: 'https://bsky.app/profile/did:plc:test/post/456'
+      });
+    });
+  });
+
+  test('should throw when a post is rejected', async () => {
+    mockAgent.com.atproto.repo.createRecord.mockRejectedValueOnce(Object.assign(new Error('Invalid record'), { status: 400 }));
+
+    await expect(client.createPost(new Date(), 'Test post', undefined)).rejects.toThrow('Invalid record');
+    expect(mockAgent.com.atproto.repo.createRecord).toHaveBeenCalledTimes(1);
+  });
+
+  test('should create a reply post', async () => {
+    const reply = {
+      root: { uri: 'at://did:plc:test/app.bsky.feed.post/1', cid: 'cid-1' },
+      parent: { uri: 'at://did:plc:test/app.bsky.feed.post/2', cid: 'cid-2' }
+    };
+
+    await client.createPost(new Date(), 'Test reply', new ImagesEmbedImpl([]), reply);
+
+    expect(mockAgent.com.atproto.repo.createRecord).toHaveBeenCalledWith(
+      expect.objectContaining({ record: expect.objectContaining({ reply }) })
+    );
+  });
+
+  test('should create a text-only post', async () => {
+    await client.createPost(new Date(), 'Test text', undefined);
+
+    expect(mockAgent.com.atproto.repo.createRecord.mock.calls[0][0].record.embed).toBeUndefined();
   });
 
   test('should upload image successfully', async () => {
@@ -94,12 +220,237 @@ describe('BlueskyClient', () => {
       blob
     );
 
-    const postUrl = await client.createPost(
+    const createdPost = await client.createPost(
       new Date(),
       'Test video post',
       videoEmbed
     );
 
-    expect(postUrl).toContain('https://bsky.app/profile/test-user/post/123');
+    expect(createdPost?.url).toBe('https://bsky.app/profile/did:plc:test/post/123');
+  });
+
+  test('should serialize the aspect ratio of a video embed', async () => {
+    const blob = await client.uploadMedia(videoBuffer, 'video/mp4');
+
+    const videoEmbed = new VideoEmbedImpl('test video', 'video/mp4', blob, { width: 1080, height: 1920 });
+
+    expect(JSON.parse(JSON.stringify(videoEmbed))).toMatchObject({
+      $type: 'app.bsky.embed.video',
+      alt: 'test video',
+      aspectRatio: { width: 1080, height: 1920 }
+    });
+  });
+
+  test('should serialize the captions of a video embed', async () => {
+    const blob = await client.uploadMedia(videoBuffer, 'video/mp4');
+    const caption = await client.uploadMedia(Buffer.from('WEBVTT\n'), 'text/vtt');
+
+    const videoEmbed = new VideoEmbedImpl('test video', 'video/mp4', blob, undefined, [{ lang: 'en', file: caption }]);
+
+    expect(JSON.parse(JSON.stringify(videoEmbed)).captions).toEqual([
+      { lang: 'en', file: JSON.parse(JSON.stringify(caption)) }
+    ]);
+  });
+
+  describe('uploadVideo', () => {
+    const videoBlob = { ref: { link: 'video-blob-ref' }, mimeType: 'video/mp4', size: 1000 };
+    let transport: { getUploadLimits: jest.Mock; uploadVideo: jest.Mock; getJobStatus: jest.Mock };
+    let videoClient: BlueskyClient;
+    let agent: any;
+    let getServiceAuth: jest.Mock;
+
+    beforeEach(() => {
+      transport = {
+        getUploadLimits: jest.fn().mockResolvedValue({ canUpload: true, remainingDailyBytes: 100_000_000 }),
+        uploadVideo: jest.fn().mockResolvedValue({ jobId: 'job-1', did: 'did:plc:test', state: 'JOB_STATE_CREATED' }),
+        getJobStatus: jest.fn()
+          .mockResolvedValueOnce({ jobId: 'job-1', did: 'did:plc:test', state: 'JOB_STATE_ENCODING', progress: 50 })
+          .mockResolvedValueOnce({ jobId: 'job-1', did: 'did:plc:test', state: 'JOB_STATE_COMPLETED', blob: videoBlob })
+      };
+      videoClient = new BlueskyClient('test-user', 'test-pass', {
+        videoTransport: transport,
+        videoPollInterval: 0,
+        retryPolicy: { retries: 1, backoff: 0 }
+      });
+      agent = jest.requireMock('@atproto/api').AtpAgent.mock.results[1].value;
+      getServiceAuth = jest.fn().mockResolvedValue({ data: { token: 'service-token' } });
+      agent.com = { atproto: { server: { getServiceAuth } } };
+      agent.serviceUrl = new URL('https://pds.example.com');
+      agent.session = { did: 'did:plc:test' };
+    });
+
+    test('should return the blob once the processing job completes', async () => {
+      const blob = await videoClient.uploadVideo(videoBuffer, 'video/mp4');
+
+      expect(blob).toBe(videoBlob);
+      expect(getServiceAuth).toHaveBeenCalledWith(expect.objectContaining({
+        aud: 'did:web:video.bsky.app',
+        lxm: 'app.bsky.video.getUploadLimits'
+      }));
+      expect(getServiceAuth).toHaveBeenCalledWith(expect.objectContaining({
+        aud: 'did:web:pds.example.com',
+        lxm: 'com.atproto.repo.uploadBlob'
+      }));
+      expect(transport.uploadVideo).toHaveBeenCalledWith(
+        'service-token',
+        'did:plc:test',
+        expect.stringMatching(/\.mp4$/),
+        videoBuffer,
+        'video/mp4'
+      );
+      expect(transport.getJobStatus).toHaveBeenCalledTimes(2);
+      expect(transport.getJobStatus).toHaveBeenCalledWith('job-1');
+      expect(agent.uploadBlob).not.toHaveBeenCalled();
+    });
+
+    test('should not poll a video the service already processed', async () => {
+      transport.uploadVideo.mockResolvedValueOnce({ jobId: 'job-0', did: 'did:plc:test', state: 'JOB_STATE_COMPLETED', blob: videoBlob });
+
+      expect(await videoClient.uploadVideo(videoBuffer, 'video/mp4')).toBe(videoBlob);
+      expect(transport.getJobStatus).not.toHaveBeenCalled();
+    });
+
+    test('should not upload when the account can not upload videos', async () => {
+      transport.getUploadLimits.mockResolvedValueOnce({ canUpload: false, message: 'Daily video limit reached' });
+
+      await expect(videoClient.uploadVideo(videoBuffer, 'video/mp4')).rejects.toThrow('Daily video limit reached');
+      expect(transport.uploadVideo).not.toHaveBeenCalled();
+    });
+
+    test('should not upload a video larger than the bytes left today', async () => {
+      transport.getUploadLimits.mockResolvedValueOnce({ canUpload: true, remainingDailyBytes: 10 });
+
+      await expect(videoClient.uploadVideo(videoBuffer, 'video/mp4')).rejects.toThrow('bytes left to upload today');
+      expect(transport.uploadVideo).not.toHaveBeenCalled();
+    });
+
+    test('should throw when the processing job fails', async () => {
+      transport.getJobStatus.mockReset().mockResolvedValueOnce({
+        jobId: 'job-1',
+        did: 'did:plc:test',
+        state: 'JOB_STATE_FAILED',
+        error: 'Unsupported codec'
+      });
+
+      await expect(videoClient.uploadVideo(videoBuffer, 'video/mp4')).rejects.toThrow('Video processing failed: Unsupported codec');
+    });
+
+    test('should retry a status check failing with a server error', async () => {
+      transport.getJobStatus.mockReset()
+        .mockRejectedValueOnce(Object.assign(new Error('Bad Gateway'), { status: 502 }))
+        .mockResolvedValueOnce({ jobId: 'job-1', did: 'did:plc:test', state: 'JOB_STATE_COMPLETED', blob: videoBlob });
+
+      expect(await videoClient.uploadVideo(videoBuffer, 'video/mp4')).toBe(videoBlob);
+      expect(transport.getJobStatus).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  test('should list every post across pages', async () => {
+    const listRecords = jest.fn()
+      .mockResolvedValueOnce({
+        data: {
+          cursor: 'page-2',
+          records: [
+            { uri: 'at://did:plc:test/app.bsky.feed.post/1', cid: 'cid-1', value: { text: 'First', createdAt: '2024-01-01T00:00:00.000Z' } },
+          ]
+        }
+      })
+      .mockResolvedValueOnce({
+        data: {
+          records: [
+            { uri: 'at://did:plc:test/app.bsky.feed.post/2', cid: 'cid-2', value: { text: 'Second', createdAt: '2024-01-02T00:00:00.000Z' } },
+          ]
+        }
+      });
+    mockAgent.com = { atproto: { repo: { listRecords } } };
+
+    const posts = await client.listPosts();
+
+    expect(listRecords).toHaveBeenCalledTimes(2);
+    expect(listRecords).toHaveBeenLastCalledWith({
+      repo: 'test-user',
+      collection: 'app.bsky.feed.post',
+      limit: 100,
+      cursor: 'page-2'
+    });
+    expect(posts).toEqual([
+      { uri: 'at://did:plc:test/app.bsky.feed.post/1', cid: 'cid-1', text: 'First', createdAt: '2024-01-01T00:00:00.000Z' },
+      { uri: 'at://did:plc:test/app.bsky.feed.post/2', cid: 'cid-2', text: 'Second', createdAt: '2024-01-02T00:00:00.000Z' },
+    ]);
+  });
+
+  describe('deletePost', () => {
+    const uri = 'at://did:plc:test/app.bsky.feed.post/123';
+    let getRecord: jest.Mock;
+    let deleteRecord: jest.Mock;
+
+    beforeEach(() => {
+      getRecord = jest.fn().mockResolvedValue({
+        data: {
+          value: {
+            text: 'Test post',
+            embed: {
+              $type: 'app.bsky.embed.images',
+              images: [
+                { alt: '', image: { $type: 'blob', ref: { $link: 'blob-1' }, mimeType: 'image/jpeg', size: 1000 } },
+                { alt: '', image: { $type: 'blob', ref: { $link: 'blob-2' }, mimeType: 'image/jpeg', size: 1000 } },
+              ]
+            }
+          }
+        }
+      });
+      deleteRecord = jest.fn().mockResolvedValue({});
+      mockAgent.com = { atproto: { repo: { getRecord, deleteRecord } } };
+    });
+
+    test('should delete the record and return its blobs', async () => {
+      const deletedPost = await client.deletePost(uri);
+
+      const recordKey = { repo: 'did:plc:test', collection: 'app.bsky.feed.post', rkey: '123' };
+      expect(getRecord).toHaveBeenCalledWith(recordKey);
+      expect(deleteRecord).toHaveBeenCalledWith(recordKey);
+      expect(deletedPost).toEqual({ uri, blobs: ['blob-1', 'blob-2'] });
+    });
+
+    test('should return null when the post was already deleted', async () => {
+      getRecord.mockRejectedValueOnce(Object.assign(new Error('Could not locate record'), { error: 'RecordNotFound' }));
+
+      const deletedPost = await client.deletePost(uri);
+
+      expect(deletedPost).toBeNull();
+      expect(deleteRecord).not.toHaveBeenCalled();
+    });
+
+    test('should throw other errors', async () => {
+      getRecord.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(client.deletePost(uri)).rejects.toThrow('Network error');
+      expect(deleteRecord).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('findBlobCids', () => {
+  test('should find blobs nested in a video embed', () => {
+    const record = {
+      embed: {
+        $type: 'app.bsky.embed.video',
+        video: { $type: 'blob', ref: { $link: 'video-blob' }, mimeType: 'video/mp4', size: 1000 },
+      }
+    };
+
+    expect(findBlobCids(record)).toEqual(['video-blob']);
+  });
+
+  test('should return no blobs for a text post', () => {
+    expect(findBlobCids({ text: 'Text only', createdAt: '2024-01-01T00:00:00.000Z' })).toEqual([]);
+  });
+});
+
+describe('getPostUrl', () => {
+  test('should link to the post by the DID of its AT-URI', () => {
+    expect(getPostUrl('at://did:plc:abc123/app.bsky.feed.post/3kxyz')).toBe(
+      'https://bsky.app/profile/did:plc:abc123/post/3kxyz'
+    );
   });
-}); 
\ No newline at end of file
+});
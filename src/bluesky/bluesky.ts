@@ -1,29 +1,137 @@
+import { randomUUID } from "crypto";
+
 import {
+  AppBskyFeedPost,
   AtpAgent,
+  AtUri,
   RichText,
   BlobRef
 } from "@atproto/api";
+import { TID } from "@atproto/common-web";
 
+import { DEFAULT_SERVICE_URL, resolvePdsUrl } from "./identity";
+import { CREATE_RECORD_POINTS, DELETE_RECORD_POINTS, RateLimiter } from "./rateLimit";
+import { DEFAULT_RETRY_POLICY, isRetryableError, RetryPolicy, withRetry } from "./retry";
 import {
+  CreatedPost,
+  DeletedPost,
   EmbeddedMedia,
+  ExistingPost,
   PostRecordImpl
 } from "./types";
+import {
+  HttpVideoUploadTransport,
+  JOB_STATE_COMPLETED,
+  JOB_STATE_FAILED,
+  JobStatus,
+  VIDEO_SERVICE_DID,
+  VideoUploadTransport
+} from "./videoUpload";
 import { logger } from "../logger/logger";
 
+const POST_COLLECTION = "app.bsky.feed.post";
+const LIST_RECORDS_PAGE_SIZE = 100;
+const WEB_APP_URL = "https://bsky.app";
+const DEFAULT_VIDEO_POLL_INTERVAL = 1500;
+const VIDEO_PROCESSING_TIMEOUT = 10 * 60 * 1000;
+const VIDEO_UPLOAD_TOKEN_EXPIRY = 30 * 60;
+const VIDEO_FILE_EXTENSIONS: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+};
+
+/**
+ * Builds the web link of a post from its AT-URI, the DID works for every PDS unlike the handle.
+ * @param uri AT-URI of the post record.
+ */
+export function getPostUrl(uri: string): string {
+  const { host, rkey } = new AtUri(uri);
+  return `${WEB_APP_URL}/profile/${host}/post/${rkey}`;
+}
+
+/**
+ * Collects the CIDs of every blob referenced anywhere in a record.
+ * @param value record value as returned by the repo.
+ */
+export function findBlobCids(value: unknown): string[] {
+  if (value instanceof BlobRef) {
+    return [value.ref.toString()];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(findBlobCids);
+  }
+  if (typeof value === "object" && value !== null) {
+    const object = value as { $type?: string; ref?: { $link?: string } };
+    if (object.$type === "blob" && object.ref) {
+      return [object.ref.$link ?? `${object.ref}`];
+    }
+    return Object.values(value).flatMap(findBlobCids);
+  }
+  return [];
+}
+
+function isRecordNotFound(error: unknown): boolean {
+  return (error as { error?: string })?.error === "RecordNotFound";
+}
 
+export interface BlueskyClientOptions {
+  // PDS of the account, resolved from the username on login when undefined.
+  serviceUrl?: string;
+  // Throttles every request to the PDS.
+  rateLimiter?: RateLimiter;
+  // Retries of uploads and posts failing with a retryable error.
+  retryPolicy?: RetryPolicy;
+  // Requests of the video service, e.g. a stub in tests.
+  videoTransport?: VideoUploadTransport;
+  // Milliseconds between checks of a video processing job.
+  videoPollInterval?: number;
+}
 
 export class BlueskyClient {
-  private readonly agent: AtpAgent;
+  private agent: AtpAgent;
   private readonly username: string;
   private readonly password: string;
+  private readonly serviceUrl: string | undefined;
+  private readonly rateLimiter: RateLimiter;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly videoTransport: VideoUploadTransport;
+  private readonly videoPollInterval: number;
 
-  constructor(username: string, password: string) {
-    this.agent = new AtpAgent({ service: "https://bsky.social" });
+  /**
+   * @param username handle, DID or email of the account.
+   * @param password
+   * @param options
+   */
+  constructor(username: string, password: string, options: BlueskyClientOptions = {}) {
     this.username = username;
     this.password = password;
+    this.serviceUrl = options.serviceUrl;
+    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.videoTransport =
+      options.videoTransport ??
+      new HttpVideoUploadTransport(undefined, this.rateLimiter.wrapFetch());
+    this.videoPollInterval = options.videoPollInterval ?? DEFAULT_VIDEO_POLL_INTERVAL;
+    this.agent = this.createAgent(this.serviceUrl ?? DEFAULT_SERVICE_URL);
+  }
+
+  private createAgent(service: string): AtpAgent {
+    return new AtpAgent({ service, fetch: this.rateLimiter.wrapFetch() });
   }
 
   async login(): Promise<void> {
+    // Accounts on a self-hosted PDS can not log in through bsky.social.
+    if (!this.serviceUrl) {
+      const pdsUrl = await resolvePdsUrl(this.username);
+      if (pdsUrl) {
+        logger.debug(`Resolved PDS of ${this.username}: ${pdsUrl}`);
+        this.agent = this.createAgent(pdsUrl);
+      } else {
+        logger.debug(`Could not resolve PDS of ${this.username}, using ${DEFAULT_SERVICE_URL}`);
+      }
+    }
+
     logger.debug("Authenitcating with Bluesky atproto.");
     try {
       await this.agent.login({
@@ -49,9 +157,11 @@ export class BlueskyClient {
       const mediaType = mimeType.startsWith('video') ? 'video' : 'image';
       logger.debug(`Uploading ${mediaType}...`);
       
-      const response = await this.agent.uploadBlob(buffer, {
-        encoding: mimeType,
-      });
+      const response = await withRetry(
+        () => this.agent.uploadBlob(buffer, { encoding: mimeType }),
+        `${mediaType} upload`,
+        this.retryPolicy
+      );
 
       if (!response?.data?.blob) {
         throw new Error(`Failed to get ${mediaType} upload reference`);
@@ -64,41 +174,241 @@ export class BlueskyClient {
     }
   }
 
+  /**
+   * Uploads a video through the video service, which transcodes it before it can be embedded.
+   * Checks the daily upload limits first, then waits for the processing job to complete.
+   * @param buffer The video file buffer
+   * @param mimeType The MIME type of the video
+   * @returns the blob of the processed video.
+   * @throws when the limits are reached or the video could not be processed.
+   */
+  async uploadVideo(buffer: Buffer, mimeType: string = "video/mp4"): Promise<BlobRef> {
+    try {
+      const did = this.agent.session?.did ?? this.username;
+
+      const limitsToken = await this.getServiceAuthToken(
+        VIDEO_SERVICE_DID,
+        "app.bsky.video.getUploadLimits"
+      );
+      const limits = await withRetry(
+        () => this.videoTransport.getUploadLimits(limitsToken),
+        "video upload limits",
+        this.retryPolicy
+      );
+      if (!limits.canUpload) {
+        throw new Error(limits.message ?? limits.error ?? "Video uploads are not allowed for this account");
+      }
+      if (limits.remainingDailyBytes !== undefined && limits.remainingDailyBytes < buffer.length) {
+        throw new Error(
+          `Video of ${buffer.length} bytes exceeds the ${limits.remainingDailyBytes} bytes left to upload today`
+        );
+      }
+
+      // The video service stores the processed video on the PDS, authorized by this token.
+      const pdsUrl = this.agent.pdsUrl ?? this.agent.serviceUrl;
+      const uploadToken = await this.getServiceAuthToken(
+        `did:web:${pdsUrl.hostname}`,
+        "com.atproto.repo.uploadBlob",
+        Math.floor(Date.now() / 1000) + VIDEO_UPLOAD_TOKEN_EXPIRY
+      );
+      const name = `${randomUUID()}.${VIDEO_FILE_EXTENSIONS[mimeType] ?? "mp4"}`;
+
+      logger.debug("Uploading video...");
+      const job = await withRetry(
+        () => this.videoTransport.uploadVideo(uploadToken, did, name, buffer, mimeType),
+        "video upload",
+        this.retryPolicy
+      );
+
+      const status = await this.waitForVideoJob(job);
+      if (!status.blob) {
+        throw new Error("Failed to get video upload reference");
+      }
+      return status.blob;
+    } catch (error) {
+      logger.error(`Failed to upload video with mimeType: ${mimeType}:`, error);
+      throw error;
+    }
+  }
+
+  private async getServiceAuthToken(aud: string, lxm: string, exp?: number): Promise<string> {
+    const response = await withRetry(
+      () => this.agent.com.atproto.server.getServiceAuth({ aud, lxm, exp }),
+      "service authentication",
+      this.retryPolicy
+    );
+    return response.data.token;
+  }
+
+  /**
+   * Polls the processing job until it completes or fails.
+   * @param job status returned by the upload.
+   */
+  private async waitForVideoJob(job: JobStatus): Promise<JobStatus> {
+    const deadline = Date.now() + VIDEO_PROCESSING_TIMEOUT;
+    let status = job;
+
+    while (status.state !== JOB_STATE_COMPLETED || !status.blob) {
+      if (status.state === JOB_STATE_FAILED) {
+        throw new Error(`Video processing failed: ${status.error ?? status.message ?? "Unknown error"}`);
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Video processing did not complete in time, job ${job.jobId}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.videoPollInterval));
+      status = await withRetry(
+        () => this.videoTransport.getJobStatus(job.jobId),
+        "video job status",
+        this.retryPolicy
+      );
+      logger.debug(`Video job ${job.jobId}: ${status.state} ${status.progress ?? 0}%`);
+    }
+    return status;
+  }
+
   /**
    * Creates a post on Bluesky.
    * @param postDate 
    * @param postText 
-   * @param embeddedMedia 
-   * @returns 
+   * @param embeddedMedia undefined for a text-only post.
+   * @param reply root and parent posts when the post is a reply in a thread.
+   * @returns the created record reference.
+   * @throws the error of the last attempt when the post could not be created.
    */
   async createPost(
     postDate: Date,
     postText: string,
-    embeddedMedia: EmbeddedMedia
-  ): Promise<string | null> {
+    embeddedMedia: EmbeddedMedia | undefined,
+    reply?: AppBskyFeedPost.ReplyRef
+  ): Promise<CreatedPost> {
     try {
       const rt = new RichText({ text: postText });
       await rt.detectFacets(this.agent);
 
+      await this.rateLimiter.reserve(CREATE_RECORD_POINTS);
+
       // create blsky post record.
       const postRecord = new PostRecordImpl(
         rt.text,
         postDate.toISOString(),
         rt.facets!,
-        embeddedMedia
+        embeddedMedia,
+        reply
       );
 
-      const recordData = await this.agent.post(postRecord);
-      const i = recordData.uri.lastIndexOf("/");
-      if (i > 0) {
-        const rkey = recordData.uri.substring(i + 1);
-        return `https://bsky.app/profile/${this.username}/post/${rkey}`;
-      }
-      logger.warn(recordData);
-      return null;
+      // The record key is chosen once, a retry after an attempt whose response was lost
+      // finds the post already created instead of creating it twice.
+      const repo = this.agent.session?.did ?? this.username;
+      const rkey = TID.nextStr();
+      let attempt = 0;
+      const recordData = await withRetry(
+        async () => {
+          const existing = attempt++ > 0 ? await this.getPostRecord(repo, rkey) : undefined;
+          if (existing) {
+            return existing;
+          }
+          const response = await this.agent.com.atproto.repo.createRecord({
+            repo,
+            collection: POST_COLLECTION,
+            rkey,
+            record: postRecord,
+          });
+          return response.data;
+        },
+        "post creation",
+        this.retryPolicy
+      );
+      return {
+        uri: recordData.uri,
+        cid: recordData.cid,
+        url: getPostUrl(recordData.uri),
+      };
     } catch (error) {
       logger.error(`Failed to create post: ${error}`);
-      return null;
+      throw error;
     }
   }
+
+  /**
+   * Reads a post record of the repo.
+   * @param repo
+   * @param rkey record key of the post.
+   * @returns the record reference, undefined when the post does not exist.
+   */
+  private async getPostRecord(repo: string, rkey: string): Promise<{ uri: string; cid: string } | undefined> {
+    try {
+      const response = await this.agent.com.atproto.repo.getRecord({ repo, collection: POST_COLLECTION, rkey });
+      return response.data.cid ? { uri: response.data.uri, cid: response.data.cid } : undefined;
+    } catch (error) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists every post record in the authenticated account's repo, paging through the whole collection.
+   * @returns posts with their text and creation date.
+   */
+  async listPosts(): Promise<ExistingPost[]> {
+    const repo = this.agent.session?.did ?? this.username;
+    const posts: ExistingPost[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const response = await this.agent.com.atproto.repo.listRecords({
+        repo,
+        collection: POST_COLLECTION,
+        limit: LIST_RECORDS_PAGE_SIZE,
+        cursor,
+      });
+
+      for (const record of response.data.records) {
+        const value = record.value as { text?: string; createdAt?: string };
+        posts.push({
+          uri: record.uri,
+          cid: record.cid,
+          text: value.text ?? "",
+          createdAt: value.createdAt ?? "",
+        });
+      }
+
+      cursor =
+        response.data.records.length > 0 ? response.data.cursor : undefined;
+    } while (cursor);
+
+    logger.debug(`Found ${posts.length} existing posts in ${repo}`);
+    return posts;
+  }
+
+  /**
+   * Deletes a post created by a previous import.
+   * @param uri AT-URI of the post record.
+   * @returns the deleted post with its blobs, or null if the post no longer exists.
+   */
+  async deletePost(uri: string): Promise<DeletedPost | null> {
+    const { host: repo, collection, rkey } = new AtUri(uri);
+
+    let record: unknown;
+    try {
+      const response = await this.agent.com.atproto.repo.getRecord({
+        repo,
+        collection,
+        rkey,
+      });
+      record = response.data.value;
+    } catch (error) {
+      if (isRecordNotFound(error)) {
+        logger.debug(`Post already deleted: ${uri}`);
+        return null;
+      }
+      throw error;
+    }
+
+    await this.rateLimiter.reserve(DELETE_RECORD_POINTS);
+    await this.agent.com.atproto.repo.deleteRecord({ repo, collection, rkey });
+    return { uri, blobs: findBlobCids(record) };
+  }
 }
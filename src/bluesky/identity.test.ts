@@ -0,0 +1,112 @@
+import { resolveTxt } from 'dns/promises';
+
+import { getPdsEndpoint, resolveDid, resolveHandle, resolvePdsUrl } from './identity';
+
+jest.mock('dns/promises', () => ({
+  resolveTxt: jest.fn()
+}));
+jest.mock('../logger/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('identity', () => {
+  const didDocument = {
+    id: 'did:plc:abc123',
+    service: [
+      { id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: 'https://pds.example.com' }
+    ]
+  };
+  const mockFetch = jest.fn();
+
+  const response = (body: string | object, ok = true) => ({
+    ok,
+    text: () => Promise.resolve(typeof body === 'string' ? body : JSON.stringify(body)),
+    json: () => Promise.resolve(body)
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch;
+    (resolveTxt as jest.Mock).mockRejectedValue(new Error('ENOTFOUND'));
+    mockFetch.mockRejectedValue(new Error('fetch failed'));
+  });
+
+  describe('resolveHandle', () => {
+    test('should resolve the handle with the DNS TXT record', async () => {
+      (resolveTxt as jest.Mock).mockResolvedValueOnce([['did=did:plc:abc123']]);
+
+      expect(await resolveHandle('alice.example.com')).toBe('did:plc:abc123');
+      expect(resolveTxt).toHaveBeenCalledWith('_atproto.alice.example.com');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    test('should fall back to the well-known file', async () => {
+      mockFetch.mockResolvedValueOnce(response('did:plc:abc123\n'));
+
+      expect(await resolveHandle('alice.example.com')).toBe('did:plc:abc123');
+      expect(mockFetch).toHaveBeenCalledWith('https://alice.example.com/.well-known/atproto-did');
+    });
+
+    test('should return undefined when the handle does not resolve', async () => {
+      expect(await resolveHandle('unknown.example.com')).toBeUndefined();
+    });
+  });
+
+  describe('resolveDid', () => {
+    test('should fetch a did:plc document from the PLC directory', async () => {
+      mockFetch.mockResolvedValueOnce(response(didDocument));
+
+      expect(await resolveDid('did:plc:abc123')).toEqual(didDocument);
+      expect(mockFetch).toHaveBeenCalledWith('https://plc.directory/did:plc:abc123');
+    });
+
+    test('should fetch a did:web document from its host', async () => {
+      mockFetch.mockResolvedValueOnce(response(didDocument));
+
+      await resolveDid('did:web:example.com');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://example.com/.well-known/did.json');
+    });
+
+    test('should return undefined for an unsupported DID method', async () => {
+      expect(await resolveDid('did:key:abc')).toBeUndefined();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPdsEndpoint', () => {
+    test('should return the endpoint of the atproto_pds service', () => {
+      expect(getPdsEndpoint(didDocument)).toBe('https://pds.example.com');
+    });
+
+    test('should return undefined without a PDS service', () => {
+      expect(getPdsEndpoint({ id: 'did:plc:abc123', service: [] })).toBeUndefined();
+    });
+  });
+
+  describe('resolvePdsUrl', () => {
+    test('should follow the handle to the PDS', async () => {
+      (resolveTxt as jest.Mock).mockResolvedValueOnce([['did=did:plc:abc123']]);
+      mockFetch.mockResolvedValueOnce(response(didDocument));
+
+      expect(await resolvePdsUrl('@Alice.example.com')).toBe('https://pds.example.com');
+      expect(resolveTxt).toHaveBeenCalledWith('_atproto.alice.example.com');
+    });
+
+    test('should resolve a DID directly', async () => {
+      mockFetch.mockResolvedValueOnce(response(didDocument));
+
+      expect(await resolvePdsUrl('did:plc:abc123')).toBe('https://pds.example.com');
+      expect(resolveTxt).not.toHaveBeenCalled();
+    });
+
+    test('should return undefined when the account can not be resolved', async () => {
+      expect(await resolvePdsUrl('alice@example.com')).toBeUndefined();
+    });
+  });
+});
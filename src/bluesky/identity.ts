@@ -0,0 +1,100 @@
+import { resolveTxt } from "dns/promises";
+
+import { logger } from "../logger/logger";
+
+export const DEFAULT_SERVICE_URL = "https://bsky.social";
+const PLC_DIRECTORY_URL = "https://plc.directory";
+const HANDLE_DNS_PREFIX = "_atproto.";
+const HANDLE_DID_PREFIX = "did=";
+
+/**
+ * Subset of a DID document needed to find the PDS of an account.
+ * @link https://atproto.com/specs/did#did-documents
+ */
+interface DidDocument {
+  id: string;
+  service?: { id: string; type: string; serviceEndpoint: string }[];
+}
+
+/**
+ * Resolves a handle to its DID with the DNS TXT record, then the HTTPS well-known file.
+ * @link https://atproto.com/specs/handle#handle-resolution
+ * @param handle e.g. alice.example.com
+ * @returns the DID, or undefined if the handle does not resolve.
+ */
+export async function resolveHandle(handle: string): Promise<string | undefined> {
+  try {
+    const records = await resolveTxt(`${HANDLE_DNS_PREFIX}${handle}`);
+    const record = records
+      .map((chunks) => chunks.join(""))
+      .find((value) => value.startsWith(HANDLE_DID_PREFIX));
+    if (record) {
+      return record.substring(HANDLE_DID_PREFIX.length);
+    }
+  } catch (error) {
+    logger.debug(`No DNS handle record for ${handle}: ${(error as Error)?.message}`);
+  }
+
+  try {
+    const response = await fetch(`https://${handle}/.well-known/atproto-did`);
+    const did = (await response.text()).trim();
+    if (response.ok && did.startsWith("did:")) {
+      return did;
+    }
+  } catch (error) {
+    logger.debug(`No well-known handle file for ${handle}: ${(error as Error)?.message}`);
+  }
+  return undefined;
+}
+
+/**
+ * Fetches the DID document of a did:plc from the PLC directory, or of a did:web from its host.
+ * @param did
+ */
+export async function resolveDid(did: string): Promise<DidDocument | undefined> {
+  let documentUrl: string;
+  if (did.startsWith("did:plc:")) {
+    documentUrl = `${PLC_DIRECTORY_URL}/${did}`;
+  } else if (did.startsWith("did:web:")) {
+    documentUrl = `https://${decodeURIComponent(did.substring("did:web:".length))}/.well-known/did.json`;
+  } else {
+    logger.debug(`Unsupported DID method: ${did}`);
+    return undefined;
+  }
+
+  try {
+    const response = await fetch(documentUrl);
+    return response.ok ? ((await response.json()) as DidDocument) : undefined;
+  } catch (error) {
+    logger.debug(`Failed to fetch DID document ${documentUrl}: ${(error as Error)?.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Gets the endpoint of the #atproto_pds service of a DID document.
+ */
+export function getPdsEndpoint(document: DidDocument): string | undefined {
+  return document.service?.find(
+    ({ id, type }) =>
+      (id === "#atproto_pds" || id === `${document.id}#atproto_pds`) &&
+      type === "AtprotoPersonalDataServer"
+  )?.serviceEndpoint;
+}
+
+/**
+ * Finds the PDS hosting an account, following handle to DID to DID document.
+ * @param identifier handle or DID, an email login can not be resolved.
+ * @returns the PDS URL, or undefined if the account could not be resolved.
+ */
+export async function resolvePdsUrl(identifier: string): Promise<string | undefined> {
+  const did = identifier.startsWith("did:")
+    ? identifier
+    : await resolveHandle(identifier.replace(/^@/, "").toLowerCase());
+  if (!did) {
+    return undefined;
+  }
+
+  const document = await resolveDid(did);
+  return document ? getPdsEndpoint(document) : undefined;
+}
@@ -1,2 +1,6 @@
 export * from './types/index';
-export * from './bluesky';
\ No newline at end of file
+export * from './bluesky';
+export * from './identity';
+export * from './rateLimit';
+export * from './retry';
+export * from './videoUpload';
\ No newline at end of file
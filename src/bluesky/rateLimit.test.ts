@@ -0,0 +1,130 @@
+import { estimateDuration, RateLimiter } from './rateLimit';
+
+jest.mock('../logger/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('RateLimiter', () => {
+  let now: number;
+  let sleep: jest.Mock;
+  let limiter: RateLimiter;
+
+  const response = (status: number, headers: Record<string, string> = {}) =>
+    new Response(null, { status, headers });
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    sleep = jest.fn().mockImplementation((milliseconds: number) => {
+      now += milliseconds;
+      return Promise.resolve();
+    });
+    limiter = new RateLimiter(
+      [
+        { points: 9, window: 60_000 },
+        { points: 15, window: 600_000 }
+      ],
+      () => now,
+      sleep
+    );
+  });
+
+  test('should not wait while the budget lasts', async () => {
+    await limiter.reserve(3);
+    await limiter.reserve(3);
+    await limiter.reserve(3);
+
+    expect(sleep).not.toHaveBeenCalled();
+    expect(limiter.getWaitTime(3)).toBe(60_000);
+  });
+
+  test('should wait for the oldest points to leave the window', async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.reserve(3);
+      now += 10_000;
+    }
+
+    await limiter.reserve(3);
+
+    expect(sleep).toHaveBeenCalledWith(30_000);
+  });
+
+  test('should wait for the longer budget once the shorter one resets', async () => {
+    for (let i = 0; i < 5; i++) {
+      await limiter.reserve(3);
+    }
+
+    expect(sleep).toHaveBeenCalledWith(60_000);
+    expect(limiter.getWaitTime(3)).toBe(540_000);
+  });
+
+  test('should wait until the reset when no requests remain', () => {
+    limiter.update(response(200, { 'ratelimit-remaining': '0', 'ratelimit-reset': `${(now + 5_000) / 1000}` }));
+
+    expect(limiter.getWaitTime()).toBe(5_000);
+  });
+
+  test('should not wait while requests remain', () => {
+    limiter.update(response(200, { 'ratelimit-remaining': '10', 'ratelimit-reset': `${(now + 5_000) / 1000}` }));
+
+    expect(limiter.getWaitTime()).toBe(0);
+  });
+
+  test('should back off when rate limited without a reset', () => {
+    limiter.update(response(429), 2);
+
+    expect(limiter.getWaitTime()).toBe(4_000);
+  });
+
+  test('should honor retry-after when rate limited', () => {
+    limiter.update(response(429, { 'retry-after': '7' }));
+
+    expect(limiter.getWaitTime()).toBe(7_000);
+  });
+
+  test('should retry requests rate limited by the server', async () => {
+    const fetch = jest.fn()
+      .mockResolvedValueOnce(response(429, { 'ratelimit-reset': `${(now + 2_000) / 1000}` }))
+      .mockResolvedValueOnce(response(200));
+
+    const result = await limiter.wrapFetch(fetch)('https://pds.example.com/xrpc/test');
+
+    expect(result.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(sleep).toHaveBeenCalledWith(2_000);
+  });
+
+  test('should give up after repeated rate limiting', async () => {
+    const fetch = jest.fn().mockImplementation(() => Promise.resolve(response(429)));
+
+    const result = await limiter.wrapFetch(fetch)('https://pds.example.com/xrpc/test');
+
+    expect(result.status).toBe(429);
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  test('should cancel the body of a rate limited response before retrying', async () => {
+    const rateLimited = new Response('Rate Limit Exceeded', { status: 429, headers: { 'retry-after': '1' } });
+    const cancel = jest.spyOn(rateLimited.body!, 'cancel');
+    const fetch = jest.fn().mockResolvedValueOnce(rateLimited).mockResolvedValueOnce(response(200));
+
+    await limiter.wrapFetch(fetch)('https://pds.example.com/xrpc/test');
+
+    expect(cancel).toHaveBeenCalled();
+  });
+});
+
+describe('estimateDuration', () => {
+  test('should only count the requests within the hourly budget', () => {
+    expect(estimateDuration(3000, 2000)).toBe(2_000_000);
+  });
+
+  test('should add the hourly waits once the budget is spent', () => {
+    // 10000 points wait an hour, the requests of the last 5000 points run after it
+    expect(estimateDuration(10000, 100)).toBe(3_600_000 + 50_000);
+  });
+});
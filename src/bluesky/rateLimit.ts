@@ -0,0 +1,178 @@
+import { logger } from "../logger/logger";
+
+/**
+ * Points spent by each write, the PDS limits the points spent per account.
+ * @link https://docs.bsky.app/docs/advanced-guides/rate-limits
+ */
+export const CREATE_RECORD_POINTS = 3;
+export const DELETE_RECORD_POINTS = 1;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const HOURLY_POINTS = 5000;
+const DAILY_POINTS = 35000;
+
+// Average time of a request, media uploads included, used to estimate the import time.
+const AVERAGE_REQUEST_DURATION = 1000;
+const TOO_MANY_REQUESTS = 429;
+const MAX_RATE_LIMITED_RETRIES = 5;
+const RATE_LIMITED_BACKOFF = 1000;
+
+/**
+ * Maximum points that can be spent in a sliding window.
+ */
+export interface PointsBudget {
+  points: number;
+  window: number;
+}
+
+export const DEFAULT_BUDGETS: PointsBudget[] = [
+  { points: HOURLY_POINTS, window: HOUR },
+  { points: DAILY_POINTS, window: DAY },
+];
+
+function formatWait(milliseconds: number): string {
+  const seconds = Math.ceil(milliseconds / 1000);
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} minutes` : `${seconds} seconds`;
+}
+
+/**
+ * Reads the reset time of a ratelimit-reset header, epoch seconds or seconds from now.
+ */
+function parseReset(value: string | null, now: number): number | undefined {
+  const seconds = Number(value);
+  if (!value || !Number.isFinite(seconds)) {
+    return undefined;
+  }
+  return seconds > 1e9 ? seconds * 1000 : now + seconds * 1000;
+}
+
+/**
+ * Throttles requests to stay within the rate limits of the PDS.
+ *
+ * Writes spend points from the hourly and daily budget, tracked here so a long import waits
+ * instead of failing halfway. Every response updates the limiter from its ratelimit headers,
+ * requests wait when none remain and are retried when the server answers 429.
+ */
+export class RateLimiter {
+  private readonly spentPoints: { time: number; points: number }[] = [];
+  private blockedUntil = 0;
+
+  constructor(
+    private readonly budgets: PointsBudget[] = DEFAULT_BUDGETS,
+    private readonly now: () => number = Date.now,
+    private readonly sleep: (milliseconds: number) => Promise<void> = (milliseconds) =>
+      new Promise((resolve) => setTimeout(resolve, milliseconds))
+  ) {}
+
+  /**
+   * Time to wait before the points can be spent without exceeding a budget or the server limit.
+   * @param points
+   */
+  getWaitTime(points: number = 0): number {
+    const now = this.now();
+    let waitTime = Math.max(0, this.blockedUntil - now);
+
+    for (const budget of this.budgets) {
+      const inWindow = this.spentPoints.filter(({ time }) => time > now - budget.window);
+      let used = inWindow.reduce((sum, spent) => sum + spent.points, 0);
+
+      // Wait until enough of the oldest spent points leave the window.
+      for (const spent of inWindow) {
+        if (used + points <= budget.points) {
+          break;
+        }
+        used -= spent.points;
+        waitTime = Math.max(waitTime, spent.time + budget.window - now);
+      }
+    }
+    return waitTime;
+  }
+
+  /**
+   * Waits until the points are available and spends them.
+   * @param points points of the write about to be made.
+   */
+  async reserve(points: number): Promise<void> {
+    await this.waitUntilAllowed(points);
+
+    const now = this.now();
+    const longestWindow = Math.max(...this.budgets.map(({ window }) => window));
+    while (this.spentPoints.length > 0 && this.spentPoints[0].time <= now - longestWindow) {
+      this.spentPoints.shift();
+    }
+    this.spentPoints.push({ time: now, points });
+  }
+
+  /**
+   * Updates the limiter from the ratelimit headers of a response.
+   * @param response
+   * @param attempt number of times the request was already rate limited, for the backoff.
+   */
+  update(response: Response, attempt: number = 0): void {
+    const now = this.now();
+    const remaining = Number(response.headers.get("ratelimit-remaining"));
+    const reset = parseReset(response.headers.get("ratelimit-reset"), now);
+
+    if (response.status === TOO_MANY_REQUESTS) {
+      const retryAfter = parseReset(response.headers.get("retry-after"), now);
+      const resumeAt =
+        reset && reset > now ? reset : retryAfter ?? now + RATE_LIMITED_BACKOFF * 2 ** attempt;
+      this.blockedUntil = Math.max(this.blockedUntil, resumeAt);
+    } else if (response.headers.has("ratelimit-remaining") && remaining <= 0 && reset) {
+      this.blockedUntil = Math.max(this.blockedUntil, reset);
+    }
+  }
+
+  /**
+   * Wraps fetch so every request waits for the rate limit and is retried when rate limited.
+   * Rate limiting is only retried here, withRetry does not retry it again.
+   * @param fetchFunction
+   */
+  wrapFetch(fetchFunction: typeof globalThis.fetch = globalThis.fetch): typeof globalThis.fetch {
+    return async (input, init) => {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitUntilAllowed();
+        const response = await fetchFunction(input, init);
+        this.update(response, attempt);
+
+        if (response.status !== TOO_MANY_REQUESTS || attempt >= MAX_RATE_LIMITED_RETRIES) {
+          return response;
+        }
+        logger.warn(`Rate limited by the server, retry ${attempt + 1} of ${MAX_RATE_LIMITED_RETRIES}`);
+        // The connection is only released once the body of the discarded response is read or cancelled.
+        await response.body?.cancel();
+      }
+    };
+  }
+
+  private async waitUntilAllowed(points: number = 0): Promise<void> {
+    for (let waitTime = this.getWaitTime(points); waitTime > 0; waitTime = this.getWaitTime(points)) {
+      logger.info(`Rate limit reached, waiting ${formatWait(waitTime)}`);
+      await this.sleep(waitTime);
+    }
+  }
+}
+
+/**
+ * Estimates how long the requests take when the points budget is the bottleneck,
+ * waiting for the hourly and daily budget once it is spent.
+ * @param points points spent by all writes.
+ * @param requests number of requests, uploads included.
+ * @returns the estimated duration in milliseconds.
+ */
+export function estimateDuration(points: number, requests: number): number {
+  const requestTime = requests * AVERAGE_REQUEST_DURATION;
+  if (points <= 0) {
+    return requestTime;
+  }
+
+  const days = Math.floor((points - 1) / DAILY_POINTS);
+  const pointsLastDay = points - days * DAILY_POINTS;
+  const hours = Math.floor((pointsLastDay - 1) / HOURLY_POINTS);
+  const pointsLastHour = pointsLastDay - hours * HOURLY_POINTS;
+
+  // Requests run while waiting for the budget, only those after the last wait add to it.
+  const waitTime = days * DAY + hours * HOUR;
+  return Math.max(requestTime, waitTime + (requestTime * pointsLastHour) / points);
+}
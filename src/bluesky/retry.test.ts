@@ -0,0 +1,79 @@
+import { isRetryableError, withRetry } from './retry';
+
+jest.mock('../logger/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const xrpcError = (status: number, message = `Status ${status}`) =>
+  Object.assign(new Error(message), { status });
+
+describe('isRetryableError', () => {
+  test.each([500, 502, 503, 504, 408, 1])('should retry status %i', (status) => {
+    expect(isRetryableError(xrpcError(status))).toBe(true);
+  });
+
+  test.each([400, 401, 413, 415, 429, 2])('should not retry status %i', (status) => {
+    expect(isRetryableError(xrpcError(status))).toBe(false);
+  });
+
+  test('should retry timeouts', () => {
+    expect(isRetryableError(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toBe(true);
+  });
+
+  test('should retry network errors wrapped by fetch', () => {
+    const error = new TypeError('fetch failed', {
+      cause: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+    });
+
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  test('should not retry other errors', () => {
+    expect(isRetryableError(new Error('Invalid record'))).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  const sleep = jest.fn().mockResolvedValue(undefined);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should retry with exponential backoff until the request succeeds', async () => {
+    const request = jest.fn()
+      .mockRejectedValueOnce(xrpcError(503))
+      .mockRejectedValueOnce(xrpcError(502))
+      .mockResolvedValueOnce('created');
+
+    const result = await withRetry(request, 'post creation', { retries: 3, backoff: 100 }, sleep);
+
+    expect(result).toBe('created');
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+  });
+
+  test('should give up after the configured retries', async () => {
+    const request = jest.fn().mockRejectedValue(xrpcError(500, 'Internal Server Error'));
+
+    await expect(
+      withRetry(request, 'image upload', { retries: 2, backoff: 100 }, sleep)
+    ).rejects.toThrow('Internal Server Error');
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  test('should not retry a permanent error', async () => {
+    const request = jest.fn().mockRejectedValue(xrpcError(400, 'BlobTooLarge'));
+
+    await expect(
+      withRetry(request, 'image upload', { retries: 3, backoff: 100 }, sleep)
+    ).rejects.toThrow('BlobTooLarge');
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+});
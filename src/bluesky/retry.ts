@@ -0,0 +1,91 @@
+import { logger } from "../logger/logger";
+
+/**
+ * How often and how long to wait before retrying a failed request, the backoff doubles on each retry.
+ */
+export interface RetryPolicy {
+  retries: number;
+  backoff: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, backoff: 1000 };
+
+// xrpc uses status 1 when the request failed before any response, e.g. a network error.
+const UNKNOWN_STATUS = 1;
+const REQUEST_TIMEOUT = 408;
+const SERVER_ERROR = 500;
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Checks if a failed request may succeed when tried again: server errors, timeouts and network errors.
+ * Rejected requests like an invalid record or a blob too large fail the same way every time.
+ * A rate limited request was already retried by the rate limiter, following the ratelimit headers.
+ * @param error
+ */
+export function isRetryableError(error: unknown): boolean {
+  const { status, code, name, cause } = (error ?? {}) as {
+    status?: unknown;
+    code?: unknown;
+    name?: unknown;
+    cause?: unknown;
+  };
+
+  if (typeof status === "number") {
+    return (
+      status === UNKNOWN_STATUS ||
+      status === REQUEST_TIMEOUT ||
+      status >= SERVER_ERROR
+    );
+  }
+  if (name === "TimeoutError" || name === "AbortError") {
+    return true;
+  }
+  if (typeof code === "string" && NETWORK_ERROR_CODES.has(code)) {
+    return true;
+  }
+  // fetch reports network errors as a TypeError caused by the socket error.
+  return cause !== undefined && cause !== error && isRetryableError(cause);
+}
+
+/**
+ * Runs the request, retrying retryable errors with exponential backoff.
+ * @param request
+ * @param description what is requested, for the logs.
+ * @param policy
+ * @param sleep
+ * @returns the result of the first successful attempt.
+ * @throws the error of the last attempt, or the first permanent error.
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  description: string,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  sleep: (milliseconds: number) => Promise<void> = (milliseconds) =>
+    new Promise((resolve) => setTimeout(resolve, milliseconds))
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= policy.retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const backoff = policy.backoff * 2 ** attempt;
+      logger.warn(
+        `Retrying ${description} in ${backoff}ms (${attempt + 1}/${policy.retries}) after error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      await sleep(backoff);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Post record created in the Bluesky repo.
+ */
+export interface CreatedPost {
+  // AT-URI of the record, e.g. at://did:plc:abc/app.bsky.feed.post/3k...
+  uri: string;
+  cid: string;
+  // Link to the post on bsky.app.
+  url: string;
+}
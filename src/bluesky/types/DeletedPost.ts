@@ -0,0 +1,8 @@
+/**
+ * Post record deleted from the Bluesky repo.
+ */
+export interface DeletedPost {
+  uri: string;
+  // CIDs of the blobs (images, videos) the post referenced.
+  blobs: string[];
+}
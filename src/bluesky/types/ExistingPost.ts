@@ -0,0 +1,9 @@
+/**
+ * Post record already stored in the Bluesky repo.
+ */
+export interface ExistingPost {
+  uri: string;
+  cid: string;
+  text: string;
+  createdAt: string;
+}
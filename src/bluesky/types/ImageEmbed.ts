@@ -21,7 +21,7 @@ export class ImageEmbedImpl implements ImageEmbed {
     public alt: string,
     public image: BlobRef,
     public mimeType: string,
-    public aspectRatio: AppBskyEmbedDefs.AspectRatio
+    public aspectRatio?: AppBskyEmbedDefs.AspectRatio
   ) {}
 
   toJSON() {
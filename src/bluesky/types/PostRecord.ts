@@ -14,6 +14,7 @@ export class PostRecordImpl implements Partial<AppBskyFeedPost.Record> {
     public text: string,
     public createdAt: string,
     public facets: Facet[],
-    public embed: EmbeddedMedia
+    public embed: EmbeddedMedia | undefined,
+    public reply?: AppBskyFeedPost.ReplyRef
   ) {}
 } 
\ No newline at end of file
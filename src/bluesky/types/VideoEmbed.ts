@@ -26,7 +26,9 @@ export class VideoEmbedImpl implements VideoEmbed {
       $type: this.$type,
       alt: this.alt,
       mimeType: this.mimeType,
+      aspectRatio: this.aspectRatio,
       video: this.video,
+      captions: this.captions,
     };
   }
 } 
\ No newline at end of file
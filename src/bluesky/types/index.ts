@@ -2,4 +2,7 @@ export * from "./ImageEmbed";
 export * from "./VideoEmbed";
 export * from "./ImagesEmbed";
 export * from "./PostRecord";
-export * from "./EmbeddedMedia"; 
\ No newline at end of file
+export * from "./EmbeddedMedia";
+export * from "./CreatedPost";
+export * from "./ExistingPost";
+export * from "./DeletedPost";
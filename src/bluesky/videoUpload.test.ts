@@ -0,0 +1,86 @@
+import { BlobRef } from '@atproto/api';
+
+import { HttpVideoUploadTransport } from './videoUpload';
+
+describe('HttpVideoUploadTransport', () => {
+  const mockFetch = jest.fn();
+  const transport = new HttpVideoUploadTransport('https://video.example.com', mockFetch);
+
+  const response = (status: number, body: object) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should get the upload limits with the service token', async () => {
+    mockFetch.mockResolvedValueOnce(response(200, { canUpload: true, remainingDailyVideos: 24 }));
+
+    const limits = await transport.getUploadLimits('limits-token');
+
+    expect(limits).toEqual({ canUpload: true, remainingDailyVideos: 24 });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url.toString()).toBe('https://video.example.com/xrpc/app.bsky.video.getUploadLimits');
+    expect(init.headers).toEqual({ Authorization: 'Bearer limits-token' });
+  });
+
+  test('should upload the video for the account', async () => {
+    const video = Buffer.from('video');
+    mockFetch.mockResolvedValueOnce(response(200, { jobId: 'job-1', did: 'did:plc:test', state: 'JOB_STATE_CREATED' }));
+
+    const job = await transport.uploadVideo('upload-token', 'did:plc:test', 'video.mp4', video, 'video/mp4');
+
+    expect(job.jobId).toBe('job-1');
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url.toString()).toBe(
+      'https://video.example.com/xrpc/app.bsky.video.uploadVideo?did=did%3Aplc%3Atest&name=video.mp4'
+    );
+    expect(init).toEqual({
+      method: 'POST',
+      headers: { Authorization: 'Bearer upload-token', 'Content-Type': 'video/mp4' },
+      body: video
+    });
+  });
+
+  test('should return the existing job of a video uploaded before', async () => {
+    mockFetch.mockResolvedValueOnce(response(409, {
+      jobId: 'job-0',
+      did: 'did:plc:test',
+      state: 'JOB_STATE_COMPLETED',
+      error: 'already_exists'
+    }));
+
+    const job = await transport.uploadVideo('upload-token', 'did:plc:test', 'video.mp4', Buffer.from('video'), 'video/mp4');
+
+    expect(job.jobId).toBe('job-0');
+  });
+
+  test('should read the processed blob of a job', async () => {
+    const blob = {
+      $type: 'blob',
+      ref: { $link: 'bafkreie5737gdxlw5i64vzichcalba3z2v5n6icifvx5xytvske7mr3hpm' },
+      mimeType: 'video/mp4',
+      size: 1000
+    };
+    mockFetch.mockResolvedValueOnce(response(200, {
+      jobStatus: { jobId: 'job-1', did: 'did:plc:test', state: 'JOB_STATE_COMPLETED', blob }
+    }));
+
+    const job = await transport.getJobStatus('job-1');
+
+    expect(mockFetch.mock.calls[0][0].toString()).toBe(
+      'https://video.example.com/xrpc/app.bsky.video.getJobStatus?jobId=job-1'
+    );
+    expect(job.blob).toBeInstanceOf(BlobRef);
+    expect(job.blob?.ref.toString()).toBe(blob.ref.$link);
+  });
+
+  test('should throw an error with the response status', async () => {
+    mockFetch.mockResolvedValueOnce(response(503, { error: 'Unavailable', message: 'Service unavailable' }));
+
+    await expect(transport.getJobStatus('job-1')).rejects.toMatchObject({
+      message: 'Service unavailable',
+      status: 503
+    });
+  });
+});
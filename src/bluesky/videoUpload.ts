@@ -0,0 +1,126 @@
+import {
+  AppBskyVideoDefs,
+  AppBskyVideoGetUploadLimits,
+  jsonStringToLex
+} from "@atproto/api";
+
+export const VIDEO_SERVICE_URL = "https://video.bsky.app";
+export const VIDEO_SERVICE_DID = "did:web:video.bsky.app";
+
+export const JOB_STATE_COMPLETED = "JOB_STATE_COMPLETED";
+export const JOB_STATE_FAILED = "JOB_STATE_FAILED";
+
+export type JobStatus = AppBskyVideoDefs.JobStatus;
+export type UploadLimits = AppBskyVideoGetUploadLimits.OutputSchema;
+
+const CONFLICT = 409;
+
+/**
+ * Requests of the app.bsky.video service, injected into the client so tests can use a stub.
+ * @link https://docs.bsky.app/docs/tutorials/video
+ */
+export interface VideoUploadTransport {
+  /**
+   * @param token service auth token for app.bsky.video.getUploadLimits.
+   */
+  getUploadLimits(token: string): Promise<UploadLimits>;
+  /**
+   * Uploads the video for processing.
+   * @param token service auth token for com.atproto.repo.uploadBlob on the PDS.
+   * @param did account the video is uploaded for.
+   * @param name file name of the video.
+   * @param video
+   * @param mimeType
+   * @returns the status of the processing job.
+   */
+  uploadVideo(
+    token: string,
+    did: string,
+    name: string,
+    video: Buffer,
+    mimeType: string
+  ): Promise<JobStatus>;
+  getJobStatus(jobId: string): Promise<JobStatus>;
+}
+
+/**
+ * Calls the video service over HTTP, errors carry the response status so retries can tell
+ * a server error from a rejected video.
+ */
+export class HttpVideoUploadTransport implements VideoUploadTransport {
+  constructor(
+    private readonly serviceUrl: string = VIDEO_SERVICE_URL,
+    private readonly fetchFunction: typeof globalThis.fetch = globalThis.fetch
+  ) {}
+
+  async getUploadLimits(token: string): Promise<UploadLimits> {
+    const response = await this.request("app.bsky.video.getUploadLimits", {}, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    return (await this.parse(response)) as UploadLimits;
+  }
+
+  async uploadVideo(
+    token: string,
+    did: string,
+    name: string,
+    video: Buffer,
+    mimeType: string
+  ): Promise<JobStatus> {
+    const response = await this.request(
+      "app.bsky.video.uploadVideo",
+      { did, name },
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": mimeType,
+        },
+        body: video,
+      }
+    );
+
+    // A video uploaded before answers 409 with the job that already processed it.
+    const body = (await this.parse(response, CONFLICT)) as JobStatus & {
+      jobStatus?: JobStatus;
+    };
+    return body.jobStatus ?? body;
+  }
+
+  async getJobStatus(jobId: string): Promise<JobStatus> {
+    const response = await this.request("app.bsky.video.getJobStatus", { jobId });
+    return ((await this.parse(response)) as { jobStatus: JobStatus }).jobStatus;
+  }
+
+  private request(
+    method: string,
+    params: Record<string, string>,
+    init?: RequestInit
+  ): Promise<Response> {
+    const url = new URL(`/xrpc/${method}`, this.serviceUrl);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    return this.fetchFunction(url, init);
+  }
+
+  /**
+   * Reads the JSON body, blobs are returned as BlobRef.
+   * @param response
+   * @param acceptedStatus error status whose body is still a valid answer.
+   * @throws an error with the response status when the request failed.
+   */
+  private async parse(response: Response, acceptedStatus?: number): Promise<unknown> {
+    const text = await response.text();
+    const body = text ? jsonStringToLex(text) : {};
+
+    const { jobId, error, message } = body as { jobId?: string; error?: string; message?: string };
+    if (!response.ok && !(response.status === acceptedStatus && jobId)) {
+      throw Object.assign(
+        new Error(message ?? error ?? `Video service responded ${response.status}`),
+        { status: response.status, error }
+      );
+    }
+    return body;
+  }
+}
@@ -16,6 +16,24 @@ describe('AppConfig', () => {
     delete process.env.BLUESKY_USERNAME;
     delete process.env.BLUESKY_PASSWORD;
     delete process.env.ARCHIVE_FOLDER;
+    delete process.env.RESUME;
+    delete process.env.JOURNAL_FILE;
+    delete process.env.DETECT_DUPLICATES;
+    delete process.env.ROLLBACK_RUN_ID;
+    delete process.env.THREAD_SPLIT_POSTS;
+    delete process.env.BLUESKY_SERVICE_URL;
+    delete process.env.RETRY_COUNT;
+    delete process.env.RETRY_BACKOFF;
+    delete process.env.LOCATION_POLICY;
+    delete process.env.VIDEO_CACHE_FOLDER;
+    delete process.env.ALT_TEXT_FILE;
+    delete process.env.ALT_TEXT_GENERATOR_URL;
+    delete process.env.ALT_TEXT_GENERATOR_MODEL;
+    delete process.env.CAPTION_LANGUAGE;
+    delete process.env.IMPORT_STORIES;
+    delete process.env.STORIES_MIN_DATE;
+    delete process.env.STORIES_MAX_DATE;
+    delete process.env.STORIES_TEXT;
   });
 
   afterEach(() => {
@@ -163,6 +181,33 @@ describe('AppConfig', () => {
     });
   });
 
+  describe('validateRollback', () => {
+    test('should not require an archive folder', () => {
+      process.env.BLUESKY_USERNAME = 'test_user';
+      process.env.BLUESKY_PASSWORD = 'test_pass';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validateRollback()).not.toThrow();
+    });
+
+    test('should throw when not in simulate mode and Bluesky credentials are missing', () => {
+      const config = AppConfig.fromEnv();
+      expect(() => config.validateRollback()).toThrow('BLUESKY_USERNAME is required when not in simulate mode');
+    });
+  });
+
+  describe('getRollbackRunId', () => {
+    test('should return undefined when ROLLBACK_RUN_ID is not set', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getRollbackRunId()).toBeUndefined();
+    });
+
+    test('should return ROLLBACK_RUN_ID when set', () => {
+      process.env.ROLLBACK_RUN_ID = '2025-01-01T00:00:00.000Z';
+      const config = AppConfig.fromEnv();
+      expect(config.getRollbackRunId()).toBe('2025-01-01T00:00:00.000Z');
+    });
+  });
+
   describe('getArchiveFolder', () => {
     test('should return test_video folder when video mode enabled', () => {
       process.env.TEST_VIDEO_MODE = '1';
@@ -253,6 +298,241 @@ describe('AppConfig', () => {
     });
   });
 
+  describe('isResumeEnabled and getJournalFile', () => {
+    test('should disable resume mode and use the default journal file by default', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.isResumeEnabled()).toBe(false);
+      expect(config.getJournalFile()).toBe('import-journal.jsonl');
+    });
+
+    test('should return correct values when RESUME and JOURNAL_FILE are set', () => {
+      process.env.RESUME = '1';
+      process.env.JOURNAL_FILE = '/custom/journal.jsonl';
+      const config = AppConfig.fromEnv();
+      expect(config.isResumeEnabled()).toBe(true);
+      expect(config.getJournalFile()).toBe('/custom/journal.jsonl');
+    });
+  });
+
+  describe('isDetectDuplicatesEnabled', () => {
+    test('should return false when DETECT_DUPLICATES is not set', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.isDetectDuplicatesEnabled()).toBe(false);
+    });
+
+    test('should return true when DETECT_DUPLICATES=1', () => {
+      process.env.DETECT_DUPLICATES = '1';
+      const config = AppConfig.fromEnv();
+      expect(config.isDetectDuplicatesEnabled()).toBe(true);
+    });
+  });
+
+  describe('isThreadSplitPostsEnabled', () => {
+    test('should return false when THREAD_SPLIT_POSTS is not set', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.isThreadSplitPostsEnabled()).toBe(false);
+    });
+
+    test('should return true when THREAD_SPLIT_POSTS=1', () => {
+      process.env.THREAD_SPLIT_POSTS = '1';
+      const config = AppConfig.fromEnv();
+      expect(config.isThreadSplitPostsEnabled()).toBe(true);
+    });
+  });
+
+  describe('getRetryCount and getRetryBackoff', () => {
+    test('should retry 3 times starting at a second by default', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getRetryCount()).toBe(3);
+      expect(config.getRetryBackoff()).toBe(1000);
+    });
+
+    test('should return RETRY_COUNT and RETRY_BACKOFF when set', () => {
+      process.env.RETRY_COUNT = '0';
+      process.env.RETRY_BACKOFF = '250';
+      const config = AppConfig.fromEnv();
+      expect(config.getRetryCount()).toBe(0);
+      expect(config.getRetryBackoff()).toBe(250);
+    });
+
+    test('should throw when RETRY_COUNT is not a whole number', () => {
+      process.env.SIMULATE = '1';
+      process.env.ARCHIVE_FOLDER = '/test/folder';
+      process.env.RETRY_COUNT = 'many';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validate()).toThrow('RETRY_COUNT must be a whole number of 0 or more');
+    });
+
+    test('should throw when RETRY_BACKOFF is negative', () => {
+      process.env.SIMULATE = '1';
+      process.env.ARCHIVE_FOLDER = '/test/folder';
+      process.env.RETRY_BACKOFF = '-1';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validate()).toThrow('RETRY_BACKOFF must be a number of milliseconds of 0 or more');
+    });
+  });
+
+  describe('getLocationPolicy', () => {
+    test('should strip the location by default', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getLocationPolicy()).toBe('strip');
+    });
+
+    test('should return LOCATION_POLICY when set', () => {
+      process.env.LOCATION_POLICY = 'city';
+      const config = AppConfig.fromEnv();
+      expect(config.getLocationPolicy()).toBe('city');
+    });
+
+    test('should throw when LOCATION_POLICY is unknown', () => {
+      process.env.SIMULATE = '1';
+      process.env.ARCHIVE_FOLDER = '/test/folder';
+      process.env.LOCATION_POLICY = 'everywhere';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validate()).toThrow('LOCATION_POLICY must be one of strip, drop, city, exact: everywhere');
+    });
+  });
+
+  describe('getVideoCacheFolder', () => {
+    test('should default to video-cache', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getVideoCacheFolder()).toBe('video-cache');
+    });
+
+    test('should return VIDEO_CACHE_FOLDER when set', () => {
+      process.env.VIDEO_CACHE_FOLDER = '/tmp/transcodes';
+      const config = AppConfig.fromEnv();
+      expect(config.getVideoCacheFolder()).toBe('/tmp/transcodes');
+    });
+  });
+
+  describe('getAltTextFile', () => {
+    test('should return undefined when ALT_TEXT_FILE is not set', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getAltTextFile()).toBeUndefined();
+    });
+
+    test('should return ALT_TEXT_FILE when set', () => {
+      process.env.ALT_TEXT_FILE = 'alt-text.json';
+      const config = AppConfig.fromEnv();
+      expect(config.getAltTextFile()).toBe('alt-text.json');
+    });
+  });
+
+  describe('getAltTextGeneratorUrl', () => {
+    test('should return undefined when ALT_TEXT_GENERATOR_URL is not set', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getAltTextGeneratorUrl()).toBeUndefined();
+    });
+
+    test('should return ALT_TEXT_GENERATOR_URL when set', () => {
+      process.env.ALT_TEXT_GENERATOR_URL = 'http://localhost:11434';
+      const config = AppConfig.fromEnv();
+      expect(config.getAltTextGeneratorUrl()).toBe('http://localhost:11434');
+    });
+
+    test('should throw when ALT_TEXT_GENERATOR_URL is not a valid URL', () => {
+      process.env.BLUESKY_USERNAME = 'test_user';
+      process.env.BLUESKY_PASSWORD = 'test_pass';
+      process.env.ARCHIVE_FOLDER = '/test/folder';
+      process.env.ALT_TEXT_GENERATOR_URL = 'localhost';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validate()).toThrow('ALT_TEXT_GENERATOR_URL is not a valid URL: localhost');
+    });
+  });
+
+  describe('getAltTextGeneratorModel', () => {
+    test('should default to llava', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getAltTextGeneratorModel()).toBe('llava');
+    });
+
+    test('should return ALT_TEXT_GENERATOR_MODEL when set', () => {
+      process.env.ALT_TEXT_GENERATOR_MODEL = 'moondream';
+      const config = AppConfig.fromEnv();
+      expect(config.getAltTextGeneratorModel()).toBe('moondream');
+    });
+  });
+
+  describe('getCaptionLanguage', () => {
+    test('should default to English', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getCaptionLanguage()).toBe('en');
+    });
+
+    test('should return CAPTION_LANGUAGE when set', () => {
+      process.env.CAPTION_LANGUAGE = 'pt-BR';
+      const config = AppConfig.fromEnv();
+      expect(config.getCaptionLanguage()).toBe('pt-BR');
+    });
+
+    test('should throw when CAPTION_LANGUAGE is not a language tag', () => {
+      process.env.BLUESKY_USERNAME = 'test_user';
+      process.env.BLUESKY_PASSWORD = 'test_pass';
+      process.env.ARCHIVE_FOLDER = '/test/folder';
+      process.env.CAPTION_LANGUAGE = 'English';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validate()).toThrow('CAPTION_LANGUAGE must be a language tag, e.g. en or pt-BR: English');
+    });
+  });
+
+  describe('stories', () => {
+    test('should not import stories by default', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.isImportStoriesEnabled()).toBe(false);
+      expect(config.getStoriesMinDate()).toBeUndefined();
+      expect(config.getStoriesMaxDate()).toBeUndefined();
+      expect(config.getStoriesText()).toBe('Story from {date}');
+    });
+
+    test('should return the stories settings when set', () => {
+      process.env.IMPORT_STORIES = '1';
+      process.env.STORIES_MIN_DATE = '2021-01-01';
+      process.env.STORIES_MAX_DATE = '2022-01-01';
+      process.env.STORIES_TEXT = 'Stories of {date}';
+      const config = AppConfig.fromEnv();
+      expect(config.isImportStoriesEnabled()).toBe(true);
+      expect(config.getStoriesMinDate()).toEqual(new Date('2021-01-01'));
+      expect(config.getStoriesMaxDate()).toEqual(new Date('2022-01-01'));
+      expect(config.getStoriesText()).toBe('Stories of {date}');
+    });
+  });
+
+  describe('validateAltTextReview', () => {
+    test('should not require Bluesky credentials', () => {
+      process.env.ALT_TEXT_FILE = 'alt-text.csv';
+      process.env.ARCHIVE_FOLDER = '/test/folder';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validateAltTextReview()).not.toThrow();
+    });
+
+    test('should throw when ALT_TEXT_FILE is not set', () => {
+      process.env.ARCHIVE_FOLDER = '/test/folder';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validateAltTextReview()).toThrow('ALT_TEXT_FILE is required to review alt text');
+    });
+  });
+
+  describe('getBlueskyServiceUrl', () => {
+    test('should return undefined when BLUESKY_SERVICE_URL is not set', () => {
+      const config = AppConfig.fromEnv();
+      expect(config.getBlueskyServiceUrl()).toBeUndefined();
+    });
+
+    test('should return BLUESKY_SERVICE_URL when set', () => {
+      process.env.BLUESKY_SERVICE_URL = 'http://localhost:2583';
+      const config = AppConfig.fromEnv();
+      expect(config.getBlueskyServiceUrl()).toBe('http://localhost:2583');
+    });
+
+    test('should throw when BLUESKY_SERVICE_URL is not a valid URL', () => {
+      process.env.SIMULATE = '1';
+      process.env.BLUESKY_SERVICE_URL = 'pds.example.com';
+      const config = AppConfig.fromEnv();
+      expect(() => config.validateRollback()).toThrow('BLUESKY_SERVICE_URL is not a valid URL: pds.example.com');
+    });
+  });
+
   describe('getBlueskyUsername and getBlueskyPassword', () => {
     test('should return empty strings when credentials are not set', () => {
       const config = AppConfig.fromEnv();
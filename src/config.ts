@@ -2,6 +2,11 @@ import path from 'path';
 
 import * as dotenv from 'dotenv';
 
+import { DEFAULT_ALT_TEXT_MODEL } from './alt/generator';
+import { DEFAULT_LOCATION_POLICY, isLocationPolicy, LOCATION_POLICIES, LocationPolicy } from './image/location';
+import { DEFAULT_STORIES_TEXT } from './stories/stories';
+import { DEFAULT_CAPTION_LANGUAGE, isLanguageTag } from './video/captions';
+
 dotenv.config();
 
 /**
@@ -18,7 +23,25 @@ export class AppConfig {
   private readonly maxDate: Date | undefined;
   private readonly blueskyUsername: string;
   private readonly blueskyPassword: string;
+  private readonly blueskyServiceUrl: string | undefined;
   private readonly archiveFolder: string;
+  private readonly resume: boolean;
+  private readonly journalFile: string;
+  private readonly detectDuplicates: boolean;
+  private readonly rollbackRunId: string | undefined;
+  private readonly threadSplitPosts: boolean;
+  private readonly retryCount: number;
+  private readonly retryBackoff: number;
+  private readonly locationPolicy: LocationPolicy;
+  private readonly videoCacheFolder: string;
+  private readonly altTextFile: string | undefined;
+  private readonly altTextGeneratorUrl: string | undefined;
+  private readonly altTextGeneratorModel: string;
+  private readonly captionLanguage: string;
+  private readonly importStories: boolean;
+  private readonly storiesMinDate: Date | undefined;
+  private readonly storiesMaxDate: Date | undefined;
+  private readonly storiesText: string;
 
   constructor(config: {
     testVideoMode: boolean;
@@ -30,7 +53,25 @@ export class AppConfig {
     maxDate?: Date;
     blueskyUsername: string;
     blueskyPassword: string;
+    blueskyServiceUrl?: string;
     archiveFolder: string;
+    resume: boolean;
+    journalFile: string;
+    detectDuplicates: boolean;
+    rollbackRunId?: string;
+    threadSplitPosts: boolean;
+    retryCount: number;
+    retryBackoff: number;
+    locationPolicy?: LocationPolicy;
+    videoCacheFolder?: string;
+    altTextFile?: string;
+    altTextGeneratorUrl?: string;
+    altTextGeneratorModel?: string;
+    captionLanguage?: string;
+    importStories?: boolean;
+    storiesMinDate?: Date;
+    storiesMaxDate?: Date;
+    storiesText?: string;
   }) {
     this.testVideoMode = config.testVideoMode;
     this.testImageMode = config.testImageMode;
@@ -41,7 +82,25 @@ export class AppConfig {
     this.maxDate = config.maxDate;
     this.blueskyUsername = config.blueskyUsername;
     this.blueskyPassword = config.blueskyPassword;
+    this.blueskyServiceUrl = config.blueskyServiceUrl;
     this.archiveFolder = config.archiveFolder;
+    this.resume = config.resume;
+    this.journalFile = config.journalFile;
+    this.detectDuplicates = config.detectDuplicates;
+    this.rollbackRunId = config.rollbackRunId;
+    this.threadSplitPosts = config.threadSplitPosts;
+    this.retryCount = config.retryCount;
+    this.retryBackoff = config.retryBackoff;
+    this.locationPolicy = config.locationPolicy ?? DEFAULT_LOCATION_POLICY;
+    this.videoCacheFolder = config.videoCacheFolder ?? 'video-cache';
+    this.altTextFile = config.altTextFile;
+    this.altTextGeneratorUrl = config.altTextGeneratorUrl;
+    this.altTextGeneratorModel = config.altTextGeneratorModel ?? DEFAULT_ALT_TEXT_MODEL;
+    this.captionLanguage = config.captionLanguage ?? DEFAULT_CAPTION_LANGUAGE;
+    this.importStories = config.importStories ?? false;
+    this.storiesMinDate = config.storiesMinDate;
+    this.storiesMaxDate = config.storiesMaxDate;
+    this.storiesText = config.storiesText ?? DEFAULT_STORIES_TEXT;
   }
 
   /**
@@ -58,7 +117,25 @@ export class AppConfig {
       maxDate: process.env.MAX_DATE ? new Date(process.env.MAX_DATE) : undefined,
       blueskyUsername: process.env.BLUESKY_USERNAME ?? '',
       blueskyPassword: process.env.BLUESKY_PASSWORD ?? '',
-      archiveFolder: process.env.ARCHIVE_FOLDER ?? ''
+      blueskyServiceUrl: process.env.BLUESKY_SERVICE_URL || undefined,
+      archiveFolder: process.env.ARCHIVE_FOLDER ?? '',
+      resume: process.env.RESUME === '1',
+      journalFile: process.env.JOURNAL_FILE || 'import-journal.jsonl',
+      detectDuplicates: process.env.DETECT_DUPLICATES === '1',
+      rollbackRunId: process.env.ROLLBACK_RUN_ID || undefined,
+      threadSplitPosts: process.env.THREAD_SPLIT_POSTS === '1',
+      retryCount: Number(process.env.RETRY_COUNT || 3),
+      retryBackoff: Number(process.env.RETRY_BACKOFF || 1000),
+      locationPolicy: (process.env.LOCATION_POLICY || DEFAULT_LOCATION_POLICY) as LocationPolicy,
+      videoCacheFolder: process.env.VIDEO_CACHE_FOLDER || 'video-cache',
+      altTextFile: process.env.ALT_TEXT_FILE || undefined,
+      altTextGeneratorUrl: process.env.ALT_TEXT_GENERATOR_URL || undefined,
+      altTextGeneratorModel: process.env.ALT_TEXT_GENERATOR_MODEL || DEFAULT_ALT_TEXT_MODEL,
+      captionLanguage: process.env.CAPTION_LANGUAGE || DEFAULT_CAPTION_LANGUAGE,
+      importStories: process.env.IMPORT_STORIES === '1',
+      storiesMinDate: process.env.STORIES_MIN_DATE ? new Date(process.env.STORIES_MIN_DATE) : undefined,
+      storiesMaxDate: process.env.STORIES_MAX_DATE ? new Date(process.env.STORIES_MAX_DATE) : undefined,
+      storiesText: process.env.STORIES_TEXT || DEFAULT_STORIES_TEXT
     });
   }
 
@@ -76,6 +153,125 @@ export class AppConfig {
     return this.simulate;
   }
 
+  /**
+   * Checks if resume mode is enabled, skipping posts already in the journal
+   */
+  isResumeEnabled(): boolean {
+    return this.resume;
+  }
+
+  /**
+   * Gets the path of the journal recording every created post
+   */
+  getJournalFile(): string {
+    return this.journalFile;
+  }
+
+  /**
+   * Checks if posts already in the Bluesky account should be detected and skipped
+   */
+  isDetectDuplicatesEnabled(): boolean {
+    return this.detectDuplicates;
+  }
+
+  /**
+   * Gets the import run to roll back, undefined rolls back the latest run
+   */
+  getRollbackRunId(): string | undefined {
+    return this.rollbackRunId;
+  }
+
+  /**
+   * Checks if the parts of a split post are published as a reply thread
+   */
+  isThreadSplitPostsEnabled(): boolean {
+    return this.threadSplitPosts;
+  }
+
+  /**
+   * Gets how often a failed upload or post is retried
+   */
+  getRetryCount(): number {
+    return this.retryCount;
+  }
+
+  /**
+   * Gets the milliseconds to wait before the first retry, doubled on each retry
+   */
+  getRetryBackoff(): number {
+    return this.retryBackoff;
+  }
+
+  /**
+   * Gets what to share of the location where photos were taken
+   */
+  getLocationPolicy(): LocationPolicy {
+    return this.locationPolicy;
+  }
+
+  /**
+   * Gets the folder caching transcoded videos between runs
+   */
+  getVideoCacheFolder(): string {
+    return this.videoCacheFolder;
+  }
+
+  /**
+   * Gets the path of the JSON or CSV file of alt text by media URI, undefined when not set
+   */
+  getAltTextFile(): string | undefined {
+    return this.altTextFile;
+  }
+
+  /**
+   * Gets the server of the captioning model describing images without alt text, undefined when not set
+   */
+  getAltTextGeneratorUrl(): string | undefined {
+    return this.altTextGeneratorUrl;
+  }
+
+  /**
+   * Gets the captioning model describing images without alt text
+   */
+  getAltTextGeneratorModel(): string {
+    return this.altTextGeneratorModel;
+  }
+
+  /**
+   * Gets the language of video caption files without one in their name
+   */
+  getCaptionLanguage(): string {
+    return this.captionLanguage;
+  }
+
+  /**
+   * Checks if the stories of the archive are imported, as a post per day
+   */
+  isImportStoriesEnabled(): boolean {
+    return this.importStories;
+  }
+
+  /**
+   * Gets the minimum date for story filtering
+   */
+  getStoriesMinDate(): Date | undefined {
+    return this.storiesMinDate;
+  }
+
+  /**
+   * Gets the maximum date for story filtering
+   */
+  getStoriesMaxDate(): Date | undefined {
+    return this.storiesMaxDate;
+  }
+
+  /**
+   * Gets the text of the post of each day of stories, {date} being replaced by the day
+   */
+  getStoriesText(): string {
+    return this.storiesText;
+  }
+
   /**
    * Gets the minimum date for post filtering
    */
@@ -104,6 +300,13 @@ export class AppConfig {
     return this.blueskyPassword;
   }
 
+  /**
+   * Gets the PDS to log in to, undefined resolves the PDS from the username
+   */
+  getBlueskyServiceUrl(): string | undefined {
+    return this.blueskyServiceUrl;
+  }
+
   /**
    * Gets the archive folder path based on test configuration
    */
@@ -118,10 +321,44 @@ export class AppConfig {
   }
 
   /**
-   * Validates that only one test mode is enabled at a time
-   * @throws Error if multiple test modes are enabled
+   * Validates the configuration needed to import the archive
+   * @throws Error if multiple test modes are enabled, or a setting is missing or invalid
    */
   validate(): void {
+    this.validateArchive();
+    this.validateCredentials();
+
+    if (!Number.isInteger(this.retryCount) || this.retryCount < 0) {
+      throw new Error('RETRY_COUNT must be a whole number of 0 or more');
+    }
+    if (!Number.isFinite(this.retryBackoff) || this.retryBackoff < 0) {
+      throw new Error('RETRY_BACKOFF must be a number of milliseconds of 0 or more');
+    }
+  }
+
+  /**
+   * Validates the configuration needed to review alt text, nothing is posted so no credentials are needed.
+   * @throws Error if the alt text file is not set, or the archive settings are invalid
+   */
+  validateAltTextReview(): void {
+    if (!this.altTextFile) {
+      throw new Error('ALT_TEXT_FILE is required to review alt text');
+    }
+    this.validateArchive();
+  }
+
+  /**
+   * Validates the configuration needed to roll back an import, the archive is not used.
+   * @throws Error if Bluesky credentials are missing
+   */
+  validateRollback(): void {
+    this.validateCredentials();
+  }
+
+  /**
+   * Validates the settings reading and processing the archive
+   */
+  private validateArchive(): void {
     const enabledModes = Object.entries({
       testVideoMode: this.testVideoMode,
       testImageMode: this.testImageMode,
@@ -137,7 +374,30 @@ export class AppConfig {
       );
     }
 
-    // Validate required fields when not in simulate mode
+    if (!isLocationPolicy(this.locationPolicy)) {
+      throw new Error(
+        `LOCATION_POLICY must be one of ${LOCATION_POLICIES.join(', ')}: ${this.locationPolicy}`
+      );
+    }
+
+    if (this.altTextGeneratorUrl && !URL.canParse(this.altTextGeneratorUrl)) {
+      throw new Error(`ALT_TEXT_GENERATOR_URL is not a valid URL: ${this.altTextGeneratorUrl}`);
+    }
+
+    if (!isLanguageTag(this.captionLanguage)) {
+      throw new Error(`CAPTION_LANGUAGE must be a language tag, e.g. en or pt-BR: ${this.captionLanguage}`);
+    }
+
+    // Validate archive folder
+    if (!this.isTestModeEnabled() && !this.archiveFolder) {
+      throw new Error('ARCHIVE_FOLDER is required when not in test mode');
+    }
+  }
+
+  /**
+   * Validates required fields when not in simulate mode
+   */
+  private validateCredentials(): void {
     if (!this.simulate) {
       if (!this.blueskyUsername) {
         throw new Error('BLUESKY_USERNAME is required when not in simulate mode');
@@ -147,9 +407,8 @@ export class AppConfig {
       }
     }
 
-    // Validate archive folder
-    if (!this.isTestModeEnabled() && !this.archiveFolder) {
-      throw new Error('ARCHIVE_FOLDER is required when not in test mode');
+    if (this.blueskyServiceUrl && !URL.canParse(this.blueskyServiceUrl)) {
+      throw new Error(`BLUESKY_SERVICE_URL is not a valid URL: ${this.blueskyServiceUrl}`);
     }
   }
 } 
\ No newline at end of file
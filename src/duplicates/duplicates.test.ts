@@ -0,0 +1,66 @@
+import { ExistingPostIndex } from "./duplicates";
+
+describe("ExistingPostIndex", () => {
+  const existingPosts = [
+    {
+      uri: "at://did:plc:test/app.bsky.feed.post/1",
+      cid: "cid-1",
+      text: "Sunset at the beach (Part 1/2)",
+      createdAt: "2024-06-01T18:30:00.000Z",
+    },
+    {
+      uri: "at://did:plc:test/app.bsky.feed.post/2",
+      cid: "cid-2",
+      text: "Sunset at the beach (Part 2/2)",
+      createdAt: "2024-06-01T18:30:01.000Z",
+    },
+    {
+      uri: "at://did:plc:test/app.bsky.feed.post/3",
+      cid: "cid-3",
+      text: "Record without a date",
+      createdAt: "",
+    },
+  ];
+
+  test("should index posts with a valid creation date", () => {
+    const index = new ExistingPostIndex(existingPosts);
+    expect(index.size).toBe(2);
+  });
+
+  test("should find a post with the same date and text", () => {
+    const index = new ExistingPostIndex(existingPosts);
+
+    const duplicate = index.findDuplicate(
+      new Date("2024-06-01T18:30:01.000Z"),
+      "Sunset at the beach (Part 2/2)"
+    );
+
+    expect(duplicate?.uri).toBe("at://did:plc:test/app.bsky.feed.post/2");
+  });
+
+  test("should match creation dates regardless of their format", () => {
+    const index = new ExistingPostIndex([
+      { ...existingPosts[0], createdAt: "2024-06-01T18:30:00Z" },
+    ]);
+
+    expect(
+      index.findDuplicate(new Date("2024-06-01T18:30:00.000Z"), "Sunset at the beach (Part 1/2)")
+    ).toBeDefined();
+  });
+
+  test("should not match a post with the same text at another time", () => {
+    const index = new ExistingPostIndex(existingPosts);
+
+    expect(
+      index.findDuplicate(new Date("2024-06-01T18:30:02.000Z"), "Sunset at the beach (Part 2/2)")
+    ).toBeUndefined();
+  });
+
+  test("should not match a post with different text at the same time", () => {
+    const index = new ExistingPostIndex(existingPosts);
+
+    expect(
+      index.findDuplicate(new Date("2024-06-01T18:30:00.000Z"), "Sunrise at the beach (Part 1/2)")
+    ).toBeUndefined();
+  });
+});
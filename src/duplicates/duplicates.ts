@@ -0,0 +1,37 @@
+import { ExistingPost } from "../bluesky";
+
+/**
+ * Index of the posts already in the Bluesky repo, matched by creation date and text.
+ *
+ * Imported posts keep the Instagram creation date (split posts are offset by a second each),
+ * so the pair is unique enough to recognise posts imported by any previous run, even one
+ * started from another machine without the local journal.
+ */
+export class ExistingPostIndex {
+  private readonly postsByKey = new Map<string, ExistingPost>();
+
+  constructor(posts: ExistingPost[]) {
+    for (const post of posts) {
+      const createdAt = new Date(post.createdAt);
+      if (isNaN(createdAt.getTime())) {
+        continue;
+      }
+      this.postsByKey.set(ExistingPostIndex.postKey(createdAt, post.text), post);
+    }
+  }
+
+  static postKey(postDate: Date, postText: string): string {
+    return `${postDate.getTime()}|${postText.trim()}`;
+  }
+
+  get size(): number {
+    return this.postsByKey.size;
+  }
+
+  /**
+   * Finds the existing post created at the same time with the same text.
+   */
+  findDuplicate(postDate: Date, postText: string): ExistingPost | undefined {
+    return this.postsByKey.get(ExistingPostIndex.postKey(postDate, postText));
+  }
+}
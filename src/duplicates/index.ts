@@ -0,0 +1 @@
+export * from './duplicates';
\ No newline at end of file
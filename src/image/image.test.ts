@@ -1,4 +1,13 @@
-import { getImageSize } from "./image";
+import sharp from "sharp";
+
+import {
+  API_LIMIT_IMAGE_UPLOAD_SIZE,
+  convertImageBuffer,
+  detectImageMimeType,
+  getImageSize,
+  processImageBuffer,
+  stripImageMetadata
+} from "./image";
 import { logger } from "../logger/logger";
 
 // Mock the file system
@@ -8,7 +17,13 @@ jest.mock("fs", () => ({
 
 // Mock sharp
 jest.mock("sharp", () => {
-  return function (filePath: string) {
+  const actualSharp = jest.requireActual("sharp");
+  return function (filePath: string | Buffer | object, options?: object) {
+    // Buffers and created images are processed by the real sharp.
+    if (typeof filePath !== "string") {
+      return actualSharp(filePath, options);
+    }
+
     // Mock different behavior based on file path for testing different scenarios
     if (filePath && filePath.includes("missing.jpg")) {
       throw new Error("Input file is missing");
@@ -85,4 +100,202 @@ describe("getImageSize", () => {
     // Verify the function returns null when an error occurs
     expect(result).toBeNull();
   });
+
+  test("should swap the dimensions of an image rotated by its EXIF orientation", async () => {
+    const image = sharp({ create: { width: 40, height: 20, channels: 3, background: "#ff0000" } });
+    const rotated = await image.clone().jpeg().withMetadata({ orientation: 6 }).toBuffer();
+    const upsideDown = await image.clone().jpeg().withMetadata({ orientation: 3 }).toBuffer();
+
+    expect(await getImageSize(rotated)).toEqual({ width: 20, height: 40 });
+    expect(await getImageSize(upsideDown)).toEqual({ width: 40, height: 20 });
+  });
+});
+
+
+describe("processImageBuffer", () => {
+  const width = 2400;
+  const height = 1800;
+  let largeImage: Buffer;
+
+  beforeAll(async () => {
+    // A gradient with noise, which compresses poorly at full quality.
+    const pixels = Buffer.alloc(width * height * 3);
+    let seed = 1;
+    const random = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+    for (let i = 0; i < width * height; i++) {
+      pixels[i * 3] = ((i % width) / width) * 255 + random() * 60;
+      pixels[i * 3 + 1] = (Math.floor(i / width) / height) * 255 + random() * 60;
+      pixels[i * 3 + 2] = random() * 60;
+    }
+    largeImage = await sharp(pixels, { raw: { width, height, channels: 3 } })
+      .jpeg({ quality: 100 })
+      .toBuffer();
+  });
+
+  test("should resize and lower the quality until the image fits the upload limit", async () => {
+    expect(largeImage.length).toBeGreaterThan(API_LIMIT_IMAGE_UPLOAD_SIZE);
+
+    const result = await processImageBuffer(largeImage, "large.jpg", "image/jpeg");
+
+    expect(result).not.toBeNull();
+    expect(result!.buffer.length).toBeLessThanOrEqual(API_LIMIT_IMAGE_UPLOAD_SIZE);
+    expect(result!.mimeType).toBe("image/jpeg");
+    expect(result!.aspectRatio).toEqual({ width: 1920, height: 1440 });
+    expect(result!.quality).toBeLessThan(90);
+  });
+
+  test("should keep the aspect ratio in sync with the output", async () => {
+    const result = await processImageBuffer(largeImage, "large.webp", "image/webp");
+    const metadata = await sharp(result!.buffer).metadata();
+
+    expect(result!.mimeType).toBe("image/webp");
+    expect(metadata.format).toBe("webp");
+    expect(result!.aspectRatio).toEqual({ width: metadata.width, height: metadata.height });
+  });
+
+  test("should return null for an invalid image", async () => {
+    const result = await processImageBuffer(Buffer.alloc(API_LIMIT_IMAGE_UPLOAD_SIZE + 1), "invalid.jpg");
+
+    expect(result).toBeNull();
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
+
+describe("detectImageMimeType", () => {
+  const ftyp = (...brands: string[]) => {
+    const box = Buffer.from(`\0\0\0\0ftyp${brands[0]}\0\0\0\0${brands.slice(1).join("")}`, "latin1");
+    box.writeUInt32BE(box.length, 0);
+    return box;
+  };
+
+  test.each([
+    ["image/jpeg", Buffer.from([0xff, 0xd8, 0xff, 0xe0])],
+    ["image/png", Buffer.from("\x89PNG\r\n\x1a\n", "latin1")],
+    ["image/gif", Buffer.from("GIF89a")],
+    ["image/webp", Buffer.from("RIFF\0\0\0\0WEBPVP8 ")],
+    ["image/tiff", Buffer.from("II*\0", "latin1")],
+    ["image/tiff", Buffer.from("MM\0*", "latin1")],
+    ["image/heic", ftyp("heic", "mif1", "heic")],
+    ["image/heic", ftyp("mif1", "mif1", "heic")],
+    ["image/heif", ftyp("mif1", "mif1")],
+    ["image/avif", ftyp("avif", "mif1", "miaf")],
+  ])("should detect %s from the magic bytes", (mimeType, buffer) => {
+    expect(detectImageMimeType(buffer)).toBe(mimeType);
+  });
+
+  test("should return undefined for an unknown format", () => {
+    expect(detectImageMimeType(Buffer.from("not an image"))).toBeUndefined();
+    expect(detectImageMimeType(ftyp("isom", "mp41"))).toBeUndefined();
+  });
+});
+
+describe("convertImageBuffer", () => {
+  const createTiff = (channels: 3 | 4) =>
+    sharp({ create: { width: 40, height: 20, channels, background: { r: 200, g: 100, b: 50, alpha: 0.5 } } })
+      .withMetadata({ orientation: 6 })
+      .withIccProfile("p3")
+      // The default JPEG compression of TIFF has no alpha channel.
+      .tiff({ compression: "lzw" })
+      .toBuffer();
+
+  test("should convert an image to JPEG applying the orientation", async () => {
+    const result = await convertImageBuffer(await createTiff(3), "photo.tiff", "image/tiff");
+    const metadata = await sharp(result!.buffer).metadata();
+
+    expect(result!.mimeType).toBe("image/jpeg");
+    expect(metadata.format).toBe("jpeg");
+    expect(result!.aspectRatio).toEqual({ width: 20, height: 40 });
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  test("should keep the color profile", async () => {
+    const result = await convertImageBuffer(await createTiff(3), "photo.tiff", "image/tiff");
+    const metadata = await sharp(result!.buffer).metadata();
+
+    expect(metadata.icc).toBeDefined();
+  });
+
+  test("should convert an image with transparency to PNG", async () => {
+    const result = await convertImageBuffer(await createTiff(4), "photo.tiff", "image/tiff");
+
+    expect(result!.mimeType).toBe("image/png");
+    expect((await sharp(result!.buffer).metadata()).hasAlpha).toBe(true);
+  });
+
+  test("should return null when the image can not be decoded", async () => {
+    const result = await convertImageBuffer(Buffer.from("ftypheic"), "photo.heic", "image/heic");
+
+    expect(result).toBeNull();
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
+
+describe("stripImageMetadata", () => {
+  const createJpeg = () =>
+    sharp({ create: { width: 40, height: 20, channels: 3, background: { r: 200, g: 100, b: 50 } } })
+      .withExif({ IFD0: { Make: "Camera" }, IFD3: { GPSLatitudeRef: "S", GPSLatitude: "33/1 51/1 24/1" } })
+      .withMetadata({ orientation: 6 })
+      .withIccProfile("p3")
+      .jpeg()
+      .toBuffer();
+
+  test("should remove the EXIF metadata of a JPEG without re-encoding it", async () => {
+    const jpeg = await createJpeg();
+    const original = await sharp(jpeg).metadata();
+    expect(original.exif).toBeDefined();
+
+    const result = await stripImageMetadata(jpeg, "photo.jpg", "image/jpeg");
+    const metadata = await sharp(result!.buffer).metadata();
+
+    expect(result!.mimeType).toBe("image/jpeg");
+    expect(metadata.exif!.includes("Camera")).toBe(false);
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.icc).toBeDefined();
+    expect(result!.aspectRatio).toEqual({ width: 20, height: 40 });
+    // The compressed pixels are copied as they are.
+    expect(jpeg.subarray(jpeg.indexOf(Buffer.from([0xff, 0xda])))).toEqual(
+      result!.buffer.subarray(result!.buffer.indexOf(Buffer.from([0xff, 0xda])))
+    );
+  });
+
+  test("should only remove the GPS location of a JPEG with the location scope", async () => {
+    const result = await stripImageMetadata(await createJpeg(), "photo.jpg", "image/jpeg", "location");
+    const metadata = await sharp(result!.buffer).metadata();
+
+    expect(metadata.exif!.includes("Camera")).toBe(true);
+    expect(metadata.exif!.includes("S\0")).toBe(false);
+  });
+
+  test("should re-encode a JPEG it can not parse", async () => {
+    const jpeg = await createJpeg();
+    // A segment length running past the end of the image.
+    const truncated = Buffer.concat([jpeg.subarray(0, 4), Buffer.from([0xff, 0xff])]);
+    // EXIF metadata without its TIFF header.
+    const corrupt = Buffer.concat([jpeg.subarray(0, 2), Buffer.from("\xff\xe1\0\x0aExif\0\0??", "latin1"), jpeg.subarray(2)]);
+
+    expect(await stripImageMetadata(truncated, "photo.jpg", "image/jpeg")).toBeNull();
+    const result = await stripImageMetadata(corrupt, "photo.jpg", "image/jpeg");
+    expect(result?.mimeType).toBe("image/jpeg");
+    expect((await sharp(result!.buffer).metadata()).exif).toBeUndefined();
+  });
+
+  test("should keep the format of the image", async () => {
+    const png = await sharp(await createJpeg()).keepExif().png().toBuffer();
+
+    const result = await stripImageMetadata(png, "photo.png", "image/png");
+
+    expect(result!.mimeType).toBe("image/png");
+    expect((await sharp(result!.buffer).metadata()).exif).toBeUndefined();
+  });
+
+  test("should leave an image without metadata unchanged", async () => {
+    const webp = await sharp(await createJpeg()).webp().toBuffer();
+    expect((await sharp(webp).metadata()).exif).toBeUndefined();
+
+    expect(await stripImageMetadata(webp, "photo.webp", "image/webp")).toBeNull();
+  });
+
+  test("should leave a GIF unchanged", async () => {
+    expect(await stripImageMetadata(Buffer.from("GIF89a"), "photo.gif", "image/gif")).toBeNull();
+  });
 });
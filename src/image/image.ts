@@ -1,6 +1,7 @@
 import byteSize from "byte-size";
 import sharp from "sharp";
 
+import { MetadataScope, removeJpegMetadata } from "./jpeg";
 import { logger } from "../logger/logger";
 import { Ratio } from "../media";
 
@@ -10,15 +11,41 @@ import { Ratio } from "../media";
  */
 export const API_LIMIT_IMAGE_UPLOAD_SIZE = 976000;
 const IMAGE_LENGTH_LIMIT = 1920;
+// Encoder quality tried in order until the image fits the upload limit.
+const IMAGE_QUALITY_STEPS = [90, 80, 70, 60, 50, 40];
+
+// Formats the Bluesky apps display, every other image is converted before upload.
+const DISPLAYABLE_IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+// Formats that can carry EXIF metadata, e.g. the GPS location of a photo.
+const METADATA_IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const REENCODED_IMAGE_QUALITY = 90;
+
+// ISO base media file brands of HEIF images, the container of HEIC and AVIF.
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "hevm", "hevs"];
+const HEIF_BRANDS = ["mif1", "msf1"];
+const AVIF_BRANDS = ["avif", "avis"];
 
 export function isImageMimeType(mimeType: string): boolean {
   return mimeType.startsWith('image/');
 }
 
+export function isDisplayableImageMimeType(mimeType: string): boolean {
+  return DISPLAYABLE_IMAGE_MIME_TYPES.includes(mimeType);
+}
+
 export function getImageMimeType(fileType: string): string {
   switch (fileType.toLowerCase()) {
     case "heic":
       return "image/heic";
+    case "heif":
+      return "image/heif";
+    case "avif":
+      return "image/avif";
+    case "tif":
+    case "tiff":
+      return "image/tiff";
+    case "gif":
+      return "image/gif";
     case "webp":
       return "image/webp";
     case "jpg":
@@ -31,6 +58,172 @@ export function getImageMimeType(fileType: string): string {
   }
 }
 
+/**
+ * Detects the format of an image from its magic bytes, a file extension can be wrong.
+ * @param buffer
+ * @returns the MIME type, or undefined if the format is not recognized.
+ */
+export function detectImageMimeType(buffer: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => buffer.toString("latin1", start, end);
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") {
+    return "image/png";
+  }
+  if (ascii(0, 4) === "GIF8") {
+    return "image/gif";
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") {
+    return "image/tiff";
+  }
+
+  // ISO base media files start with an ftyp box holding the major brand, then compatible brands.
+  if (ascii(4, 8) === "ftyp") {
+    const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [ascii(8, 12)];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+      brands.push(ascii(offset, offset + 4));
+    }
+
+    if (AVIF_BRANDS.includes(brands[0])) {
+      return "image/avif";
+    }
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand))) {
+      return "image/heic";
+    }
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) {
+      return "image/heif";
+    }
+    if (brands.some((brand) => AVIF_BRANDS.includes(brand))) {
+      return "image/avif";
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Image converted to a format Bluesky displays.
+ */
+export interface ConvertedImage {
+  buffer: Buffer;
+  mimeType: string;
+  aspectRatio: Ratio;
+}
+
+/**
+ * Re-encodes an image with the orientation applied, dropping every metadata but the color profile.
+ * @param mediaBuffer
+ * @param mimeType of the output, PNG for an image with transparency and JPEG otherwise when undefined.
+ */
+async function reencodeImage(mediaBuffer: Buffer, mimeType?: string): Promise<ConvertedImage> {
+  const image = sharp(mediaBuffer).rotate().keepIccProfile();
+  const outputMimeType =
+    mimeType ?? ((await image.metadata()).hasAlpha ? "image/png" : "image/jpeg");
+
+  let encoder: sharp.Sharp;
+  switch (outputMimeType) {
+    case "image/png":
+      encoder = image.png();
+      break;
+    case "image/webp":
+      encoder = image.webp({ quality: REENCODED_IMAGE_QUALITY });
+      break;
+    default:
+      encoder = image.jpeg({ quality: REENCODED_IMAGE_QUALITY });
+  }
+
+  const { data, info } = await encoder.toBuffer({ resolveWithObject: true });
+  return {
+    buffer: data,
+    mimeType: outputMimeType,
+    aspectRatio: { width: info.width, height: info.height },
+  };
+}
+
+/**
+ * Converts an image Bluesky does not display, e.g. HEIC, TIFF or AVIF, to PNG when it has
+ * transparency and JPEG otherwise. The orientation is applied and the color profile kept.
+ * @param mediaBuffer
+ * @param filename for the logs.
+ * @param mimeType of the original image.
+ * @returns the converted image, or null if it could not be decoded.
+ */
+export async function convertImageBuffer(
+  mediaBuffer: Buffer,
+  filename: string,
+  mimeType: string
+): Promise<ConvertedImage | null> {
+  try {
+    const converted = await reencodeImage(mediaBuffer);
+
+    logger.info({
+      message: `Converted ${filename} from ${mimeType} to ${converted.mimeType}. This does not change the original image on disk.`,
+    });
+    return converted;
+  } catch (error) {
+    // The prebuilt libvips of sharp decodes AVIF but not HEVC, HEIC needs a libvips with libde265.
+    logger.error({
+      message: `Failed to convert ${mimeType} image: ${filename}`,
+      error,
+    });
+    return null;
+  }
+}
+
+/**
+ * Removes the EXIF and XMP metadata of an image, e.g. its GPS location, camera and capture time.
+ * JPEG images keep their pixels, orientation and color profile as they are. Other formats are
+ * re-encoded without any metadata, the orientation applied to the pixels and the color profile kept,
+ * only when they have EXIF or XMP metadata: re-encoding would lose quality and grow the file.
+ * @param mediaBuffer
+ * @param filename for the logs.
+ * @param mimeType of the image.
+ * @param scope of the metadata to remove.
+ * @returns the image without metadata, or null for a format without such metadata, e.g. GIF,
+ * an image without any, or an image that could not be decoded.
+ */
+export async function stripImageMetadata(
+  mediaBuffer: Buffer,
+  filename: string,
+  mimeType: string,
+  scope: MetadataScope = "all"
+): Promise<ConvertedImage | null> {
+  if (!METADATA_IMAGE_MIME_TYPES.includes(mimeType)) {
+    return null;
+  }
+
+  if (mimeType === "image/jpeg") {
+    try {
+      const buffer = removeJpegMetadata(mediaBuffer, scope);
+      const aspectRatio = await getImageSize(buffer);
+      if (aspectRatio) {
+        return { buffer, mimeType, aspectRatio };
+      }
+    } catch (error) {
+      logger.warn(`Re-encoding ${filename} to strip its metadata: ${(error as Error)?.message}`);
+    }
+  }
+
+  try {
+    const { exif, xmp } = await sharp(mediaBuffer).metadata();
+    if (!exif && !xmp) {
+      return null;
+    }
+    return await reencodeImage(mediaBuffer, mimeType);
+  } catch (error) {
+    logger.error({
+      message: `Failed to strip the metadata of image: ${filename}`,
+      error,
+    });
+    return null;
+  }
+}
+
 /**
  * Checks if the buffer size exceeds Bluesky's upload limit
  */
@@ -39,14 +232,29 @@ export function isImageTooLarge(buffer: Buffer): boolean {
 }
 
 /**
- * Validates and resizes image if needed to meet Bluesky's upload requirements
- * @returns Buffer | null
+ * Image re-encoded to fit the upload limit.
  */
-export async function processImageBuffer(mediaBuffer: Buffer, filename: string): Promise<Buffer | null> {
-  if (!isImageTooLarge(mediaBuffer)) {
-    return mediaBuffer;
-  }
+export interface OptimizedImage {
+  buffer: Buffer;
+  mimeType: string;
+  // Dimensions of the output, which differ from the original once resized or rotated.
+  aspectRatio: Ratio;
+  quality: number;
+}
 
+/**
+ * Resizes and re-encodes an image larger than Bluesky's upload limit, stepping the quality down
+ * until it fits. WebP stays WebP, every other format is encoded as JPEG.
+ * @param mediaBuffer
+ * @param filename for the logs.
+ * @param mimeType of the original image.
+ * @returns the optimized image, or null if it could not be made to fit.
+ */
+export async function processImageBuffer(
+  mediaBuffer: Buffer,
+  filename: string,
+  mimeType: string = "image/jpeg"
+): Promise<OptimizedImage | null> {
   logger.warn({
     message: `Image size (${byteSize(mediaBuffer.length)}) is larger than upload limit (${byteSize(
       API_LIMIT_IMAGE_UPLOAD_SIZE
@@ -54,52 +262,46 @@ export async function processImageBuffer(mediaBuffer: Buffer, filename: string):
   });
 
   try {
-    const sharpImage = sharp(mediaBuffer);
-    const imageMeta = await sharpImage.metadata();
-
-    if (!imageMeta.width || !imageMeta.height) {
-      logger.error({
-        message: `Image width or height meta data is missing, image buffer cannot be resized.`,
+    const outputMimeType = mimeType === "image/webp" ? "image/webp" : "image/jpeg";
+    // Applies the EXIF orientation, the re-encoded image has none.
+    const resized = sharp(mediaBuffer)
+      .rotate()
+      .keepIccProfile()
+      .resize({
+        width: IMAGE_LENGTH_LIMIT,
+        height: IMAGE_LENGTH_LIMIT,
+        fit: "inside",
+        withoutEnlargement: true,
       });
-      return null;
-    }
 
-    let width: number | undefined =
-      imageMeta.width > imageMeta.height ? IMAGE_LENGTH_LIMIT : undefined;
-    const height: number | undefined =
-      imageMeta.height > imageMeta.width ? IMAGE_LENGTH_LIMIT : undefined;
+    for (const quality of IMAGE_QUALITY_STEPS) {
+      const encoder =
+        outputMimeType === "image/webp"
+          ? resized.clone().webp({ quality })
+          : resized.clone().flatten({ background: "#ffffff" }).jpeg({ quality, mozjpeg: true });
+      const { data, info } = await encoder.toBuffer({ resolveWithObject: true });
 
-    // both will be undefined if the image is square, so set the width.
-    if (!width && !height) {
-      width = IMAGE_LENGTH_LIMIT;
+      if (!isImageTooLarge(data)) {
+        logger.info({
+          message: `Image successfully resized (${byteSize(data.length)}) to be less than upload limit (${byteSize(
+            API_LIMIT_IMAGE_UPLOAD_SIZE
+          )}) at w${info.width} h${info.height} quality ${quality}. This does not change the original image on disk.`,
+        });
+        return {
+          buffer: data,
+          mimeType: outputMimeType,
+          aspectRatio: { width: info.width, height: info.height },
+          quality,
+        };
+      }
     }
 
-    const bufferResized = await sharp(mediaBuffer)
-      .resize({ width: width, height: height, withoutEnlargement: true })
-      .toBuffer();
-
-    const metaResized = await sharp(bufferResized).metadata();
-
-    logger.info({
-      message: `before: w${imageMeta.width} h${imageMeta.height} | after: w${metaResized.width} h${metaResized.height}`,
-    });
-
-    if (bufferResized.length > API_LIMIT_IMAGE_UPLOAD_SIZE) {
-      logger.error({
-        message: `Resized image size (${byteSize(bufferResized.length)}) is larger than image upload limit (${byteSize(
-          API_LIMIT_IMAGE_UPLOAD_SIZE
-        )})`,
-      });
-      return null;
-    }
-
-    logger.info({
-      message: `Image successfully resized (${byteSize(bufferResized.length)}) to be less than upload limit (${byteSize(
+    logger.error({
+      message: `Image ${filename} is larger than image upload limit (${byteSize(
         API_LIMIT_IMAGE_UPLOAD_SIZE
-      )}). This does not change the original image on disk.`,
+      )}) even at quality ${IMAGE_QUALITY_STEPS[IMAGE_QUALITY_STEPS.length - 1]}`,
     });
-
-    return bufferResized;
+    return null;
   } catch (error) {
     logger.error({
       message: `Failed to process image: ${filename}`,
@@ -109,16 +311,27 @@ export async function processImageBuffer(mediaBuffer: Buffer, filename: string):
   }
 }
 
-export async function getImageSize(filePath: string): Promise<Ratio | null> {
+/**
+ * Reads the dimensions of an image as displayed, swapped when the EXIF orientation rotates it a quarter turn.
+ * @param input file path or content of the image.
+ * @returns the dimensions, or null if the image can not be read.
+ */
+export async function getImageSize(input: string | Buffer): Promise<Ratio | null> {
   let ratio: Ratio | null = null;
   try {
-    let image = sharp(filePath);
+    let image = sharp(input);
     const metadata = await image.metadata();
-    if( metadata.width != undefined && metadata.height != undefined)
-      ratio = { width: metadata.width, height: metadata.height };
+    if( metadata.width != undefined && metadata.height != undefined) {
+      // Orientations 5 to 8 are transposed or rotated by 90 or 270 degrees.
+      const rotated = (metadata.orientation ?? 1) >= 5;
+      ratio = rotated
+        ? { width: metadata.height, height: metadata.width }
+        : { width: metadata.width, height: metadata.height };
+    }
   } catch (error) {
-    logger.error(`Failed to get image aspect ratio; image path: ${filePath}, error: ${error}`)
+    const description = typeof input === "string" ? `image path: ${input}` : "image buffer";
+    logger.error(`Failed to get image aspect ratio; ${description}, error: ${error}`)
   }
 
   return ratio;
-}
\ No newline at end of file
+}
@@ -1 +1,3 @@
-export * from './image';
\ No newline at end of file
+export * from './image';
+export * from './jpeg';
+export * from './location';
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { removeJpegMetadata } from "./jpeg";
+
+// Segment of a JPEG image with its marker and length.
+const segment = (marker: number, payload: Buffer) => {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+};
+
+// Big-endian EXIF with a camera make, an orientation and a GPS IFD holding a latitude.
+const createExif = (orientation: number) => {
+  const tiff = Buffer.alloc(88);
+  tiff.write("MM", 0, "latin1");
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  // IFD0 at 8: Make, Orientation, GPS IFD pointer.
+  tiff.writeUInt16BE(3, 8);
+  tiff.writeUInt16BE(0x010f, 10);
+  tiff.writeUInt16BE(2, 12);
+  tiff.writeUInt32BE(4, 14);
+  tiff.write("Cam\0", 18, "latin1");
+  tiff.writeUInt16BE(0x0112, 22);
+  tiff.writeUInt16BE(3, 24);
+  tiff.writeUInt32BE(1, 26);
+  tiff.writeUInt16BE(orientation, 30);
+  tiff.writeUInt16BE(0x8825, 34);
+  tiff.writeUInt16BE(4, 36);
+  tiff.writeUInt32BE(1, 38);
+  tiff.writeUInt32BE(50, 42);
+  // GPS IFD at 50: GPSLatitude, 3 rationals at 64.
+  tiff.writeUInt16BE(1, 50);
+  tiff.writeUInt16BE(0x0002, 52);
+  tiff.writeUInt16BE(5, 54);
+  tiff.writeUInt32BE(3, 56);
+  tiff.writeUInt32BE(64, 60);
+  tiff.writeUInt32BE(33, 64);
+  tiff.writeUInt32BE(1, 68);
+  tiff.writeUInt32BE(51, 72);
+  tiff.writeUInt32BE(1, 76);
+  tiff.writeUInt32BE(24, 80);
+  tiff.writeUInt32BE(1, 84);
+  return Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]);
+};
+
+const iccProfile = segment(0xe2, Buffer.from("ICC_PROFILE\0profile", "latin1"));
+const xmp = segment(0xe1, Buffer.from("http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>", "latin1"));
+const scan = Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0xff, 0x00, 0x34, 0xff, 0xd9]);
+
+const createJpeg = (exif: Buffer) =>
+  Buffer.concat([Buffer.from([0xff, 0xd8]), segment(0xe1, exif), iccProfile, xmp, scan]);
+
+describe("removeJpegMetadata", () => {
+  test("should keep only the orientation when removing all metadata", () => {
+    const result = removeJpegMetadata(createJpeg(createExif(6)), "all");
+
+    const exif = Buffer.concat([
+      Buffer.from("Exif\0\0MM\0\x2a\0\0\0\x08\0\x01", "latin1"),
+      Buffer.from([0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6, 0, 0, 0, 0, 0, 0]),
+    ]);
+    expect(result).toEqual(Buffer.concat([Buffer.from([0xff, 0xd8]), segment(0xe1, exif), iccProfile, scan]));
+  });
+
+  test("should remove the EXIF metadata of an image displayed as stored", () => {
+    const result = removeJpegMetadata(createJpeg(createExif(1)), "all");
+
+    expect(result).toEqual(Buffer.concat([Buffer.from([0xff, 0xd8]), iccProfile, scan]));
+  });
+
+  test("should only remove the GPS location with the location scope", () => {
+    const original = createExif(6);
+
+    const result = removeJpegMetadata(createJpeg(original), "location");
+
+    const exif = Buffer.from(original);
+    exif.fill(0, 6 + 50, 6 + 64 + 24);
+    expect(result).toEqual(Buffer.concat([Buffer.from([0xff, 0xd8]), segment(0xe1, exif), iccProfile, scan]));
+  });
+
+  test("should copy the markers without a length and the padding", () => {
+    const jpeg = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xff, 0xd0]), iccProfile, scan]);
+
+    expect(removeJpegMetadata(jpeg, "all")).toEqual(Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xd0]), iccProfile, scan]));
+  });
+
+  test("should reject an invalid image", () => {
+    expect(() => removeJpegMetadata(Buffer.from("GIF89a"), "all")).toThrow("Not a JPEG image");
+    expect(() => removeJpegMetadata(Buffer.from([0xff, 0xd8, 0x00]), "all")).toThrow("Invalid JPEG marker at 2");
+    expect(() => removeJpegMetadata(Buffer.from([0xff, 0xd8, 0xff, 0xe1, 0x00]), "all")).toThrow(
+      "Invalid JPEG segment at 2"
+    );
+    expect(() => removeJpegMetadata(Buffer.from([0xff, 0xd8, 0xff, 0xe1, 0x00, 0x10]), "all")).toThrow(
+      "Invalid JPEG segment at 2"
+    );
+    expect(() => removeJpegMetadata(createJpeg(Buffer.from("Exif\0\0XX", "latin1")), "location")).toThrow(
+      "Invalid EXIF metadata"
+    );
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Metadata removed from an image:
+ * - all: EXIF and XMP, only the orientation is kept.
+ * - location: the GPS location and the XMP metadata, which can repeat it. The other EXIF metadata is kept.
+ */
+export type MetadataScope = "all" | "location";
+
+const MARKER = 0xff;
+const START_OF_IMAGE = 0xd8;
+const START_OF_SCAN = 0xda;
+const APP1 = 0xe1;
+// Markers standing alone, without a length and payload.
+const STANDALONE_MARKERS = new Set([0x01, START_OF_IMAGE, 0xd0, 0xd1, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7]);
+
+const EXIF_HEADER = "Exif\0\0";
+// Main and extended XMP packets, either can hold the GPS location.
+const XMP_HEADERS = ["http://ns.adobe.com/xap/1.0/\0", "http://ns.adobe.com/xmp/extension/\0"];
+
+const ORIENTATION_TAG = 0x0112;
+const GPS_IFD_TAG = 0x8825;
+const SHORT_TYPE = 3;
+const IFD_ENTRY_SIZE = 12;
+// Size in bytes of a value of each TIFF field type, by type number.
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+/**
+ * Reads the TIFF structure of an EXIF payload, in the byte order it declares.
+ */
+class TiffReader {
+  private readonly littleEndian: boolean;
+
+  constructor(readonly tiff: Buffer) {
+    const byteOrder = tiff.toString("latin1", 0, 2);
+    if (tiff.length < 8 || (byteOrder !== "II" && byteOrder !== "MM")) {
+      throw Error("Invalid EXIF metadata");
+    }
+    this.littleEndian = byteOrder === "II";
+  }
+
+  uint16(offset: number): number {
+    this.checkBounds(offset, 2);
+    return this.littleEndian ? this.tiff.readUInt16LE(offset) : this.tiff.readUInt16BE(offset);
+  }
+
+  uint32(offset: number): number {
+    this.checkBounds(offset, 4);
+    return this.littleEndian ? this.tiff.readUInt32LE(offset) : this.tiff.readUInt32BE(offset);
+  }
+
+  /**
+   * Offsets of the entries of the IFD at the offset.
+   */
+  entries(ifdOffset: number): number[] {
+    const count = this.uint16(ifdOffset);
+    this.checkBounds(ifdOffset + 2, count * IFD_ENTRY_SIZE);
+    return Array.from({ length: count }, (_, index) => ifdOffset + 2 + index * IFD_ENTRY_SIZE);
+  }
+
+  /**
+   * Finds an entry of the first IFD by its tag.
+   */
+  findEntry(tag: number): number | undefined {
+    return this.entries(this.uint32(4)).find((entry) => this.uint16(entry) === tag);
+  }
+
+  private checkBounds(offset: number, length: number): void {
+    if (offset < 0 || offset + length > this.tiff.length) {
+      throw Error("Invalid EXIF metadata");
+    }
+  }
+}
+
+/**
+ * Builds the EXIF payload of an image holding only its orientation.
+ */
+function createOrientationExif(orientation: number): Buffer {
+  const tiff = Buffer.alloc(8 + 2 + IFD_ENTRY_SIZE + 4);
+  tiff.write("MM", 0, "latin1");
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(ORIENTATION_TAG, 10);
+  tiff.writeUInt16BE(SHORT_TYPE, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  return Buffer.concat([Buffer.from(EXIF_HEADER, "latin1"), tiff]);
+}
+
+/**
+ * Keeps only the orientation of an EXIF payload, the pixels would be displayed sideways without it.
+ * @returns the new payload, undefined when the image is displayed as stored.
+ */
+function keepOrientation(exif: Buffer): Buffer | undefined {
+  const reader = new TiffReader(exif.subarray(EXIF_HEADER.length));
+  const entry = reader.findEntry(ORIENTATION_TAG);
+  const orientation = entry === undefined ? 1 : reader.uint16(entry + 8);
+  return orientation > 1 && orientation <= 8 ? createOrientationExif(orientation) : undefined;
+}
+
+/**
+ * Overwrites the GPS IFD of an EXIF payload with zeros and leaves it empty, the other tags and
+ * their offsets are unchanged.
+ * @returns a copy of the payload without the GPS location.
+ */
+function removeGpsLocation(exif: Buffer): Buffer {
+  const copy = Buffer.from(exif);
+  const reader = new TiffReader(copy.subarray(EXIF_HEADER.length));
+  const gpsEntry = reader.findEntry(GPS_IFD_TAG);
+  if (gpsEntry === undefined) {
+    return copy;
+  }
+
+  const gpsIfd = reader.uint32(gpsEntry + 8);
+  const entries = reader.entries(gpsIfd);
+  for (const entry of entries) {
+    // Values larger than 4 bytes, e.g. the coordinates, are stored outside of the entry.
+    const size = (TYPE_SIZES[reader.uint16(entry + 2)] ?? 0) * reader.uint32(entry + 4);
+    if (size > 4) {
+      const valueOffset = reader.uint32(entry + 8);
+      reader.tiff.fill(0, valueOffset, Math.min(valueOffset + size, reader.tiff.length));
+    }
+  }
+  // An IFD without entries and without a next IFD.
+  reader.tiff.fill(0, gpsIfd, gpsIfd + 2 + entries.length * IFD_ENTRY_SIZE);
+  return copy;
+}
+
+function startsWith(payload: Buffer, header: string): boolean {
+  return payload.toString("latin1", 0, header.length) === header;
+}
+
+function createSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([MARKER, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Removes the metadata of a JPEG image without re-encoding it, the compressed pixels, color
+ * profile and every other segment are copied as they are.
+ * @param buffer of the JPEG image.
+ * @param scope of the metadata to remove.
+ * @returns the image without the metadata.
+ * @throws when the image is not a valid JPEG.
+ */
+export function removeJpegMetadata(buffer: Buffer, scope: MetadataScope): Buffer {
+  if (buffer[0] !== MARKER || buffer[1] !== START_OF_IMAGE) {
+    throw Error("Not a JPEG image");
+  }
+
+  const segments: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+  while (offset < buffer.length) {
+    if (buffer[offset] !== MARKER) {
+      throw Error(`Invalid JPEG marker at ${offset}`);
+    }
+    const marker = buffer[offset + 1];
+    // Markers may be padded with any number of 0xff bytes.
+    if (marker === MARKER) {
+      offset++;
+      continue;
+    }
+    if (STANDALONE_MARKERS.has(marker)) {
+      segments.push(buffer.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+    if (offset + 4 > buffer.length) {
+      throw Error(`Invalid JPEG segment at ${offset}`);
+    }
+
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    if (end > buffer.length) {
+      throw Error(`Invalid JPEG segment at ${offset}`);
+    }
+    // The compressed pixels follow the start of scan up to the end of the image.
+    if (marker === START_OF_SCAN) {
+      segments.push(buffer.subarray(offset));
+      break;
+    }
+
+    const payload = buffer.subarray(offset + 4, end);
+    if (marker === APP1 && startsWith(payload, EXIF_HEADER)) {
+      const exif = scope === "all" ? keepOrientation(payload) : removeGpsLocation(payload);
+      if (exif) {
+        segments.push(createSegment(APP1, exif));
+      }
+    } else if (!(marker === APP1 && XMP_HEADERS.some((header) => startsWith(payload, header)))) {
+      segments.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return Buffer.concat(segments);
+}
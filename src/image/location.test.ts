@@ -0,0 +1,49 @@
+import { formatLocation, isLocationPolicy, stripsImageMetadata } from "./location";
+
+describe("formatLocation", () => {
+  test("should not share the location with the strip and drop policies", () => {
+    expect(formatLocation(53.141186112, 11.038734576, "strip")).toBeUndefined();
+    expect(formatLocation(53.141186112, 11.038734576, "drop")).toBeUndefined();
+  });
+
+  test("should share the exact coordinates", () => {
+    expect(formatLocation(53.141186112, 11.038734576, "exact")).toBe("geo:53.141186112,11.038734576");
+  });
+
+  test("should round the coordinates to city precision", () => {
+    expect(formatLocation(53.141186112, 11.038734576, "city")).toBe("geo:53.1,11");
+  });
+
+  test("should keep the sign of southern and western hemisphere coordinates", () => {
+    expect(formatLocation(-33.856784, 151.215297, "exact")).toBe("geo:-33.856784,151.215297");
+    expect(formatLocation(-33.856784, -70.648270, "city")).toBe("geo:-33.9,-70.6");
+    expect(formatLocation(40.689247, -74.044502, "city")).toBe("geo:40.7,-74");
+  });
+
+  test("should not print a negative zero when rounding", () => {
+    expect(formatLocation(51.477928, -0.001545, "city")).toBe("geo:51.5,0");
+  });
+
+  test("should ignore missing or invalid coordinates", () => {
+    expect(formatLocation(undefined, 11.038734576, "exact")).toBeUndefined();
+    expect(formatLocation(0, 0, "exact")).toBeUndefined();
+    expect(formatLocation(91, 11, "exact")).toBeUndefined();
+    expect(formatLocation(53, -181, "exact")).toBeUndefined();
+  });
+});
+
+describe("stripsImageMetadata", () => {
+  test("should strip all metadata unless the policy only removes the GPS location", () => {
+    expect(stripsImageMetadata("strip")).toBe(true);
+    expect(stripsImageMetadata("city")).toBe(true);
+    expect(stripsImageMetadata("drop")).toBe(false);
+    expect(stripsImageMetadata("exact")).toBe(false);
+  });
+});
+
+describe("isLocationPolicy", () => {
+  test("should only accept the known policies", () => {
+    expect(isLocationPolicy("city")).toBe(true);
+    expect(isLocationPolicy("everywhere")).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * What to share of the location where a photo was taken.
+ * - strip: no location in the post, all metadata removed from the uploaded image.
+ * - drop: no location in the post, only the GPS location removed from the uploaded image.
+ * - city: location rounded to about 10km in the post, all metadata removed from the uploaded image.
+ * - exact: exact location in the post, only the GPS location removed from the uploaded image.
+ */
+export const LOCATION_POLICIES = ["strip", "drop", "city", "exact"] as const;
+export type LocationPolicy = (typeof LOCATION_POLICIES)[number];
+
+export const DEFAULT_LOCATION_POLICY: LocationPolicy = "strip";
+
+// One decimal of a degree is at most 11km, the precision of a city.
+const CITY_PRECISION_DECIMALS = 1;
+
+export function isLocationPolicy(value: string): value is LocationPolicy {
+  return (LOCATION_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Checks if the policy removes all metadata of uploaded images, the other policies only remove the GPS location.
+ */
+export function stripsImageMetadata(policy: LocationPolicy): boolean {
+  return policy === "strip" || policy === "city";
+}
+
+function isCoordinate(value: number | undefined, limit: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+/**
+ * Formats the coordinates of a photo as a geo URI, negative in the southern and western hemisphere.
+ * @param latitude
+ * @param longitude
+ * @param policy
+ * @returns the geo URI, or undefined if the policy shares no location or the coordinates are missing.
+ */
+export function formatLocation(
+  latitude: number | undefined,
+  longitude: number | undefined,
+  policy: LocationPolicy
+): string | undefined {
+  if (policy !== "city" && policy !== "exact") {
+    return undefined;
+  }
+  // 0,0 is in the ocean, a missing location rather than a real one.
+  if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180) || (latitude === 0 && longitude === 0)) {
+    return undefined;
+  }
+
+  // Number drops the trailing zeros of toFixed, and -0 is printed as 0.
+  const round = (value: number) =>
+    policy === "city" ? Number(value.toFixed(CITY_PRECISION_DECIMALS)) : value;
+  return `geo:${round(latitude)},${round(longitude)}`;
+}
@@ -1,15 +1,28 @@
+import fs from "fs";
+
+import { AltTextProvider, HttpAltTextGenerator } from "./alt";
 import {
   main,
   formatDuration,
   calculateEstimatedTime,
+  createThreadReply,
   uploadMediaAndEmbed,
 } from "../src/instagram-to-bluesky";
 import { BlueskyClient } from "./bluesky/bluesky";
 import { ImagesEmbedImpl, VideoEmbedImpl } from "./bluesky/index";
 import { logger } from "./logger/logger";
-import { InstagramMediaProcessor, ImageMediaProcessResultImpl, readJsonFile } from "./media";
-
-import type { InstagramExportedPost } from "./media/InstagramExportedPost";
+import {
+  DefaultMediaProcessorFactory,
+  InstagramMediaProcessor,
+  ImageMediaProcessResultImpl,
+  readJsonFile,
+  VideoMediaProcessResultImpl,
+} from "./media";
+import { runReport } from "./report";
+import { VideoSplitter } from "./video/segment";
+import { VideoTranscoder } from "./video/transcode";
+
+import type { InstagramExportedPost, Media } from "./media/InstagramExportedPost";
 
 // Mock all dependencies
 jest.mock("fs");
@@ -22,7 +35,16 @@ jest.mock("./bluesky/bluesky", () => {
         mimeType: "image/jpeg",
         size: 1000,
       }),
-      createPost: jest.fn().mockResolvedValue("https://bsky.app/profile/test/post/test"),
+      uploadVideo: jest.fn().mockResolvedValue({
+        ref: "test-video-blob-ref",
+        mimeType: "video/mp4",
+        size: 1000,
+      }),
+      createPost: jest.fn().mockResolvedValue({
+        uri: "at://did:plc:test/app.bsky.feed.post/test",
+        cid: "test-cid",
+        url: "https://bsky.app/profile/test/post/test",
+      }),
     })),
   };
 });
@@ -39,6 +61,9 @@ jest.mock("./media", () => {
         mediaText: "Test media",
       }],
       mediaCount: 1,
+      sourceId: "media/posts/test.jpg",
+      part: 1,
+      totalParts: 1,
     },
   ]);
 
@@ -65,6 +90,7 @@ jest.mock("./media", () => {
       })),
     decodeUTF8: jest.fn((x) => x),
     readJsonFile: jest.fn(),
+    DefaultMediaProcessorFactory: actual.DefaultMediaProcessorFactory,
     ImageMediaProcessResultImpl: actual.ImageMediaProcessResultImpl,
     VideoMediaProcessResultImpl: actual.VideoMediaProcessResultImpl
   };
@@ -110,6 +136,7 @@ describe("Main App", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    runReport.clear();
 
     // Reset env before each test
     process.env = {
@@ -135,13 +162,18 @@ describe("Main App", () => {
       },
     ];
     (readJsonFile as jest.Mock).mockImplementation(mockReadFileSync(mockValue));
+    (fs.readdirSync as jest.Mock).mockReturnValue(["posts_1.json", "reels.json"]);
 
     // Reset BlueskyClient mock
     jest.mocked(BlueskyClient).mockClear();
     jest.mocked(BlueskyClient).prototype.login = jest.fn();
     jest.mocked(BlueskyClient).prototype.createPost = jest
       .fn()
-      .mockResolvedValue("https://bsky.app/test/post");
+      .mockResolvedValue({
+        uri: "at://did:plc:test/app.bsky.feed.post/test",
+        cid: "test-cid",
+        url: "https://bsky.app/test/post",
+      });
   });
 
   afterAll(() => {
@@ -178,13 +210,129 @@ describe("Main App", () => {
     expect(jest.mocked(BlueskyClient)).toHaveBeenCalled();
     expect(InstagramMediaProcessor).toHaveBeenCalledWith(
       expect.any(Array),
-      expect.stringContaining("/test/folder")
+      expect.stringContaining("/test/folder"),
+      expect.any(DefaultMediaProcessorFactory)
     );
     expect(
       jest.mocked(InstagramMediaProcessor).mock.results[0].value.process
     ).toHaveBeenCalled();
   });
 
+  test("should process media with the configured location policy and caption language", async () => {
+    process.env.LOCATION_POLICY = "city";
+    process.env.CAPTION_LANGUAGE = "pt-BR";
+    (readJsonFile as jest.Mock).mockImplementation(mockReadFileSync([{
+      creation_timestamp: Date.now() / 1000,
+      title: "Test Post",
+      media: [{ creation_timestamp: Date.now() / 1000, title: "Test Media" }],
+    }]));
+
+    await main();
+
+    expect(jest.mocked(InstagramMediaProcessor).mock.calls[0][2]).toEqual(
+      new DefaultMediaProcessorFactory({
+        locationPolicy: "city",
+        videoTranscoder: expect.any(VideoTranscoder),
+        videoSplitter: expect.any(VideoSplitter),
+        altTextProvider: expect.any(AltTextProvider),
+        captionLanguage: "pt-BR",
+      })
+    );
+  });
+
+  test("should describe media from the alt text file before their title", async () => {
+    process.env.ALT_TEXT_FILE = "alt-text.json";
+    (fs.readFileSync as jest.Mock).mockReturnValueOnce(
+      Buffer.from(JSON.stringify({ "media/posts/test.jpg": "A dog on a beach" }))
+    );
+
+    await main();
+
+    const factory = jest.mocked(InstagramMediaProcessor).mock.calls[0][2] as DefaultMediaProcessorFactory;
+    const { altTextProvider } = factory["options"];
+    expect(fs.readFileSync).toHaveBeenCalledWith("alt-text.json");
+    expect(altTextProvider?.getAltText({ uri: "media/posts/test.jpg", title: "" } as Media)).toEqual({
+      text: "A dog on a beach",
+      source: "sidecar",
+    });
+    expect(altTextProvider?.getAltText({ uri: "media/posts/test.jpg", title: "Beach day" } as Media)).toEqual({
+      text: "A dog on a beach",
+      source: "sidecar",
+    });
+    expect(altTextProvider?.getAltText({ uri: "media/posts/other.jpg", title: "Beach day" } as Media)).toEqual({
+      text: "Beach day",
+      source: "title",
+    });
+  });
+
+  test("should describe images without alt text with the captioning model", async () => {
+    process.env.ALT_TEXT_GENERATOR_URL = "http://localhost:11434";
+    process.env.ALT_TEXT_GENERATOR_MODEL = "moondream";
+
+    await main();
+
+    const factory = jest.mocked(InstagramMediaProcessor).mock.calls[0][2] as DefaultMediaProcessorFactory;
+    const { altTextProvider } = factory["options"];
+    expect(altTextProvider?.["generator"]).toEqual(expect.any(HttpAltTextGenerator));
+    expect(altTextProvider?.["generator"]?.name).toBe("moondream");
+  });
+
+  test("should read every posts and reels file of the archive", async () => {
+    (fs.readdirSync as jest.Mock).mockReturnValue(["posts_2.json", "posts_1.json", "reels.json", "reels_2.json"]);
+
+    await main();
+
+    expect(fs.readdirSync).toHaveBeenCalledWith("/test/folder/your_instagram_activity/media");
+    expect(jest.mocked(readJsonFile).mock.calls.map(([file]) => file)).toEqual([
+      "your_instagram_activity/media/posts_1.json",
+      "your_instagram_activity/media/posts_2.json",
+      "your_instagram_activity/media/reels.json",
+      "your_instagram_activity/media/reels_2.json",
+    ]);
+    expect(logger.info).toHaveBeenCalledWith("Found 2 posts files: posts_1.json, posts_2.json");
+  });
+
+  test("should report an export with an unknown layout", async () => {
+    (fs.readdirSync as jest.Mock).mockReturnValue(["index.html"]);
+
+    await main();
+
+    expect(readJsonFile).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining("No known Instagram export layout found in /test/folder")
+    );
+  });
+
+  test("should import the stories of the archive as a post per day when enabled", async () => {
+    process.env.IMPORT_STORIES = "1";
+    process.env.STORIES_TEXT = "Archived story {date}";
+    const story = {
+      uri: "media/stories/202106/1.jpg",
+      creation_timestamp: new Date(2021, 5, 4, 12).getTime() / 1000,
+      title: "",
+    };
+    (fs.readdirSync as jest.Mock).mockReturnValue(["posts_1.json", "stories.json"]);
+    (readJsonFile as jest.Mock).mockImplementation((file: string) =>
+      file.endsWith("stories.json") ? { ig_stories: [story] } : []
+    );
+
+    await main();
+
+    expect(jest.mocked(InstagramMediaProcessor).mock.calls[0][0]).toEqual([
+      { creation_timestamp: story.creation_timestamp, title: "Archived story 2021-06-04", media: [story] },
+    ]);
+  });
+
+  test("should not import stories by default", async () => {
+    (fs.readdirSync as jest.Mock).mockReturnValue(["posts_1.json", "stories.json"]);
+
+    await main();
+
+    expect(jest.mocked(readJsonFile).mock.calls.map(([file]) => file)).toEqual([
+      "your_instagram_activity/media/posts_1.json",
+    ]);
+  });
+
   test("should handle date filtering with MIN_DATE", async () => {
     process.env.MIN_DATE = "2024-01-01";
 
@@ -258,7 +406,8 @@ describe("Main App", () => {
         expect.arrayContaining([
           expect.objectContaining({ title: "Exact Min Date Post" }),
         ]),
-        expect.any(String)
+        expect.any(String),
+        expect.any(DefaultMediaProcessorFactory)
       );
     });
 
@@ -288,7 +437,8 @@ describe("Main App", () => {
         expect.arrayContaining([
           expect.objectContaining({ title: "Exact Max Date Post" }),
         ]),
-        expect.any(String)
+        expect.any(String),
+        expect.any(DefaultMediaProcessorFactory)
       );
     });
 
@@ -359,7 +509,8 @@ describe("Main App", () => {
           expect.objectContaining({ title: "In Range Post 1" }),
           expect.objectContaining({ title: "In Range Post 2" }),
         ]),
-        expect.any(String)
+        expect.any(String),
+        expect.any(DefaultMediaProcessorFactory)
       );
     });
 
@@ -404,7 +555,8 @@ describe("Main App", () => {
         expect.arrayContaining([
           expect.objectContaining({ title: "Post with only media timestamp" }),
         ]),
-        expect.any(String)
+        expect.any(String),
+        expect.any(DefaultMediaProcessorFactory)
       );
     });
   });
@@ -454,6 +606,22 @@ describe("Main App", () => {
     );
   });
 
+  test("should list posts that could not be created in the run summary", async () => {
+    const mockBlueskyClient = {
+      login: jest.fn().mockResolvedValue(undefined),
+      uploadMedia: jest.fn().mockResolvedValue({ ref: "test-blob-ref", mimeType: "image/jpeg", size: 1000 }),
+      createPost: jest.fn().mockRejectedValue(new Error("Internal Server Error")),
+    };
+    (BlueskyClient as jest.Mock).mockImplementationOnce(() => mockBlueskyClient);
+
+    await main();
+
+    expect(logger.warn).toHaveBeenCalledWith("1 items were given up and not imported:");
+    expect(logger.warn).toHaveBeenCalledWith(
+      "- [media/posts/test.jpg Part 1/1]: Internal Server Error"
+    );
+  });
+
   test("should calculate correct estimated time in simulate mode", async () => {
     process.env.SIMULATE = "1";
 
@@ -494,6 +662,221 @@ describe("Main App", () => {
     );
   });
 
+  test("should journal each created post", async () => {
+    await main();
+
+    expect(fs.appendFileSync).toHaveBeenCalledWith(
+      "import-journal.jsonl",
+      expect.stringContaining('"uri":"at://did:plc:test/app.bsky.feed.post/test"')
+    );
+  });
+
+  test("should skip posts already in the journal when resuming", async () => {
+    process.env.RESUME = "1";
+    (fs.existsSync as jest.Mock).mockReturnValueOnce(true);
+    (fs.readFileSync as jest.Mock).mockReturnValueOnce(
+      Buffer.from(
+        JSON.stringify({
+          runId: "previous-run",
+          sourceId: "media/posts/test.jpg",
+          part: 1,
+          totalParts: 1,
+          uri: "at://did:plc:test/app.bsky.feed.post/previous",
+          cid: "previous-cid",
+          postDate: new Date().toISOString(),
+          createdAt: new Date().toISOString(),
+        }) + "\n"
+      )
+    );
+
+    await main();
+
+    expect(logger.info).toHaveBeenCalledWith(
+      "Skipping post - Already imported: [media/posts/test.jpg Part 1/1]"
+    );
+    expect(
+      jest.mocked(BlueskyClient).mock.results[0].value.createPost
+    ).not.toHaveBeenCalled();
+    expect(fs.appendFileSync).not.toHaveBeenCalled();
+  });
+
+  test("should skip posts already in the Bluesky account when detecting duplicates", async () => {
+    process.env.DETECT_DUPLICATES = "1";
+    const postDate = new Date("2024-06-01T18:30:00.000Z");
+    const mockBlueskyClient = {
+      login: jest.fn().mockResolvedValue(undefined),
+      uploadMedia: jest.fn(),
+      createPost: jest.fn(),
+      listPosts: jest.fn().mockResolvedValue([
+        {
+          uri: "at://did:plc:test/app.bsky.feed.post/existing",
+          cid: "existing-cid",
+          text: "Test post",
+          createdAt: postDate.toISOString(),
+        },
+      ]),
+    };
+    (BlueskyClient as jest.Mock).mockImplementationOnce(() => mockBlueskyClient);
+    (InstagramMediaProcessor as jest.Mock).mockImplementationOnce(() => ({
+      process: jest.fn().mockResolvedValue([
+        {
+          postDate,
+          postText: "Test post",
+          embeddedMedia: [],
+          mediaCount: 0,
+          sourceId: "media/posts/test.jpg",
+          part: 1,
+          totalParts: 1,
+        },
+      ]),
+    }));
+
+    await main();
+
+    expect(mockBlueskyClient.listPosts).toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith(
+      "Skipping post - Already on Bluesky: [media/posts/test.jpg Part 1/1] at://did:plc:test/app.bsky.feed.post/existing"
+    );
+    expect(mockBlueskyClient.createPost).not.toHaveBeenCalled();
+  });
+
+  test("should publish split posts as a reply thread when enabled", async () => {
+    process.env.THREAD_SPLIT_POSTS = "1";
+    const postDate = new Date("2024-06-01T18:30:00.000Z");
+    const createPartPost = (part: number) => ({
+      postDate: new Date(postDate.getTime() + (part - 1) * 1000),
+      postText: `Test post (Part ${part}/3)`,
+      embeddedMedia: [
+        new ImageMediaProcessResultImpl("", "image/jpeg", Buffer.from("test"), { width: 640, height: 640 }),
+      ],
+      mediaCount: 1,
+      sourceId: "media/posts/test.jpg",
+      part,
+      totalParts: 3,
+    });
+    const mockBlueskyClient = {
+      login: jest.fn().mockResolvedValue(undefined),
+      uploadMedia: jest.fn().mockResolvedValue({ ref: "test-blob-ref", mimeType: "image/jpeg", size: 1000 }),
+      createPost: jest.fn().mockImplementation((date: Date) => {
+        const id = date.getTime();
+        return Promise.resolve({
+          uri: `at://did:plc:test/app.bsky.feed.post/${id}`,
+          cid: `cid-${id}`,
+          url: `https://bsky.app/profile/test/post/${id}`,
+        });
+      }),
+    };
+    (BlueskyClient as jest.Mock).mockImplementationOnce(() => mockBlueskyClient);
+    (InstagramMediaProcessor as jest.Mock).mockImplementationOnce(() => ({
+      process: jest.fn().mockResolvedValue([1, 2, 3].map(createPartPost)),
+    }));
+
+    await main();
+
+    const root = { uri: `at://did:plc:test/app.bsky.feed.post/${postDate.getTime()}`, cid: `cid-${postDate.getTime()}` };
+    const second = { uri: `at://did:plc:test/app.bsky.feed.post/${postDate.getTime() + 1000}`, cid: `cid-${postDate.getTime() + 1000}` };
+    const replies = mockBlueskyClient.createPost.mock.calls.map((call) => call[3]);
+    expect(replies).toEqual([
+      undefined,
+      { root, parent: root },
+      { root, parent: second },
+    ]);
+  });
+
+  test("should thread the segments of a split video even when split posts are not threaded", async () => {
+    const postDate = new Date("2024-06-01T18:30:00.000Z");
+    const createPartPost = (part: number) => ({
+      postDate: new Date(postDate.getTime() + (part - 1) * 1000),
+      postText: `Test post (Part ${part}/3)`,
+      embeddedMedia: [
+        new ImageMediaProcessResultImpl("", "image/jpeg", Buffer.from("test"), { width: 640, height: 640 }),
+      ],
+      mediaCount: 1,
+      sourceId: "media/posts/test.jpg",
+      part,
+      totalParts: 3,
+      // Part 1 is a photo, parts 2 and 3 the segments of a long video.
+      continuesThread: part === 3,
+    });
+    const mockBlueskyClient = {
+      login: jest.fn().mockResolvedValue(undefined),
+      uploadMedia: jest.fn().mockResolvedValue({ ref: "test-blob-ref", mimeType: "image/jpeg", size: 1000 }),
+      createPost: jest.fn().mockImplementation((date: Date) => {
+        const id = date.getTime();
+        return Promise.resolve({
+          uri: `at://did:plc:test/app.bsky.feed.post/${id}`,
+          cid: `cid-${id}`,
+          url: `https://bsky.app/profile/test/post/${id}`,
+        });
+      }),
+    };
+    (BlueskyClient as jest.Mock).mockImplementationOnce(() => mockBlueskyClient);
+    (InstagramMediaProcessor as jest.Mock).mockImplementationOnce(() => ({
+      process: jest.fn().mockResolvedValue([1, 2, 3].map(createPartPost)),
+    }));
+
+    await main();
+
+    const firstSegment = {
+      uri: `at://did:plc:test/app.bsky.feed.post/${postDate.getTime() + 1000}`,
+      cid: `cid-${postDate.getTime() + 1000}`,
+    };
+    const replies = mockBlueskyClient.createPost.mock.calls.map((call) => call[3]);
+    expect(replies).toEqual([
+      undefined,
+      undefined,
+      { root: firstSegment, parent: firstSegment },
+    ]);
+  });
+
+  test("should continue long captions in text-only replies before the next part", async () => {
+    process.env.THREAD_SPLIT_POSTS = "1";
+    const postDate = new Date("2024-06-01T18:30:00.000Z");
+    const createPartPost = (part: number) => ({
+      postDate: new Date(postDate.getTime() + (part - 1) * 1000),
+      postText: part === 1 ? "Long caption (1/2) (Part 1/2)" : "Long caption... (Part 2/2)",
+      embeddedMedia: [
+        new ImageMediaProcessResultImpl("", "image/jpeg", Buffer.from("test"), { width: 640, height: 640 }),
+      ],
+      mediaCount: 1,
+      sourceId: "media/posts/test.jpg",
+      part,
+      totalParts: 2,
+      textReplies: part === 1 ? ["continues here (2/2)"] : [],
+    });
+    const mockBlueskyClient = {
+      login: jest.fn().mockResolvedValue(undefined),
+      uploadMedia: jest.fn().mockResolvedValue({ ref: "test-blob-ref", mimeType: "image/jpeg", size: 1000 }),
+      createPost: jest.fn().mockImplementation((date: Date) => {
+        const id = date.getTime();
+        return Promise.resolve({
+          uri: `at://did:plc:test/app.bsky.feed.post/${id}`,
+          cid: `cid-${id}`,
+          url: `https://bsky.app/profile/test/post/${id}`,
+        });
+      }),
+    };
+    (BlueskyClient as jest.Mock).mockImplementationOnce(() => mockBlueskyClient);
+    (InstagramMediaProcessor as jest.Mock).mockImplementationOnce(() => ({
+      process: jest.fn().mockResolvedValue([1, 2].map(createPartPost)),
+    }));
+
+    await main();
+
+    const postRef = (id: number) => ({ uri: `at://did:plc:test/app.bsky.feed.post/${id}`, cid: `cid-${id}` });
+    const root = postRef(postDate.getTime());
+    const captionReply = postRef(postDate.getTime() + 1);
+    expect(mockBlueskyClient.createPost.mock.calls).toEqual([
+      [postDate, "Long caption (1/2) (Part 1/2)", expect.any(ImagesEmbedImpl), undefined],
+      [new Date(postDate.getTime() + 1), "continues here (2/2)", undefined, { root, parent: root }],
+      [new Date(postDate.getTime() + 1000), "Long caption... (Part 2/2)", expect.any(ImagesEmbedImpl), { root, parent: captionReply }],
+    ]);
+    expect(fs.appendFileSync).toHaveBeenCalledWith(
+      "import-journal.jsonl",
+      expect.stringContaining('"captionPart":2')
+    );
+  });
+
   test("should process posts successfully", async () => {
     const mockPost = {
       creation_timestamp: Date.now() / 1000,
@@ -512,7 +895,8 @@ describe("Main App", () => {
     expect(jest.mocked(BlueskyClient)).toHaveBeenCalled();
     expect(InstagramMediaProcessor).toHaveBeenCalledWith(
       expect.any(Array),
-      expect.stringContaining("/test/folder")
+      expect.stringContaining("/test/folder"),
+      expect.any(DefaultMediaProcessorFactory)
     );
     expect(
       jest.mocked(InstagramMediaProcessor).mock.results[0].value.process
@@ -591,7 +975,11 @@ describe("Main App", () => {
       createPost: jest.fn().mockImplementation((_, __, embed) => {
         // Verify the post contains all images in the embed
         expect(embed.images?.length).toBe(4);
-        return Promise.resolve("https://bsky.app/profile/test/post/test");
+        return Promise.resolve({
+          uri: "at://did:plc:test/app.bsky.feed.post/test",
+          cid: "test-cid",
+          url: "https://bsky.app/profile/test/post/test",
+        });
       }),
     };
 
@@ -632,18 +1020,35 @@ describe("Time Formatting Functions", () => {
   });
 
   describe("calculateEstimatedTime", () => {
-    test("should calculate estimated time based on media count", () => {
-      // API_RATE_LIMIT_DELAY is 3000ms, with 1.1 multiplier
-      const cases = [
-        { mediaCount: 20, expected: "0 hours and 1 minutes" }, // 20 * 3000 * 1.1 = 66000ms
-        { mediaCount: 40, expected: "0 hours and 2 minutes" }, // 40 * 3000 * 1.1 = 132000ms
-        { mediaCount: 10, expected: "0 hours and 0 minutes" }, // 10 * 3000 * 1.1 = 33000ms
-      ];
+    test("should estimate the request time while within the hourly budget", () => {
+      // 20 posts and 40 media are 60 requests of about a second
+      expect(calculateEstimatedTime(20, 40)).toBe("0 hours and 1 minutes");
+      expect(calculateEstimatedTime(0, 0)).toBe("0 hours and 0 minutes");
+    });
 
-      cases.forEach(({ mediaCount, expected }) => {
-        expect(calculateEstimatedTime(mediaCount)).toBe(expected);
-      });
+    test("should wait for the hourly budget of 5000 points", () => {
+      // 5000 posts are 15000 points, two hourly waits and the last 1666 posts
+      expect(calculateEstimatedTime(5000, 5000)).toBe("2 hours and 55 minutes");
     });
+
+    test("should wait for the daily budget of 35000 points", () => {
+      // 12000 posts are 36000 points, the last 1000 points on the next day
+      expect(calculateEstimatedTime(12000, 0)).toBe("24 hours and 5 minutes");
+    });
+  });
+});
+
+describe("createThreadReply", () => {
+  const root = { uri: "at://did:plc:test/app.bsky.feed.post/1", cid: "cid-1" };
+  const parent = { uri: "at://did:plc:test/app.bsky.feed.post/2", cid: "cid-2" };
+
+  test("should reply to the parent with the first post as root", () => {
+    expect(createThreadReply(root, parent)).toEqual({ root, parent });
+  });
+
+  test("should not reply when the thread was not created", () => {
+    expect(createThreadReply(undefined, parent)).toBeUndefined();
+    expect(createThreadReply(root, undefined)).toBeUndefined();
   });
 });
 
@@ -672,7 +1077,6 @@ describe("uploadMediaAndEmbed", () => {
       );
 
     const result = await uploadMediaAndEmbed(
-      "Test post text",
       mockImages,
       mockBluesky as any
     );
@@ -689,11 +1093,20 @@ describe("uploadMediaAndEmbed", () => {
     // Verify each image has a unique blob ref
     const blobRefs = new Set(imagesEmbed.images.map((img) => img.image.ref));
     expect(blobRefs.size).toBe(4);
+
+    // Verify each image keeps its own alt text
+    expect(imagesEmbed.images.map((img) => img.alt)).toEqual([
+      "Test image 1",
+      "Test image 2",
+      "Test image 3",
+      "Test image 4",
+    ]);
   });
 
   test("should handle video upload correctly", async () => {
     const mockBluesky = {
-      uploadMedia: jest.fn().mockResolvedValue({
+      uploadMedia: jest.fn(),
+      uploadVideo: jest.fn().mockResolvedValue({
         ref: "test-video-blob-ref",
         mimeType: "video/mp4",
         size: 1000,
@@ -709,18 +1122,58 @@ describe("uploadMediaAndEmbed", () => {
     };
 
     const result = await uploadMediaAndEmbed(
-      "Test video post",
       [mockVideo],
       mockBluesky as any
     );
 
-    expect(mockBluesky.uploadMedia).toHaveBeenCalledTimes(1);
+    expect(mockBluesky.uploadVideo).toHaveBeenCalledWith(mockVideo.mediaBuffer, "video/mp4");
+    expect(mockBluesky.uploadMedia).not.toHaveBeenCalled();
     expect(result.importedMediaCount).toBe(1);
     expect(result.uploadedMedia).toBeDefined();
 
     const videoEmbed = result.uploadedMedia as VideoEmbedImpl;
     expect(videoEmbed.video.ref).toBe("test-video-blob-ref");
     expect(videoEmbed.video.mimeType).toBe("video/mp4");
+    expect(videoEmbed.alt).toBe("Test video");
+  });
+
+  test("should upload the captions of a video and embed them", async () => {
+    const captionBlob = { ref: "caption-blob-ref", mimeType: "text/vtt", size: 100 };
+    const mockBluesky = {
+      uploadMedia: jest
+        .fn()
+        .mockResolvedValueOnce(captionBlob)
+        .mockRejectedValueOnce(new Error("Blob too large")),
+      uploadVideo: jest.fn().mockResolvedValue({
+        ref: "test-video-blob-ref",
+        mimeType: "video/mp4",
+        size: 1000,
+      }),
+    };
+    const mockVideo = new VideoMediaProcessResultImpl(
+      "Test video",
+      "video/mp4",
+      Buffer.from("test-video"),
+      undefined,
+      "media/reels/reel.mp4",
+      undefined,
+      [
+        { lang: "en", content: "WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello\n" },
+        { lang: "fr", content: "WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nBonjour\n" },
+      ]
+    );
+
+    const result = await uploadMediaAndEmbed([mockVideo], mockBluesky as any);
+
+    expect(mockBluesky.uploadMedia).toHaveBeenCalledWith(
+      Buffer.from("WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello\n"),
+      "text/vtt"
+    );
+    expect(result.importedMediaCount).toBe(1);
+    expect((result.uploadedMedia as VideoEmbedImpl).captions).toEqual([{ lang: "en", file: captionBlob }]);
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Failed to upload fr captions of media/reels/reel.mp4, posting the video without them: Blob too large"
+    );
   });
 
   test("should handle upload failures gracefully", async () => {
@@ -736,9 +1189,9 @@ describe("uploadMediaAndEmbed", () => {
     );
 
     const result = await uploadMediaAndEmbed(
-      "Test failed upload",
       [mockImage],
-      mockBluesky as any
+      mockBluesky as any,
+      "[media/posts/test.jpg Part 1/1]"
     );
 
     expect(mockBluesky.uploadMedia).toHaveBeenCalledTimes(1);
@@ -747,5 +1200,9 @@ describe("uploadMediaAndEmbed", () => {
     expect(logger.error).toHaveBeenCalledWith(
       expect.stringContaining("Upload failed")
     );
+    expect(runReport.getFailures()).toContainEqual({
+      item: "[media/posts/test.jpg Part 1/1] media 1/1",
+      reason: "Upload failed",
+    });
   });
 });
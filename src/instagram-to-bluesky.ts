@@ -1,29 +1,53 @@
-import path from "path";
-
-import { BlobRef } from "@atproto/api";
+import { AppBskyEmbedVideo, AppBskyFeedPost, BlobRef } from "@atproto/api";
 
+import {
+  AltTextProvider,
+  AltTextSource,
+  HttpAltTextGenerator,
+  SidecarAltTextSource,
+  TitleAltTextSource,
+} from "./alt";
+import {
+  describeUnknownLayout,
+  detectExportLayout,
+  findArchiveFiles,
+  openArchive,
+  readArchivePosts,
+} from "./archive";
 import { BlueskyClient } from "./bluesky/bluesky";
 import {
+  CREATE_RECORD_POINTS,
+  CreatedPost,
   EmbeddedMedia,
+  estimateDuration,
   ImageEmbed,
   ImageEmbedImpl,
   ImagesEmbedImpl,
   VideoEmbedImpl,
 } from "./bluesky/index";
 import { AppConfig } from "./config";
+import { ExistingPostIndex } from "./duplicates";
+import { ImportJournal } from "./journal";
 import { logger } from "./logger/logger";
 import {
   ImageMediaProcessResultImpl,
   MediaProcessResult,
   VideoMediaProcessResultImpl,
-  decodeUTF8,
+  DefaultMediaProcessorFactory,
   InstagramMediaProcessor,
   InstagramExportedPost,
-  readJsonFile,
   sortPostsByCreationTime,
 } from "./media";
+import { runReport } from "./report";
+import { readArchiveStories } from "./stories";
+import { CAPTION_MIME_TYPE, VideoCaption } from "./video/captions";
+import { VideoSplitter } from "./video/segment";
+import { VideoTranscoder } from "./video/transcode";
 
-const API_RATE_LIMIT_DELAY = 3000; // https://docs.bsky.app/docs/advanced-guides/rate-limits
+/**
+ * Strong reference to a post, enough to reply to it.
+ */
+type PostRef = { uri: string; cid: string };
 
 export function formatDuration(milliseconds: number): string {
   const minutes = Math.floor(milliseconds / (1000 * 60));
@@ -32,8 +56,15 @@ export function formatDuration(milliseconds: number): string {
   return `${hours} hours and ${remainingMinutes} minutes`;
 }
 
-export function calculateEstimatedTime(importedMedia: number): string {
-  const estimatedMilliseconds = importedMedia * API_RATE_LIMIT_DELAY * 1.1;
+/**
+ * Estimates the import time within the Bluesky rate limits, every post is a record creation
+ * and every media an upload request.
+ */
+export function calculateEstimatedTime(importedPosts: number, importedMedia: number): string {
+  const estimatedMilliseconds = estimateDuration(
+    importedPosts * CREATE_RECORD_POINTS,
+    importedPosts + importedMedia
+  );
   return formatDuration(estimatedMilliseconds);
 }
 
@@ -45,28 +76,29 @@ export function calculateEstimatedTime(importedMedia: number): string {
  * For videos, it creates a VideoEmbed object. If mixed media types are provided, only the first type
  * encountered will be processed.
  *
- * @param postText - The text content of the post to be associated with the media
+ * Each media keeps its own alt text, the post text is not repeated for every image.
+ *
  * @param embeddedMedia - Array of media objects to be processed and uploaded (should be same type)
  * @param bluesky - The BlueskyClient instance used for uploading media
+ * @param item - Describes the post in the run report when an upload is given up
  *
  * @returns {Promise<{
  *   importedMediaCount: number, // Number of successfully uploaded media files
  *   uploadedMedia: EmbeddedMedia | undefined // The final embed object for the post
  * }>}
  *
- * @throws Will log but not throw errors from failed media uploads
+ * @throws Will log and report but not throw errors from failed media uploads
  *
  * @example
- * const result = await uploadMedia(
- *   "My vacation photos",
+ * const result = await uploadMediaAndEmbed(
  *   mediaArray,
  *   blueskyClient
  * );
  */
 export async function uploadMediaAndEmbed(
-  postText: string,
   embeddedMedia: MediaProcessResult[],
-  bluesky: BlueskyClient
+  bluesky: BlueskyClient,
+  item: string = "Post"
 ): Promise<{
   importedMediaCount: number;
   uploadedMedia: EmbeddedMedia | undefined;
@@ -75,38 +107,42 @@ export async function uploadMediaAndEmbed(
   let importedMedia = 0;
   const embeddedImages: ImageEmbed[] = [];
 
-  for (const media of embeddedMedia) {
+  for (const [index, media] of embeddedMedia.entries()) {
     try {
       if (media.getType() === "image") {
-        const { mediaBuffer, mimeType, aspectRatio } =
+        const { mediaText, mediaBuffer, mimeType, aspectRatio } =
           media as ImageMediaProcessResultImpl;
 
         const blobRef: BlobRef = await bluesky.uploadMedia(
           mediaBuffer!,
           mimeType!
         );
+        // Each image has its own alt text, screen readers would repeat the caption otherwise.
         embeddedImages.push(
-          new ImageEmbedImpl(postText, blobRef, mimeType!, aspectRatio)
+          new ImageEmbedImpl(mediaText, blobRef, mimeType!, aspectRatio)
         );
         uploadedMedia = new ImagesEmbedImpl(embeddedImages);
       } else if (media.getType() === "video") {
-        const { mediaBuffer, mimeType, aspectRatio } =
+        const { mediaText, mediaBuffer, mimeType, aspectRatio, captions = [] } =
           media as VideoMediaProcessResultImpl;
-        const blobRef = await bluesky.uploadMedia(mediaBuffer!, mimeType!);
+        // Only embedded once the video service has processed it.
+        const blobRef = await bluesky.uploadVideo(mediaBuffer!, mimeType!);
         uploadedMedia = new VideoEmbedImpl(
-          postText,
+          mediaText,
           mimeType!,
           blobRef,
-          aspectRatio
+          aspectRatio,
+          await uploadCaptions(captions, bluesky, media.uri)
         );
       }
       // Increment the imported media as each is uploaded incase a failure occcurs the user can see the descrepancy.
       importedMedia++;
     } catch (error) {
-      logger.error(
-        `Failed to upload media: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      logger.error(`Failed to upload media: ${reason}`);
+      runReport.addFailure(
+        `${item} media ${index + 1}/${embeddedMedia.length}`,
+        reason
       );
       // Continue with the next post even if this one failed
     }
@@ -118,6 +154,181 @@ export async function uploadMediaAndEmbed(
   };
 }
 
+/**
+ * Uploads the captions of a video as WebVTT blobs. A caption that fails to upload is left out,
+ * the video is still posted.
+ *
+ * @param captions - Captions of the video, in the order they are embedded
+ * @param bluesky - The BlueskyClient instance used for uploading the captions
+ * @param uri - URI of the video in the archive, for the logs
+ *
+ * @returns the captions to embed with the video, undefined for a video without captions
+ */
+export async function uploadCaptions(
+  captions: VideoCaption[],
+  bluesky: BlueskyClient,
+  uri: string = "video"
+): Promise<AppBskyEmbedVideo.Caption[] | undefined> {
+  const uploadedCaptions: AppBskyEmbedVideo.Caption[] = [];
+  for (const { lang, content } of captions) {
+    try {
+      const file = await bluesky.uploadMedia(Buffer.from(content), CAPTION_MIME_TYPE);
+      uploadedCaptions.push({ lang, file });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      logger.warn(`Failed to upload ${lang} captions of ${uri}, posting the video without them: ${reason}`);
+    }
+  }
+  return uploadedCaptions.length > 0 ? uploadedCaptions : undefined;
+}
+
+/**
+ * Builds the reply reference of a post continuing a thread, e.g. a later part of a split post
+ * or the continuation of a long caption.
+ *
+ * @param root - First post of the thread
+ * @param parent - Post replied to, the last post of the thread so far
+ *
+ * @returns the reply reference, or undefined if the thread was not created
+ */
+export function createThreadReply(
+  root: PostRef | undefined,
+  parent: PostRef | undefined
+): AppBskyFeedPost.ReplyRef | undefined {
+  if (!root || !parent) {
+    return undefined;
+  }
+
+  return {
+    root: { uri: root.uri, cid: root.cid },
+    parent: { uri: parent.uri, cid: parent.cid },
+  };
+}
+
+/**
+ * Reads the posts and reels of the archive, sorted by creation date and filtered by MIN_DATE and MAX_DATE.
+ * Stories are added when imported, a post per day filtered by STORIES_MIN_DATE and STORIES_MAX_DATE.
+ * @param config
+ */
+export function readInstagramPosts(config: AppConfig): InstagramExportedPost[] {
+  const archivalFolder = config.getArchiveFolder();
+
+  // Decide where to fetch post data to process from, a folder or ZIP files.
+  const archive = openArchive(archivalFolder);
+  if (config.isTestModeEnabled()) {
+    logger.info(
+      `--- TEST mode is enabled, using content from ${archivalFolder} ---`
+    );
+  }
+
+  // Recognize the export version from where it keeps its posts files.
+  const layout = detectExportLayout(archive);
+  if (!layout) {
+    logger.error(describeUnknownLayout(archive));
+    return [];
+  }
+
+  // Read every posts and reels file, large accounts get them sharded.
+  const allInstaPosts: InstagramExportedPost[] = readArchivePosts(
+    archive,
+    findArchiveFiles(archive, layout)
+  );
+
+  const instaPosts: InstagramExportedPost[] = [];
+
+  // Sort instagram posts by creation timestamp
+  const sortedPosts = allInstaPosts.sort(sortPostsByCreationTime)
+
+  // Preprocess posts before transforming into a normalized format.
+  for (const post of sortedPosts) {
+    let checkDate: Date | undefined;
+    if (post.creation_timestamp) {
+      checkDate = new Date(post.creation_timestamp * 1000);
+    } else if (post.media[0].creation_timestamp) {
+      checkDate = new Date(post.media[0].creation_timestamp * 1000);
+    } else {
+      checkDate = undefined;
+    }
+
+    // Skip posts without a creation date.
+    if (!checkDate) {
+      logger.warn("Skipping post - No date");
+      continue;
+    }
+
+    // If MIN_DATE configured validate the creation date is after the minimum date config.
+    const minDate = config.getMinDate();
+    if (minDate && checkDate && checkDate < minDate) {
+      logger.warn(
+        `Skipping post - Before MIN_DATE: [${checkDate.toUTCString()}]`
+      );
+      continue;
+    }
+
+    // If MAX_DATE configured validate the creation date is before the max date config.
+    const maxDate = config.getMaxDate();
+    if (maxDate && checkDate > maxDate) {
+      logger.warn(
+        `Skipping post - After MAX_DATE [${checkDate.toUTCString()}]`
+      );
+      break;
+    }
+
+    instaPosts.push(post);
+  }
+
+  // Stories are opt-in, grouped by day and imported along the posts of the same dates.
+  if (config.isImportStoriesEnabled()) {
+    instaPosts.push(
+      ...readArchiveStories(archive, layout, {
+        text: config.getStoriesText(),
+        minDate: config.getStoriesMinDate(),
+        maxDate: config.getStoriesMaxDate(),
+      })
+    );
+    instaPosts.sort(sortPostsByCreationTime);
+  }
+
+  return instaPosts;
+}
+
+/**
+ * Creates the processor turning the archive posts into Bluesky posts, with the media settings of the config.
+ * @param config
+ * @param instaPosts
+ * @param altTextFile alt text written by the user, read before the title of each media.
+ */
+export function createMediaProcessor(
+  config: AppConfig,
+  instaPosts: InstagramExportedPost[],
+  altTextFile: string | undefined = config.getAltTextFile()
+): InstagramMediaProcessor {
+  // Alt text of each media from the user's alt text file, then from its title.
+  const altTextSources: AltTextSource[] = [];
+  if (altTextFile) {
+    altTextSources.push(SidecarAltTextSource.load(altTextFile));
+  }
+  altTextSources.push(new TitleAltTextSource());
+  // Images neither describes are described by the captioning model, if any.
+  const altTextGeneratorUrl = config.getAltTextGeneratorUrl();
+  const altTextGenerator = altTextGeneratorUrl
+    ? new HttpAltTextGenerator(altTextGeneratorUrl, config.getAltTextGeneratorModel())
+    : undefined;
+
+  // Create media processor that can handle multiple data formats.
+  return new InstagramMediaProcessor(
+    instaPosts,
+    config.getArchiveFolder(),
+    new DefaultMediaProcessorFactory({
+      locationPolicy: config.getLocationPolicy(),
+      videoTranscoder: new VideoTranscoder(config.getVideoCacheFolder()),
+      videoSplitter: new VideoSplitter(config.getVideoCacheFolder()),
+      altTextProvider: new AltTextProvider(altTextSources, altTextGenerator),
+      captionLanguage: config.getCaptionLanguage(),
+    })
+  );
+}
+
 /**
  *
  */
@@ -133,163 +344,257 @@ export async function main() {
   logger.info({
     SourceFolder: archivalFolder,
     username: config.getBlueskyUsername(),
+    BLUESKY_SERVICE_URL: config.getBlueskyServiceUrl(),
     MIN_DATE: config.getMinDate(),
     MAX_DATE: config.getMaxDate(),
     SIMULATE: config.isSimulateEnabled(),
+    RESUME: config.isResumeEnabled(),
+    JOURNAL_FILE: config.getJournalFile(),
+    DETECT_DUPLICATES: config.isDetectDuplicatesEnabled(),
+    THREAD_SPLIT_POSTS: config.isThreadSplitPostsEnabled(),
+    LOCATION_POLICY: config.getLocationPolicy(),
+    VIDEO_CACHE_FOLDER: config.getVideoCacheFolder(),
+    ALT_TEXT_FILE: config.getAltTextFile(),
+    ALT_TEXT_GENERATOR_URL: config.getAltTextGeneratorUrl(),
+    CAPTION_LANGUAGE: config.getCaptionLanguage(),
+    IMPORT_STORIES: config.isImportStoriesEnabled(),
+    STORIES_MIN_DATE: config.getStoriesMinDate(),
+    STORIES_MAX_DATE: config.getStoriesMaxDate(),
   });
 
   // Setup BlueSky Client only used if SIMULATE is not configured.
   let bluesky: BlueskyClient | null = null;
+  let existingPosts: ExistingPostIndex | null = null;
 
   if (!config.isSimulateEnabled()) {
     logger.info("--- SIMULATE mode is disabled, posts will be imported ---");
     bluesky = new BlueskyClient(
       config.getBlueskyUsername(),
-      config.getBlueskyPassword()
+      config.getBlueskyPassword(),
+      {
+        serviceUrl: config.getBlueskyServiceUrl(),
+        retryPolicy: {
+          retries: config.getRetryCount(),
+          backoff: config.getRetryBackoff(),
+        },
+      }
     );
     await bluesky.login();
+
+    // Posts imported by any previous run are found in the account itself, no journal required.
+    if (config.isDetectDuplicatesEnabled()) {
+      existingPosts = new ExistingPostIndex(await bluesky.listPosts());
+      logger.info(
+        `--- DETECT_DUPLICATES is enabled, found ${existingPosts.size} existing posts ---`
+      );
+    }
   } else {
     logger.warn("--- SIMULATE mode is enabled, no posts will be imported ---");
   }
 
-  // Decide where to fetch post data to process from.
-  let postsJsonPath: string;
-  let reelsJsonPath: string;
-  if (config.isTestModeEnabled()) {
-    postsJsonPath = path.join(archivalFolder, "posts.json");
-    reelsJsonPath = path.join(archivalFolder, "reels.json");
+  // Every created post is journaled so an interrupted import can be resumed.
+  const journal = ImportJournal.load(config.getJournalFile());
+  if (config.isResumeEnabled()) {
     logger.info(
-      `--- TEST mode is enabled, using content from ${archivalFolder} ---`
+      `--- RESUME mode is enabled, ${journal.size} posts in ${config.getJournalFile()} will be skipped ---`
     );
-  } else {
-    postsJsonPath = path.join(
-      archivalFolder,
-      "your_instagram_activity/media/posts_1.json"
-    );
-    reelsJsonPath = path.join(
-      archivalFolder,
-      "your_instagram_activity/media/reels.json"
+  } else if (journal.size > 0) {
+    logger.warn(
+      `Journal ${config.getJournalFile()} already has ${journal.size} posts, set RESUME=1 to skip them.`
     );
   }
 
-  // Read posts and reels data
-  const instaPostsData = readJsonFile(postsJsonPath, 'No posts found. The file path may have changed - please update the env to point to the new folder containing posts_1.json');
-  const reelsJsonData = readJsonFile(reelsJsonPath, 'No reels found. Some accounts don\'t have reels, or the folder may have changed.');
-
-  // Extract reels data (some users don't have reels)
-  const instaReelsData = reelsJsonData['ig_reels_media'] || [];
-
-  // Decode raw JSON data into an object
-  const allInstaPosts: InstagramExportedPost[] = decodeUTF8([
-    ...instaPostsData,
-    ...instaReelsData
-  ]);
+  // First and last post of each source post created or found on Bluesky in this run,
+  // later parts and caption replies continue the thread from them.
+  const threadRoots = new Map<string, PostRef>();
+  const threadTails = new Map<string, PostRef>();
+  // First segment of the current video of each source post, its later segments reply to it
+  // even when split posts are not threaded.
+  const segmentRoots = new Map<string, PostRef>();
 
+  const instaPosts = readInstagramPosts(config);
   // Initialize counters for posts and media.
   let importedPosts = 0;
   let importedMedia = 0;
-  const instaPosts: InstagramExportedPost[] = [];
-
-  // Sort instagram posts by creation timestamp
-  if (allInstaPosts && allInstaPosts.length > 0) {
-    const sortedPosts = allInstaPosts.sort(sortPostsByCreationTime)
-
-    // Preprocess posts before transforming into a normalized format.
-    for (const post of sortedPosts) {
-      let checkDate: Date | undefined;
-      if (post.creation_timestamp) {
-        checkDate = new Date(post.creation_timestamp * 1000);
-      } else if (post.media[0].creation_timestamp) {
-        checkDate = new Date(post.media[0].creation_timestamp * 1000);
-      } else {
-        checkDate = undefined;
-      }
 
-      // Skip posts without a creation date.
-      if (!checkDate) {
-        logger.warn("Skipping post - No date");
-        continue;
-      }
-
-      // If MIN_DATE configured validate the creation date is after the minimum date config.
-      const minDate = config.getMinDate();
-      if (minDate && checkDate && checkDate < minDate) {
-        logger.warn(
-          `Skipping post - Before MIN_DATE: [${checkDate.toUTCString()}]`
-        );
-        continue;
-      }
-
-      // If MAX_DATE configured validate the creation date is before the max date config.
-      const maxDate = config.getMaxDate();
-      if (maxDate && checkDate > maxDate) {
-        logger.warn(
-          `Skipping post - After MAX_DATE [${checkDate.toUTCString()}]`
-        );
-        break;
-      }
-
-      instaPosts.push(post);
-    }
-
-    // Create media processor that can handle multiple data formats.
-    const mediaProcessor = new InstagramMediaProcessor(
-      instaPosts,
-      archivalFolder
-    );
+  if (instaPosts.length > 0) {
+    const mediaProcessor = createMediaProcessor(config, instaPosts);
 
     // Process posts with images and a video.
     const processedPosts = await mediaProcessor.process();
 
-    for (const { postDate, postText, embeddedMedia } of processedPosts) {
+    for (const {
+      postDate,
+      postText,
+      embeddedMedia,
+      sourceId,
+      part,
+      totalParts,
+      textReplies = [],
+      continuesThread = false,
+    } of processedPosts) {
       // If the post does not have a creation date after processing skip.
       if (!postDate) {
         logger.warn("Skipping post - Invalid date");
         continue;
       }
 
-      // If we are not simulating migration we create the post with the embedded media.
-      if (!config.isSimulateEnabled() && bluesky) {
-        await new Promise((resolve) =>
-          setTimeout(resolve, API_RATE_LIMIT_DELAY)
+      let post: PostRef | undefined;
+      const duplicate = existingPosts?.findDuplicate(postDate, postText);
+
+      if (config.isResumeEnabled() && journal.has(sourceId, part)) {
+        // When resuming skip posts created by a previous run.
+        post = journal.get(sourceId, part);
+        logger.info(
+          `Skipping post - Already imported: [${sourceId} Part ${part}/${totalParts}]`
         );
+      } else if (duplicate) {
+        // Skip posts already in the Bluesky account, the thread still continues from them.
+        post = duplicate;
+        logger.info(
+          `Skipping post - Already on Bluesky: [${sourceId} Part ${part}/${totalParts}] ${duplicate.uri}`
+        );
+      } else if (!config.isSimulateEnabled() && bluesky) {
+        // If we are not simulating migration we create the post with the embedded media.
+        const item = `[${sourceId} Part ${part}/${totalParts}]`;
         try {
           // Upload all the embedded media
           const { uploadedMedia, importedMediaCount } =
-            await uploadMediaAndEmbed(postText, embeddedMedia, bluesky);
+            await uploadMediaAndEmbed(embeddedMedia, bluesky, item);
           // Added uploaded media to the counter.
           importedMedia += importedMediaCount;
 
           if (uploadedMedia) {
+            // Parts of a split post can be published as a thread instead of separate posts.
+            let reply: AppBskyFeedPost.ReplyRef | undefined;
+            if ((config.isThreadSplitPostsEnabled() || continuesThread) && part > 1) {
+              reply = createThreadReply(
+                config.isThreadSplitPostsEnabled()
+                  ? threadRoots.get(sourceId)
+                  : segmentRoots.get(sourceId),
+                threadTails.get(sourceId)
+              );
+              if (!reply) {
+                logger.warn(
+                  `Previous part of ${sourceId} was not created, Part ${part} will not be a reply`
+                );
+              }
+            }
+
             // Create post with embedded pre-uploaded data.
-            const postUrl = await bluesky.createPost(
+            const createdPost = await bluesky.createPost(
               postDate,
               postText,
-              uploadedMedia
+              uploadedMedia,
+              reply
             );
 
             // Log successful post creation
-            if (postUrl) {
-              logger.info(`Bluesky post created with url: ${postUrl}`);
-              importedPosts++;
-            }
+            logger.info(`Bluesky post created with url: ${createdPost.url}`);
+            journal.record({
+              sourceId,
+              part,
+              totalParts,
+              uri: createdPost.uri,
+              cid: createdPost.cid,
+              postDate: postDate.toISOString(),
+            });
+            post = createdPost;
+            importedPosts++;
           } else {
             logger.warn("No media uploaded! Check Error logs.");
+            runReport.addFailure(item, "None of its media was uploaded");
           }
         } catch (error) {
-          logger.error(
-            `Failed to create Bluesky post: ${
-              error instanceof Error ? error.message : "Unknown error"
-            }`
-          );
+          const reason = error instanceof Error ? error.message : "Unknown error";
+          logger.error(`Failed to create Bluesky post: ${reason}`);
+          runReport.addFailure(item, reason);
           // Continue with the next post even if this one failed
         }
       } else {
         // We are simulating the migration, incrementing posts to inform the user.
-        importedPosts++;
+        importedPosts += 1 + textReplies.length;
         importedMedia += embeddedMedia.length;
       }
 
+      if (post) {
+        if (part === 1) {
+          threadRoots.set(sourceId, post);
+        }
+        if (!continuesThread) {
+          segmentRoots.set(sourceId, post);
+        }
+        threadTails.set(sourceId, post);
+      }
+
+      // A caption too long for one post continues in text-only replies under the media post.
+      const root = config.isThreadSplitPostsEnabled()
+        ? threadRoots.get(sourceId) ?? post
+        : post;
+      let parent = post;
+      for (const [index, replyText] of textReplies.entries()) {
+        if (config.isSimulateEnabled() || !bluesky) {
+          break;
+        }
+
+        const captionPart = index + 2;
+        const description = `${sourceId} Part ${part}/${totalParts} Caption ${captionPart}/${textReplies.length + 1}`;
+        if (!root || !parent) {
+          logger.warn(`Skipping caption reply - Post was not created: [${description}]`);
+          break;
+        }
+
+        // Milliseconds apart keeps the replies in order without reaching the next part's date.
+        const replyDate = new Date(postDate.getTime() + captionPart - 1);
+        const journaledReply = config.isResumeEnabled()
+          ? journal.get(sourceId, part, captionPart)
+          : undefined;
+        const duplicateReply = existingPosts?.findDuplicate(replyDate, replyText);
+
+        if (journaledReply) {
+          parent = journaledReply;
+          logger.info(`Skipping caption reply - Already imported: [${description}]`);
+          continue;
+        } else if (duplicateReply) {
+          parent = duplicateReply;
+          logger.info(
+            `Skipping caption reply - Already on Bluesky: [${description}] ${duplicateReply.uri}`
+          );
+          continue;
+        }
+
+        let createdReply: CreatedPost;
+        try {
+          createdReply = await bluesky.createPost(
+            replyDate,
+            replyText,
+            undefined,
+            createThreadReply(root, parent)
+          );
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : "Unknown error";
+          logger.warn(`Caption of ${sourceId} is incomplete, reply ${captionPart} was not created`);
+          runReport.addFailure(`[${description}]`, reason);
+          break;
+        }
+
+        logger.info(`Bluesky caption reply created with url: ${createdReply.url}`);
+        journal.record({
+          sourceId,
+          part,
+          totalParts,
+          captionPart,
+          uri: createdReply.uri,
+          cid: createdReply.cid,
+          postDate: replyDate.toISOString(),
+        });
+        parent = createdReply;
+        importedPosts++;
+      }
+      if (parent) {
+        threadTails.set(sourceId, parent);
+      }
+
       // Log the migrated instragram post.
       logger.debug({
         IG_Post: {
@@ -304,7 +609,7 @@ export async function main() {
 
     // If we are simulating the migration we want to inform the user the estimated time it may take.
     if (config.isSimulateEnabled()) {
-      const estimatedTime = calculateEstimatedTime(importedMedia);
+      const estimatedTime = calculateEstimatedTime(importedPosts, importedMedia);
       logger.info(`Estimated time for real import: ${estimatedTime}`);
     }
 
@@ -316,5 +621,6 @@ export async function main() {
     // Inform the user the total time it took to migrate.
     const totalTime = importEnd.getTime() - importStart.getTime();
     logger.info(`Total import time: ${formatDuration(totalTime)}`);
+    runReport.log();
   }
 }
@@ -0,0 +1 @@
+export * from './journal';
\ No newline at end of file
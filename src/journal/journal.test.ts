@@ -0,0 +1,138 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { ImportJournal } from "./journal";
+import { logger } from "../logger/logger";
+
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("ImportJournal", () => {
+  let tempDir: string;
+  let journalFile: string;
+
+  const newEntry = (sourceId: string, part: number = 1) => ({
+    sourceId,
+    part,
+    totalParts: 2,
+    uri: `at://did:plc:test/app.bsky.feed.post/${sourceId}-${part}`,
+    cid: "test-cid",
+    postDate: "2024-01-01T00:00:00.000Z",
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-"));
+    journalFile = path.join(tempDir, "import-journal.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test("should return an empty journal when the file does not exist", () => {
+    const journal = ImportJournal.load(journalFile);
+
+    expect(journal.size).toBe(0);
+    expect(journal.has("media/posts/1.jpg", 1)).toBe(false);
+  });
+
+  test("should append each recorded post to the file", () => {
+    const journal = ImportJournal.load(journalFile, "run-1");
+    journal.record(newEntry("media/posts/1.jpg", 1));
+    journal.record(newEntry("media/posts/1.jpg", 2));
+
+    const lines = fs.readFileSync(journalFile).toString().trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual(
+      expect.objectContaining({
+        runId: "run-1",
+        sourceId: "media/posts/1.jpg",
+        part: 2,
+        uri: "at://did:plc:test/app.bsky.feed.post/media/posts/1.jpg-2",
+        createdAt: expect.any(String),
+      })
+    );
+  });
+
+  test("should find posts recorded by a previous run", () => {
+    const previousRun = ImportJournal.load(journalFile, "run-1");
+    previousRun.record(newEntry("media/posts/1.jpg", 1));
+
+    const journal = ImportJournal.load(journalFile, "run-2");
+
+    expect(journal.size).toBe(1);
+    expect(journal.has("media/posts/1.jpg", 1)).toBe(true);
+    expect(journal.has("media/posts/1.jpg", 2)).toBe(false);
+    expect(journal.get("media/posts/1.jpg", 1)?.runId).toBe("run-1");
+  });
+
+  test("should tell caption replies apart from the media post", () => {
+    const journal = ImportJournal.load(journalFile, "run-1");
+    journal.record({ ...newEntry("a.jpg"), captionPart: 2 });
+
+    expect(journal.has("a.jpg", 1)).toBe(false);
+    expect(journal.has("a.jpg", 1, 2)).toBe(true);
+    expect(ImportJournal.load(journalFile).get("a.jpg", 1, 2)?.captionPart).toBe(2);
+  });
+
+  test("should filter entries by run", () => {
+    ImportJournal.load(journalFile, "run-1").record(newEntry("a.jpg"));
+    ImportJournal.load(journalFile, "run-2").record(newEntry("b.jpg"));
+
+    const journal = ImportJournal.load(journalFile);
+
+    expect(journal.getEntries()).toHaveLength(2);
+    expect(journal.getEntries("run-2").map((entry) => entry.sourceId)).toEqual(["b.jpg"]);
+  });
+
+  test("should ignore a partially written line", () => {
+    ImportJournal.load(journalFile, "run-1").record(newEntry("a.jpg"));
+    fs.appendFileSync(journalFile, '{"runId":"run-1","sourceId":"b.j');
+
+    const journal = ImportJournal.load(journalFile);
+
+    expect(journal.size).toBe(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Ignoring unreadable journal line 2")
+    );
+  });
+
+  test("should record the next entry after a partially written line on a line of its own", () => {
+    ImportJournal.load(journalFile, "run-1").record(newEntry("a.jpg"));
+    fs.appendFileSync(journalFile, '{"runId":"run-1","sourceId":"b.j');
+
+    ImportJournal.load(journalFile, "run-2").record(newEntry("c.jpg"));
+    const journal = ImportJournal.load(journalFile);
+
+    expect(journal.size).toBe(2);
+    expect(journal.has("c.jpg", 1)).toBe(true);
+  });
+
+  test("should return the run of the most recent entry", () => {
+    ImportJournal.load(journalFile, "run-1").record(newEntry("a.jpg"));
+    ImportJournal.load(journalFile, "run-2").record(newEntry("b.jpg"));
+
+    expect(ImportJournal.load(journalFile).getLatestRunId()).toBe("run-2");
+    expect(new ImportJournal(journalFile).getLatestRunId()).toBeUndefined();
+  });
+
+  test("should remove entries and rewrite the file", () => {
+    const journal = ImportJournal.load(journalFile, "run-1");
+    const removed = journal.record(newEntry("a.jpg"));
+    journal.record(newEntry("b.jpg"));
+
+    journal.remove([removed.uri]);
+
+    expect(journal.has("a.jpg", 1)).toBe(false);
+    expect(journal.has("b.jpg", 1)).toBe(true);
+    expect(ImportJournal.load(journalFile).getEntries().map((entry) => entry.sourceId)).toEqual(["b.jpg"]);
+  });
+});
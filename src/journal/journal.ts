@@ -0,0 +1,149 @@
+import FS from "fs";
+
+import { logger } from "../logger/logger";
+
+/**
+ * A single Bluesky post created by an import run.
+ */
+export interface JournalEntry {
+  runId: string;
+  sourceId: string;
+  part: number;
+  totalParts: number;
+  /** Set for the text-only replies continuing a long caption, the media post is caption part 1. */
+  captionPart?: number;
+  uri: string;
+  cid: string;
+  postDate: string;
+  createdAt: string;
+}
+
+export type NewJournalEntry = Omit<JournalEntry, "runId" | "createdAt">;
+
+/**
+ * Append only record of every post created on Bluesky, stored as JSON lines so a crash
+ * mid-import never corrupts what was already written.
+ */
+export class ImportJournal {
+  private readonly entries: JournalEntry[] = [];
+  private readonly entriesByKey = new Map<string, JournalEntry>();
+
+  constructor(
+    public readonly filePath: string,
+    public readonly runId: string = new Date().toISOString()
+  ) {}
+
+  /**
+   * Loads the journal from disk, an empty journal is returned if the file does not exist yet.
+   * @param filePath
+   * @param runId identifier written with every new entry of this run.
+   */
+  static load(filePath: string, runId?: string): ImportJournal {
+    const journal = new ImportJournal(filePath, runId);
+    if (!FS.existsSync(filePath)) {
+      return journal;
+    }
+
+    const content = FS.readFileSync(filePath).toString();
+    // Entries recorded by this run start on a line of their own, not after a partially written one.
+    if (content && !content.endsWith("\n")) {
+      FS.appendFileSync(filePath, "\n");
+    }
+
+    const lines = content.split("\n");
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        journal.add(JSON.parse(line));
+      } catch (error) {
+        // A partially written last line is expected if the process was killed while writing.
+        logger.warn(
+          `Ignoring unreadable journal line ${index + 1} in ${filePath}: ${(error as Error)?.message}`
+        );
+      }
+    }
+
+    logger.debug(`Loaded ${journal.size} journal entries from ${filePath}`);
+    return journal;
+  }
+
+  static entryKey(sourceId: string, part: number, captionPart?: number): string {
+    return captionPart && captionPart > 1
+      ? `${sourceId}#${part}#${captionPart}`
+      : `${sourceId}#${part}`;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Checks if the part of the source post was already created on Bluesky.
+   */
+  has(sourceId: string, part: number, captionPart?: number): boolean {
+    return this.entriesByKey.has(ImportJournal.entryKey(sourceId, part, captionPart));
+  }
+
+  get(sourceId: string, part: number, captionPart?: number): JournalEntry | undefined {
+    return this.entriesByKey.get(ImportJournal.entryKey(sourceId, part, captionPart));
+  }
+
+  /**
+   * Returns all entries, or only the entries of the given run.
+   */
+  getEntries(runId?: string): JournalEntry[] {
+    return runId
+      ? this.entries.filter((entry) => entry.runId === runId)
+      : [...this.entries];
+  }
+
+  /**
+   * Returns the run that created the most recent entry.
+   */
+  getLatestRunId(): string | undefined {
+    return this.entries[this.entries.length - 1]?.runId;
+  }
+
+  /**
+   * Removes entries of posts that no longer exist on Bluesky and rewrites the journal file.
+   * @param uris AT-URIs of the removed posts.
+   */
+  remove(uris: string[]): void {
+    const removed = new Set(uris);
+    const remaining = this.entries.filter((entry) => !removed.has(entry.uri));
+
+    this.entries.length = 0;
+    this.entriesByKey.clear();
+    remaining.forEach((entry) => this.add(entry));
+
+    FS.writeFileSync(
+      this.filePath,
+      remaining.map((entry) => JSON.stringify(entry) + "\n").join("")
+    );
+  }
+
+  /**
+   * Persists a created post immediately so the journal survives a crash on the next post.
+   */
+  record(newEntry: NewJournalEntry): JournalEntry {
+    const entry: JournalEntry = {
+      runId: this.runId,
+      ...newEntry,
+      createdAt: new Date().toISOString(),
+    };
+    FS.appendFileSync(this.filePath, JSON.stringify(entry) + "\n");
+    this.add(entry);
+    return entry;
+  }
+
+  private add(entry: JournalEntry) {
+    this.entries.push(entry);
+    this.entriesByKey.set(
+      ImportJournal.entryKey(entry.sourceId, entry.part, entry.captionPart),
+      entry
+    );
+  }
+}
@@ -1,5 +1,15 @@
 import { main } from "./instagram-to-bluesky";
+import { reviewAltText } from "./review";
+import { rollback } from "./rollback";
+
+const command = process.argv[2];
 
 (async () => {
-    await main();
-})();
\ No newline at end of file
+    if (command === "rollback") {
+        await rollback();
+    } else if (command === "review-alt-text") {
+        await reviewAltText();
+    } else {
+        await main();
+    }
+})();
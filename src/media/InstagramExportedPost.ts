@@ -54,6 +54,7 @@ export type Media = ImageMedia | VideoMedia;
 
 /**
  * Represents posts_1.json data export from Instagram as of 2025/02/11.
+ * Other export versions are mapped onto it by their layout in archive/layouts.ts.
  */
 export interface InstagramExportedPost extends CreationTimestamp {
   media: Media[] | Media;
@@ -1,3 +1,6 @@
+import { AltText } from "../alt/alt";
+import { VideoCaption } from "../video/captions";
+
 /**
  * Social media data processed to be uploaded to Bluesky.
  */
@@ -5,7 +8,12 @@ export interface MediaProcessResult {
   mediaText: string;
   mimeType: string | null;
   mediaBuffer: Buffer | null;
-  aspectRatio: Ratio;
+  // Dimensions as displayed, undefined when they could not be read.
+  aspectRatio?: Ratio;
+  // URI of the media in the archive, shared by the segments of a split video.
+  uri?: string;
+  // Description chosen for the media, the media text can add to it, e.g. the photo location.
+  altText?: AltText;
   // Solution since instanceof did not work.
   getType(): "video" | "image";
 }
@@ -18,7 +26,9 @@ export class ImageMediaProcessResultImpl implements MediaProcessResult {
     public mediaText: string,
     public mimeType: string | null,
     public mediaBuffer: Buffer | null,
-    public aspectRatio: Ratio
+    public aspectRatio?: Ratio,
+    public uri?: string,
+    public altText?: AltText
   ) {}
 
   toJSON() {
@@ -48,7 +58,11 @@ export class VideoMediaProcessResultImpl
     public mediaText: string,
     public mimeType: string | null,
     public mediaBuffer: Buffer | null,
-    public aspectRatio: Ratio
+    public aspectRatio?: Ratio,
+    public uri?: string,
+    public altText?: AltText,
+    // Captions found next to the video, as WebVTT.
+    public captions: VideoCaption[] = []
   ) {}
 
   toJSON() {
@@ -59,6 +73,7 @@ export class VideoMediaProcessResultImpl
         ? "[Buffer length=" + this.mediaBuffer.length + "]"
         : null,
       aspectRatio: this.aspectRatio,
+      captions: this.captions.map(({ lang }) => lang),
     };
   }
 
@@ -8,6 +8,15 @@ export interface ProcessedPost {
   postText: string;
   embeddedMedia: MediaProcessResult[];
   mediaCount: number;
+  // Identifies the instagram post this was created from, stable across runs.
+  sourceId: string;
+  // Position when an instagram post is split into many Bluesky posts.
+  part: number;
+  totalParts: number;
+  // Continuation of a caption too long for a single post, posted as text-only replies.
+  textReplies: string[];
+  // Replies to the previous part even when split posts are not threaded, e.g. the next segment of a long video.
+  continuesThread: boolean;
 }
 
 /**
@@ -16,11 +25,16 @@ export interface ProcessedPost {
 
 export class ProcessedPostImpl implements ProcessedPost {
   public embeddedMedia: MediaProcessResult[] = [];
+  public textReplies: string[] = [];
+  public continuesThread: boolean = false;
   get mediaCount(): number {
     return this.embeddedMedia.length;
   };
   constructor(
     public postDate: Date | null,
-    public postText: string
+    public postText: string,
+    public sourceId: string = "",
+    public part: number = 1,
+    public totalParts: number = 1
   ) {}
 }
@@ -2,19 +2,53 @@ import { Media, VideoMedia, ImageMedia } from "../InstagramExportedPost";
 import { MediaProcessResult } from "../MediaProcessResult";
 import { InstagramImageProcessor } from "./InstagramImageProcessor";
 import { InstagramVideoProcessor } from "./InstagramVideoProcessor";
+import { AltTextProvider } from "../../alt";
+import { LocationPolicy } from "../../image";
+import { VideoSplitter } from "../../video/segment";
+import { VideoTranscoder } from "../../video/transcode";
 import { getMimeType as getVideoMimeType } from "../../video/video";
 import { MediaProcessorFactory } from "../interfaces/MediaProcessorFactory";
 import { ProcessStrategy } from "../interfaces/ProcessStrategy";
 
+/**
+ * Settings of the processors created by the factory.
+ */
+export interface MediaProcessorOptions {
+  // What to share of the location of photos, privacy preserving by default.
+  locationPolicy?: LocationPolicy;
+  // Transcodes videos Bluesky would reject, videos are uploaded as they are when undefined.
+  videoTranscoder?: VideoTranscoder;
+  // Splits videos longer than Bluesky accepts, they are clipped when undefined.
+  videoSplitter?: VideoSplitter;
+  // Chooses the alt text of each media, its title when undefined.
+  altTextProvider?: AltTextProvider;
+  // Language of video caption files without one in their name, English when undefined.
+  captionLanguage?: string;
+}
+
 /**
  * Processor factory that handles images and video.
  */
 export class DefaultMediaProcessorFactory implements MediaProcessorFactory {
+  constructor(private readonly options: MediaProcessorOptions = {}) {}
+
   createProcessor(media: ImageMedia[] | VideoMedia[], archiveFolder: string): ProcessStrategy<MediaProcessResult[]> {
     if (!this.hasVideo(media)) {
-      return new InstagramImageProcessor(media as ImageMedia[], archiveFolder);
+      return new InstagramImageProcessor(
+        media as ImageMedia[],
+        archiveFolder,
+        this.options.locationPolicy,
+        this.options.altTextProvider
+      );
     }
-    return new InstagramVideoProcessor(media as VideoMedia[], archiveFolder);
+    return new InstagramVideoProcessor(
+      media as VideoMedia[],
+      archiveFolder,
+      this.options.videoTranscoder,
+      this.options.videoSplitter,
+      this.options.altTextProvider,
+      this.options.captionLanguage
+    );
   }
 
   hasVideo(media: Media[]) {
@@ -9,6 +9,7 @@ import {
 
 // Mock the file system
 jest.mock("fs", () => ({
+  existsSync: jest.fn(() => true),
   readFileSync: jest.fn(),
 }));
 
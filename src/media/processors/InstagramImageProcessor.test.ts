@@ -1,5 +1,11 @@
+import fs from "fs";
+
 import { InstagramImageProcessor } from "../";
-import { ImageMedia } from "../InstagramExportedPost";
+import { AltTextProvider, SidecarAltTextSource, StubAltTextGenerator, TitleAltTextSource } from "../../alt";
+import { convertImageBuffer, processImageBuffer, stripImageMetadata } from "../../image";
+import { logger } from "../../logger/logger";
+import { runReport } from "../../report";
+import { ExifDaum, ImageMedia } from "../InstagramExportedPost";
 
 // Mock the file system
 jest.mock("fs", () => ({
@@ -62,6 +68,13 @@ jest.mock("@ffprobe-installer/ffprobe", () => ({
   path: "/mock/ffprobe/path",
 }));
 
+jest.mock("../../image", () => ({
+  ...jest.requireActual("../../image"),
+  convertImageBuffer: jest.fn(),
+  processImageBuffer: jest.fn(),
+  stripImageMetadata: jest.fn(),
+}));
+
 // Mock the logger
 jest.mock("../../logger/logger", () => ({
   logger: {
@@ -74,6 +87,10 @@ jest.mock("../../logger/logger", () => ({
 
 
 describe("InstagramImageProcessor", () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
     test("should process multiple images", async () => {
       const mockImages: ImageMedia[] = [
         {
@@ -119,7 +136,93 @@ describe("InstagramImageProcessor", () => {
       expect(result[0].mimeType).toBe("");
     });
   
-    test("should truncate image caption when it exceeds limit", async () => {
+    test("should leave out the aspect ratio of an image without dimensions", async () => {
+      const mockImages: ImageMedia[] = [{
+        uri: "invalid.jpg",
+        title: "Invalid Image",
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: "backup_invalid.jpg",
+      }];
+
+      const processor = new InstagramImageProcessor(mockImages, "/test/archive", "exact");
+      const [result] = await processor.process();
+
+      expect(result.aspectRatio).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Dimensions of image invalid.jpg are unknown, it is posted without an aspect ratio"
+      );
+    });
+  
+    test("should describe each image with the alt text provider and report images without any", async () => {
+      runReport.clear();
+      const mockImages: ImageMedia[] = ["described.jpg", "undescribed.jpg"].map((uri) => ({
+        uri,
+        title: "",
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: `backup_${uri}`,
+      }));
+      const provider = new AltTextProvider([
+        new SidecarAltTextSource(new Map([["described.jpg", "A dog on a beach"]])),
+      ]);
+
+      const processor = new InstagramImageProcessor(mockImages, "/test/archive", "exact", provider);
+      const result = await processor.process();
+
+      expect(result.map((image) => image.mediaText)).toEqual(["A dog on a beach", ""]);
+      expect(runReport.getMissingAltText()).toEqual(["undescribed.jpg"]);
+    });
+
+    test("should report the alt text a review kept as generated", async () => {
+      runReport.clear();
+      const provider = new AltTextProvider([
+        new SidecarAltTextSource(new Map([["beach.jpg", "Waves on a sandy beach"]]), new Map([["beach.jpg", "llava"]])),
+      ]);
+
+      const processor = new InstagramImageProcessor([{
+        uri: "beach.jpg",
+        title: "",
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: "backup_beach.jpg",
+      }], "/test/archive", "exact", provider);
+      await processor.process();
+
+      expect(runReport.getGeneratedAltText()).toEqual(["beach.jpg: llava"]);
+    });
+  
+    test("should generate the alt text of images without any and mark it in the report", async () => {
+      runReport.clear();
+      (fs.readFileSync as jest.Mock).mockReturnValueOnce(Buffer.from("image")).mockReturnValueOnce(Buffer.from("image"));
+      const mockImages: ImageMedia[] = [
+        { uri: "described.jpg", title: "A dog on a beach" },
+        { uri: "undescribed.jpg", title: "" },
+      ].map(({ uri, title }) => ({
+        uri,
+        title,
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: `backup_${uri}`,
+      }));
+      const provider = new AltTextProvider([new TitleAltTextSource()], new StubAltTextGenerator());
+
+      const processor = new InstagramImageProcessor(mockImages, "/test/archive", "exact", provider);
+      const result = await processor.process();
+
+      expect(result.map((image) => image.altText)).toEqual([
+        { text: "A dog on a beach", source: "title" },
+        { text: "Image undescribed.jpg", source: "stub", generated: true },
+      ]);
+      expect(runReport.getGeneratedAltText()).toEqual(["undescribed.jpg: stub"]);
+      expect(runReport.getMissingAltText()).toEqual([]);
+    });
+  
+    test("should keep the full image caption when it exceeds the post limit", async () => {
       const longCaption = "B".repeat(400); // Create a caption longer than POST_TEXT_LIMIT (300)
       const mockImages: ImageMedia[] = [{
         uri: "photo1.jpg",
@@ -134,10 +237,173 @@ describe("InstagramImageProcessor", () => {
       const result = await processor.process();
   
       expect(result).toHaveLength(1);
-      expect(result[0].mediaText.length).toBe(300); // 297 chars + "..."
-      expect(result[0].mediaText.endsWith("...")).toBe(true);
+      expect(result[0].mediaText).toBe(longCaption);
     });
   
+    test("should upload the optimized image of an image over the upload limit", async () => {
+      const largeBuffer = Buffer.alloc(2_000_000);
+      const optimizedBuffer = Buffer.alloc(900_000);
+      (fs.readFileSync as jest.Mock).mockReturnValueOnce(largeBuffer);
+      (processImageBuffer as jest.Mock).mockResolvedValueOnce({
+        buffer: optimizedBuffer,
+        mimeType: "image/jpeg",
+        aspectRatio: { width: 1920, height: 1080 },
+        quality: 80,
+      });
+      runReport.clear();
+
+      const processor = new InstagramImageProcessor([{
+        uri: "media/posts/large.png",
+        title: "Large image",
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: "backup.png",
+      }], "/test/archive");
+      const [result] = await processor.process();
+
+      expect(processImageBuffer).toHaveBeenCalledWith(largeBuffer, "media/posts/large.png", "image/png");
+      expect(result.mediaBuffer).toBe(optimizedBuffer);
+      expect(result.mimeType).toBe("image/jpeg");
+      expect(result.aspectRatio).toEqual({ width: 1920, height: 1080 });
+      expect(runReport.getOptimizations()).toEqual([{
+        item: "media/posts/large.png",
+        description: "compressed from 2 MB to 900 kB, 1920x1080 at quality 80",
+      }]);
+    });
+
+    test("should convert a HEIC image detected from its contents", async () => {
+      const heicBuffer = Buffer.from("\0\0\0\x18ftypheic\0\0\0\0mif1heic", "latin1");
+      const convertedBuffer = Buffer.from("converted");
+      (fs.readFileSync as jest.Mock).mockReturnValueOnce(heicBuffer);
+      (convertImageBuffer as jest.Mock).mockResolvedValueOnce({
+        buffer: convertedBuffer,
+        mimeType: "image/jpeg",
+        aspectRatio: { width: 3024, height: 4032 },
+      });
+      runReport.clear();
+
+      // Instagram exports keep the .jpg extension of some HEIC photos.
+      const processor = new InstagramImageProcessor([{
+        uri: "media/posts/photo.jpg",
+        title: "HEIC image",
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: "backup.jpg",
+      }], "/test/archive");
+      const [result] = await processor.process();
+
+      expect(convertImageBuffer).toHaveBeenCalledWith(heicBuffer, "media/posts/photo.jpg", "image/heic");
+      expect(result.mediaBuffer).toBe(convertedBuffer);
+      expect(result.mimeType).toBe("image/jpeg");
+      expect(result.aspectRatio).toEqual({ width: 3024, height: 4032 });
+      expect(runReport.getOptimizations()).toEqual([{
+        item: "media/posts/photo.jpg",
+        description: "converted from image/heic to image/jpeg",
+      }]);
+    });
+
+    test("should skip a HEIC image that can not be converted", async () => {
+      const heicBuffer = Buffer.from("\0\0\0\x18ftypheic\0\0\0\0mif1heic", "latin1");
+      (fs.readFileSync as jest.Mock).mockReturnValueOnce(heicBuffer);
+      (convertImageBuffer as jest.Mock).mockResolvedValueOnce(null);
+      runReport.clear();
+
+      const processor = new InstagramImageProcessor([{
+        uri: "media/posts/photo.heic",
+        title: "HEIC image",
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: "backup.heic",
+      }], "/test/archive");
+      const results = await processor.process();
+
+      expect(results).toEqual([]);
+      expect(runReport.getFailures()).toEqual([{
+        item: "media/posts/photo.heic",
+        reason: "Could not convert its image/heic format, which Bluesky does not display",
+      }]);
+    });
+
+    test("should not optimize an image within the upload limit", async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValueOnce(Buffer.alloc(500_000));
+
+      const processor = new InstagramImageProcessor([{
+        uri: "photo1.jpg",
+        title: "Image 1",
+        creation_timestamp: 1234567890,
+        media_metadata: {},
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: "backup1.jpg",
+      }], "/test/archive");
+      const [result] = await processor.process();
+
+      expect(processImageBuffer).not.toHaveBeenCalled();
+      expect(convertImageBuffer).not.toHaveBeenCalled();
+      expect(result.mediaBuffer?.length).toBe(500_000);
+      expect(result.aspectRatio).toEqual({ width: 1080, height: 1080 });
+    });
+
+    describe("location policy", () => {
+      const photo = (latitude: number, longitude: number): ImageMedia => ({
+        uri: "photo1.jpg",
+        title: "Beach",
+        creation_timestamp: 1234567890,
+        media_metadata: { photo_metadata: { exif_data: [{ latitude, longitude } as ExifDaum] } },
+        cross_post_source: { source_app: "Instagram" },
+        backup_uri: "backup1.jpg",
+      });
+
+      test("should strip the metadata and leave out the location by default", async () => {
+        const strippedBuffer = Buffer.from("stripped");
+        (fs.readFileSync as jest.Mock).mockReturnValueOnce(Buffer.from([0xff, 0xd8, 0xff, 0xe1]));
+        (stripImageMetadata as jest.Mock).mockResolvedValueOnce({
+          buffer: strippedBuffer,
+          mimeType: "image/jpeg",
+          aspectRatio: { width: 1080, height: 1350 },
+        });
+
+        const [result] = await new InstagramImageProcessor([photo(-33.856784, 151.215297)], "/test/archive").process();
+
+        expect(stripImageMetadata).toHaveBeenCalledWith(expect.any(Buffer), "photo1.jpg", "image/jpeg", "all");
+        expect(result.mediaBuffer).toBe(strippedBuffer);
+        expect(result.aspectRatio).toEqual({ width: 1080, height: 1350 });
+        expect(result.mediaText).toBe("Beach");
+      });
+
+      test("should leave out the location and only remove the GPS location of the image with the drop policy", async () => {
+        const withoutLocation = Buffer.from("without location");
+        (fs.readFileSync as jest.Mock).mockReturnValueOnce(Buffer.from([0xff, 0xd8, 0xff, 0xe1]));
+        (stripImageMetadata as jest.Mock).mockResolvedValueOnce({
+          buffer: withoutLocation,
+          mimeType: "image/jpeg",
+          aspectRatio: { width: 1080, height: 1350 },
+        });
+
+        const [result] = await new InstagramImageProcessor([photo(-33.856784, 151.215297)], "/test/archive", "drop").process();
+
+        expect(stripImageMetadata).toHaveBeenCalledWith(expect.any(Buffer), "photo1.jpg", "image/jpeg", "location");
+        expect(result.mediaBuffer).toBe(withoutLocation);
+        expect(result.mediaText).toBe("Beach");
+      });
+
+      test("should add the location rounded to a city with the city policy", async () => {
+        const [result] = await new InstagramImageProcessor([photo(-33.856784, -70.64827)], "/test/archive", "city").process();
+
+        expect(result.mediaText).toBe("Beach\nPhoto taken near these geographical coordinates: geo:-33.9,-70.6");
+      });
+
+      test("should add the exact location of the southern hemisphere with the exact policy", async () => {
+        (fs.readFileSync as jest.Mock).mockReturnValueOnce(Buffer.from([0xff, 0xd8, 0xff, 0xe1]));
+        const [result] = await new InstagramImageProcessor([photo(-33.856784, 151.215297)], "/test/archive", "exact").process();
+
+        expect(stripImageMetadata).toHaveBeenCalledWith(expect.any(Buffer), "photo1.jpg", "image/jpeg", "location");
+        expect(result.mediaText).toBe("Beach\nPhoto taken at these geographical coordinates: geo:-33.856784,151.215297");
+      });
+    });
+
     test("should limit to maximum allowed images when processing multiple images", async () => {
       const mockImages: ImageMedia[] = Array(6).fill(null).map((_, index) => ({
         uri: `photo${index + 1}.jpg`,
@@ -1,22 +1,39 @@
-import { getImageMimeType, getImageSize } from "../../image";
+import byteSize from "byte-size";
+
+import { AltTextProvider } from "../../alt";
+import { openArchive } from "../../archive/archive";
+import {
+  convertImageBuffer,
+  DEFAULT_LOCATION_POLICY,
+  detectImageMimeType,
+  formatLocation,
+  getImageMimeType,
+  getImageSize,
+  isDisplayableImageMimeType,
+  isImageTooLarge,
+  LocationPolicy,
+  processImageBuffer,
+  stripImageMetadata,
+  stripsImageMetadata
+} from "../../image";
 import { logger } from "../../logger/logger";
+import { runReport } from "../../report";
 import { ImageMedia, Media } from "../InstagramExportedPost";
 import { ImageMediaProcessingStrategy } from "../interfaces/ImageMediaProcessingStrategy";
 import { MediaProcessResult, ImageMediaProcessResultImpl } from "../MediaProcessResult";
 import { getMediaBuffer } from "../utils";
 
 
-const POST_TEXT_LIMIT = 300;
-const POST_TEXT_TRUNCATE_SUFFIX = "...";
-
 export class InstagramImageProcessor implements ImageMediaProcessingStrategy {
   constructor(
     public instagramImages: ImageMedia[],
-    public archiveFolder: string
+    public archiveFolder: string,
+    public locationPolicy: LocationPolicy = DEFAULT_LOCATION_POLICY,
+    public altTextProvider: AltTextProvider = new AltTextProvider()
   ) {}
 
-  process(): Promise<MediaProcessResult[]> {
-    const processingResults: Promise<MediaProcessResult>[] = [];
+  async process(): Promise<MediaProcessResult[]> {
+    const processingResults: Promise<MediaProcessResult | undefined>[] = [];
     
     // Process each image in the array (no need to limit here as that's handled by InstagramMediaProcessor)
     for (const media of this.instagramImages) {
@@ -24,8 +41,8 @@ export class InstagramImageProcessor implements ImageMediaProcessingStrategy {
       processingResults.push(processedMedia);
     }
 
-    // Return all images being processed as a single promise.
-    return Promise.all(processingResults);
+    // Return all images being processed as a single promise, without the skipped ones.
+    return (await Promise.all(processingResults)).filter((result) => result !== undefined);
   }
 
   public getMimeType(fileType: string): string {
@@ -36,40 +53,90 @@ export class InstagramImageProcessor implements ImageMediaProcessingStrategy {
    * Transforms image from instragrams export to a normalized processed result.
    * @param media
    * @param archiveFolder
-   * @returns Promise<MediaProcessResult>
+   * @returns Promise<MediaProcessResult>, undefined when the image is skipped.
    */
   private async processMedia(
     media: Media,
     archiveFolder: string
-  ): Promise<ImageMediaProcessResultImpl> {
+  ): Promise<ImageMediaProcessResultImpl | undefined> {
     const fileType = media.uri.substring(media.uri.lastIndexOf(".") + 1);
-    const mimeType = this.getMimeType(fileType);
-    const mediaBuffer = getMediaBuffer(archiveFolder, media);
-    const aspectRatio = await getImageSize(`${archiveFolder}/${media.uri}`);
+    let mediaBuffer = getMediaBuffer(archiveFolder, media);
+    let mimeType =
+      (mediaBuffer && detectImageMimeType(mediaBuffer)) || this.getMimeType(fileType);
+    // Images in a ZIP file are only read from their buffer.
+    const filePath = openArchive(archiveFolder).getPath(media.uri);
+    let aspectRatio =
+      (filePath ? await getImageSize(filePath) : null) ??
+      (mediaBuffer ? await getImageSize(mediaBuffer) : null);
+
+    const converted =
+      mediaBuffer && mimeType && !isDisplayableImageMimeType(mimeType)
+        ? await convertImageBuffer(mediaBuffer, media.uri, mimeType)
+        : null;
+    if (mediaBuffer && converted) {
+      runReport.addOptimization(media.uri, `converted from ${mimeType} to ${converted.mimeType}`);
+      ({ buffer: mediaBuffer, mimeType, aspectRatio } = converted);
+    } else if (mediaBuffer && mimeType && !isDisplayableImageMimeType(mimeType)) {
+      // Bluesky would accept the upload but show a broken image.
+      logger.warn(`Skipping image ${media.uri}, its ${mimeType} format could not be converted`);
+      runReport.addFailure(media.uri, `Could not convert its ${mimeType} format, which Bluesky does not display`);
+      return undefined;
+    }
+
+    // Converted images already lost their metadata. The GPS location is removed from every
+    // uploaded image, the post shares the location the policy allows.
+    if (mediaBuffer && !converted) {
+      const scope = stripsImageMetadata(this.locationPolicy) ? "all" : "location";
+      const stripped = await stripImageMetadata(mediaBuffer, media.uri, mimeType, scope);
+      if (stripped) {
+        ({ buffer: mediaBuffer, mimeType, aspectRatio } = stripped);
+      }
+    }
 
-    let mediaText = media.title ?? "";
-    if (
-      media.media_metadata?.photo_metadata?.exif_data &&
-      media.media_metadata.photo_metadata.exif_data.length > 0
-    ) {
-      const location = media.media_metadata.photo_metadata.exif_data[0];
-      const { latitude, longitude } = location || {};
-      if (latitude && latitude > 0) {
-        mediaText += `\nPhoto taken at these geographical coordinates: geo:${latitude},${longitude}`;
+    if (mediaBuffer && isImageTooLarge(mediaBuffer)) {
+      const optimized = await processImageBuffer(mediaBuffer, media.uri, mimeType);
+      if (optimized) {
+        runReport.addOptimization(
+          media.uri,
+          `compressed from ${byteSize(mediaBuffer.length)} to ${byteSize(optimized.buffer.length)}, ` +
+            `${optimized.aspectRatio.width}x${optimized.aspectRatio.height} at quality ${optimized.quality}`
+        );
+        ({ buffer: mediaBuffer, mimeType, aspectRatio } = optimized);
       }
     }
 
-    let truncatedText = mediaText;
-    if (mediaText.length > POST_TEXT_LIMIT) {
-      logger.info(`Truncating image caption from ${mediaText.length} to ${POST_TEXT_LIMIT} characters`);
-      truncatedText = mediaText.substring(0, POST_TEXT_LIMIT- POST_TEXT_TRUNCATE_SUFFIX.length) + POST_TEXT_TRUNCATE_SUFFIX;
+    let altText = this.altTextProvider.getAltText(media);
+    if (!altText.text && mediaBuffer) {
+      altText = await this.altTextProvider.generateAltText(media, mediaBuffer, mimeType);
+    }
+    if (altText.generated) {
+      runReport.addGeneratedAltText(`${media.uri}: ${altText.source}`);
+    } else if (!altText.text) {
+      runReport.addMissingAltText(media.uri);
+    }
+
+    let mediaText = altText.text;
+    const { latitude, longitude } =
+      media.media_metadata?.photo_metadata?.exif_data?.find(
+        (exif) => exif.latitude !== undefined && exif.longitude !== undefined
+      ) ?? {};
+    const location = formatLocation(latitude, longitude, this.locationPolicy);
+    if (location) {
+      const precision = this.locationPolicy === "city" ? "near" : "at";
+      mediaText += `\nPhoto taken ${precision} these geographical coordinates: ${location}`;
+    }
+
+    if (!aspectRatio) {
+      logger.warn(`Dimensions of image ${media.uri} are unknown, it is posted without an aspect ratio`);
     }
 
     return new ImageMediaProcessResultImpl(
-      truncatedText,
+      mediaText,
       mimeType,
       mediaBuffer!,
-      aspectRatio!
+      aspectRatio ?? undefined,
+      media.uri,
+      altText
     );
   }
 } 
\ No newline at end of file
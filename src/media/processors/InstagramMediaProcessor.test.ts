@@ -1,11 +1,14 @@
 import fs from "fs";
 
+import { DefaultMediaProcessorFactory } from "./DefaultMediaProcessorFactory";
 import { InstagramMediaProcessor } from "./InstagramMediaProcessor";
 import { logger } from "../../logger/logger";
+import { VideoSplitter } from "../../video/segment";
 import { InstagramExportedPost, VideoMedia, ImageMedia } from "../InstagramExportedPost";
 
 // Mock the file system
 jest.mock("fs", () => ({
+  existsSync: jest.fn(() => true),
   readFileSync: jest.fn(),
 }));
 
@@ -141,6 +144,26 @@ describe("InstagramMediaProcessor", () => {
       expect(Array.isArray(result[0].embeddedMedia)).toBe(true);
     });
 
+    test("should tell a video without dubbing info apart by its file type", async () => {
+      const mockPost: InstagramExportedPost = {
+        creation_timestamp: 1234567890,
+        title: "Story from 2009-02-13",
+        media: [
+          { uri: "media/stories/photo.jpg", title: "", creation_timestamp: 1234567890 },
+          { uri: "media/stories/video.MP4", title: "", creation_timestamp: 1234567891 },
+        ] as ImageMedia[],
+      };
+
+      const processor = new InstagramMediaProcessor([mockPost], mockArchiveFolder);
+      const result = await processor.process();
+
+      expect(result.map(({ postText }) => postText)).toEqual([
+        "Story from 2009-02-13 (Part 1/2)",
+        "Story from 2009-02-13 (Part 2/2)",
+      ]);
+      expect(result[0].embeddedMedia).toHaveLength(1);
+    });
+
     test("should process a post with mixed media (images and videos)", async () => {
       const mockPost: InstagramExportedPost = {
         creation_timestamp: 1720384531,
@@ -266,7 +289,7 @@ describe("InstagramMediaProcessor", () => {
       expect(result[3].embeddedMedia[0].mimeType).toBe("video/mp4");
     });
 
-    test("should truncate post title when it exceeds limit", async () => {
+    test("should continue a long title in text replies", async () => {
       const longTitle = "A".repeat(400); // Create a title longer than POST_TEXT_LIMIT (300)
       const mockPost: InstagramExportedPost = {
         creation_timestamp: 1234567890,
@@ -287,8 +310,57 @@ describe("InstagramMediaProcessor", () => {
       const result = await processor.process();
 
       expect(result).toHaveLength(1);
-      expect(result[0].postText.length).toBe(300); // 297 chars + "..."
-      expect(result[0].postText.endsWith("...")).toBe(true);
+      expect(result[0].postText).toBe("A".repeat(292) + " (1/2)");
+      expect(result[0].textReplies).toEqual(["A".repeat(108) + " (2/2)"]);
+    });
+
+    test("should count the title length in graphemes", async () => {
+      const emojiTitle = "🌊".repeat(290);
+      const mockPost: InstagramExportedPost = {
+        creation_timestamp: 1234567890,
+        title: emojiTitle,
+        media: [
+          {
+            uri: "photo1.jpg",
+            title: "Image 1",
+            creation_timestamp: 1234567890,
+            media_metadata: {},
+            cross_post_source: { source_app: "Instagram" },
+            backup_uri: "backup1.jpg",
+          },
+        ] as ImageMedia[],
+      };
+
+      const processor = new InstagramMediaProcessor([mockPost], mockArchiveFolder);
+      const result = await processor.process();
+
+      expect(result[0].postText).toBe(emojiTitle);
+      expect(result[0].textReplies).toEqual([]);
+    });
+
+    test("should split a long title between sentences and only continue it from the first part", async () => {
+      const sentence = "This sentence is exactly fifty characters long ok.";
+      const mockPost: InstagramExportedPost = {
+        creation_timestamp: 1234567890,
+        title: Array(8).fill(sentence).join(" "),
+        media: Array(5).fill(null).map((_, index) => ({
+          uri: `photo${index + 1}.jpg`,
+          title: "",
+          creation_timestamp: 1234567890,
+          media_metadata: {},
+          cross_post_source: { source_app: "Instagram" },
+          backup_uri: `backup${index + 1}.jpg`,
+        })) as ImageMedia[],
+      };
+
+      const processor = new InstagramMediaProcessor([mockPost], mockArchiveFolder);
+      const result = await processor.process();
+
+      expect(result).toHaveLength(2);
+      expect(result[0].postText).toBe(Array(5).fill(sentence).join(" ") + " (1/2) (Part 1/2)");
+      expect(result[0].textReplies).toEqual([Array(3).fill(sentence).join(" ") + " (2/2)"]);
+      expect(result[1].postText).toBe(Array(5).fill(sentence).join(" ") + "... (Part 2/2)");
+      expect(result[1].textReplies).toEqual([]);
     });
 
     test("should use media title if no post title is available", async () => {
@@ -557,6 +629,135 @@ describe("InstagramMediaProcessor", () => {
       expect(result[1].postText).toContain("(Part 2/2)");
     });
 
+    test("should identify split posts by their source post and part", async () => {
+      const mockPost: InstagramExportedPost = {
+        creation_timestamp: 1234567890,
+        title: "Test Post with Many Images",
+        media: Array(5).fill(null).map((_, index) => ({
+          uri: `photo${index + 1}.jpg`,
+          title: "",
+          creation_timestamp: 1234567890,
+          media_metadata: {},
+          cross_post_source: { source_app: "Instagram" },
+          backup_uri: `backup${index + 1}.jpg`,
+        })) as ImageMedia[],
+      };
+
+      const processor = new InstagramMediaProcessor([mockPost], mockArchiveFolder);
+      const result = await processor.process();
+
+      expect(result.map(({ sourceId, part, totalParts }) => ({ sourceId, part, totalParts }))).toEqual([
+        { sourceId: "photo1.jpg", part: 1, totalParts: 2 },
+        { sourceId: "photo1.jpg", part: 2, totalParts: 2 },
+      ]);
+    });
+
+    test("should post the segments of a long video as numbered parts continuing the thread", async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from("video"));
+      const splitter = { split: jest.fn().mockResolvedValue(["segment-000.mp4", "segment-001.mp4"]) };
+      const mockPost: InstagramExportedPost = {
+        creation_timestamp: 1234567890,
+        title: "Long Reel",
+        media: [
+          {
+            uri: "photo.jpg",
+            title: "",
+            creation_timestamp: 1234567890,
+            media_metadata: {},
+            cross_post_source: { source_app: "Instagram" },
+            backup_uri: "backup_photo.jpg",
+          } as ImageMedia,
+          {
+            uri: "long.mp4",
+            title: "",
+            creation_timestamp: 1234567890,
+            media_metadata: {},
+            cross_post_source: { source_app: "Instagram" },
+            backup_uri: "backup_long.mp4",
+            dubbing_info: [],
+            media_variants: [],
+          } as VideoMedia,
+        ],
+      };
+
+      const processor = new InstagramMediaProcessor(
+        [mockPost],
+        mockArchiveFolder,
+        new DefaultMediaProcessorFactory({ videoSplitter: splitter as unknown as VideoSplitter })
+      );
+      const result = await processor.process();
+
+      expect(result.map(({ postText, part, totalParts, continuesThread, mediaCount }) =>
+        ({ postText, part, totalParts, continuesThread, mediaCount })
+      )).toEqual([
+        { postText: "Long Reel (Part 1/3)", part: 1, totalParts: 3, continuesThread: false, mediaCount: 1 },
+        { postText: "Long Reel (Part 2/3)", part: 2, totalParts: 3, continuesThread: false, mediaCount: 1 },
+        { postText: "Long Reel (Part 3/3)", part: 3, totalParts: 3, continuesThread: true, mediaCount: 1 },
+      ]);
+    });
+
+    test("should not number or post images that could not be converted", async () => {
+      // The mocked sharp can not convert the HEIC images, the first chunk has none left.
+      const mockPost: InstagramExportedPost = {
+        creation_timestamp: 1234567890,
+        title: "Beach",
+        media: ["1.heic", "2.heic", "3.heic", "4.heic", "5.jpg"].map((uri) => ({
+          uri,
+          title: "",
+          creation_timestamp: 1234567890,
+          media_metadata: {},
+          cross_post_source: { source_app: "Instagram" },
+          backup_uri: `backup_${uri}`,
+        })) as ImageMedia[],
+      };
+
+      const processor = new InstagramMediaProcessor([mockPost], mockArchiveFolder);
+      const result = await processor.process();
+
+      expect(result.map(({ postText, part, totalParts, mediaCount }) => ({ postText, part, totalParts, mediaCount }))).toEqual([
+        { postText: "Beach", part: 1, totalParts: 1, mediaCount: 1 },
+      ]);
+    });
+
+    test("should not number or post a skipped video", async () => {
+      // The size of a video over the limit, without allocating it.
+      const tooLarge = Object.defineProperty(Buffer.from("video"), "length", { value: 200 * 1024 * 1024 });
+      (fs.readFileSync as jest.Mock).mockImplementation((path: string) =>
+        path.endsWith(".mp4") ? tooLarge : Buffer.from("test")
+      );
+      const mockPost: InstagramExportedPost = {
+        creation_timestamp: 1234567890,
+        title: "Beach",
+        media: [
+          {
+            uri: "photo.jpg",
+            title: "",
+            creation_timestamp: 1234567890,
+            media_metadata: {},
+            cross_post_source: { source_app: "Instagram" },
+            backup_uri: "backup_photo.jpg",
+          } as ImageMedia,
+          {
+            uri: "large.mp4",
+            title: "",
+            creation_timestamp: 1234567890,
+            media_metadata: {},
+            cross_post_source: { source_app: "Instagram" },
+            backup_uri: "backup_large.mp4",
+            dubbing_info: [],
+            media_variants: [],
+          } as VideoMedia,
+        ],
+      };
+
+      const processor = new InstagramMediaProcessor([mockPost], mockArchiveFolder);
+      const result = await processor.process();
+
+      expect(result.map(({ postText, part, totalParts, mediaCount }) => ({ postText, part, totalParts, mediaCount }))).toEqual([
+        { postText: "Beach", part: 1, totalParts: 1, mediaCount: 1 },
+      ]);
+    });
+
     test("should log debug messages when splitting media", async () => {
       const mockPost: InstagramExportedPost = {
         creation_timestamp: 1234567890,
@@ -1,8 +1,17 @@
 import { logger } from "../../logger/logger";
+import {
+  fitsTextLimit,
+  getGraphemeLength,
+  getPostTextLimit,
+  POST_TEXT_TRUNCATE_SUFFIX,
+  splitText,
+} from "../../text";
+import { getMimeType as getVideoMimeType } from "../../video/video";
 import { InstagramExportedPost, Media, ImageMedia, VideoMedia } from "../InstagramExportedPost";
 import { DefaultMediaProcessorFactory } from "./DefaultMediaProcessorFactory";
 import { InstagramPostProcessingStrategy } from "../interfaces/InstagramPostProcessingStrategy";
 import { MediaProcessorFactory } from "../interfaces/MediaProcessorFactory";
+import { MediaProcessResult } from "../MediaProcessResult";
 import { ProcessedPost, ProcessedPostImpl } from "../ProcessedPost";
 
 /**
@@ -10,8 +19,8 @@ import { ProcessedPost, ProcessedPostImpl } from "../ProcessedPost";
  * "Each post contains up to four images, and each image can have its own alt text and aspect ratio."
  */
 const MAX_IMAGES_PER_POST = 4;
-const POST_TEXT_LIMIT = 300;
-const POST_TEXT_TRUNCATE_SUFFIX = "...";
+// Room left in each caption chunk for its number, e.g. " (2/3)".
+const CAPTION_NUMBER_RESERVE = " (99/99)".length;
 
 export class InstagramMediaProcessor implements InstagramPostProcessingStrategy {
   readonly mediaProcessorFactory: MediaProcessorFactory;
@@ -24,8 +33,12 @@ export class InstagramMediaProcessor implements InstagramPostProcessingStrategy
     this.mediaProcessorFactory = mediaProcessorFactory || new DefaultMediaProcessorFactory();
   }
 
+  /**
+   * Videos of posts have dubbing info, those of stories and of older or HTML exports are told apart by their file type.
+   */
   private isVideoMedia(media: Media): media is VideoMedia {
-    return 'dubbing_info' in media;
+    const fileType = media.uri?.substring(media.uri.lastIndexOf(".") + 1) ?? "";
+    return 'dubbing_info' in media || getVideoMimeType(fileType).startsWith("video/");
   }
 
   private splitMediaByType(media: Media[]): { images: ImageMedia[], videos: VideoMedia[] } {
@@ -49,6 +62,42 @@ export class InstagramMediaProcessor implements InstagramPostProcessingStrategy
     return result;
   }
 
+  /**
+   * Instagram exports have no post id, the first media file is unique per post and does not change between exports.
+   */
+  private getSourceId(post: InstagramExportedPost): string {
+    const firstMedia = Array.isArray(post.media) ? post.media[0] : post.media;
+    return firstMedia?.uri ?? `${post.creation_timestamp}`;
+  }
+
+  /**
+   * Adds the part suffix to the caption. A caption too long for one post continues in
+   * numbered text-only replies under the first part, the other parts only start the caption.
+   */
+  private createPostText(
+    caption: string,
+    part: number,
+    totalPosts: number
+  ): { postText: string; textReplies: string[] } {
+    const suffix = totalPosts > 1 ? ` (Part ${part}/${totalPosts})` : "";
+    if (fitsTextLimit(caption + suffix)) {
+      return { postText: caption + suffix, textReplies: [] };
+    }
+
+    const chunks = splitText(caption, getPostTextLimit(suffix.length + CAPTION_NUMBER_RESERVE));
+    if (part > 1) {
+      return { postText: chunks[0] + POST_TEXT_TRUNCATE_SUFFIX + suffix, textReplies: [] };
+    }
+
+    logger.debug(`Caption of ${getGraphemeLength(caption)} graphemes continues in ${chunks.length - 1} replies`);
+    return {
+      postText: `${chunks[0]} (1/${chunks.length})${suffix}`,
+      textReplies: chunks
+        .slice(1)
+        .map((chunk, index) => `${chunk} (${index + 2}/${chunks.length})`),
+    };
+  }
+
   private async createPostsFromMedia(
     originalPost: InstagramExportedPost,
     images: ImageMedia[],
@@ -65,6 +114,7 @@ export class InstagramMediaProcessor implements InstagramPostProcessingStrategy
     const posts: ProcessedPost[] = [];
     const timestamp = originalPost.creation_timestamp || originalPost.media[0].creation_timestamp;
     const basePostDate = new Date(timestamp * 1000);
+    const sourceId = this.getSourceId(originalPost);
     
     // Split images into chunks of MAX_IMAGES_PER_POST
     const imageChunks: ImageMedia[][] = [];
@@ -72,11 +122,39 @@ export class InstagramMediaProcessor implements InstagramPostProcessingStrategy
       imageChunks.push(images.slice(i, i + MAX_IMAGES_PER_POST));
     }
 
+    // Process videos first, a video too long for one post is split into several segments.
+    // A skipped video has no results and gets no post, it is not counted in the parts.
+    const videoSegments: { video: VideoMedia; segments: MediaProcessResult[][] }[] = [];
+    for (const video of videos) {
+      const mediaProcessor = this.mediaProcessorFactory.createProcessor(
+        [video] as VideoMedia[],
+        this.archiveFolder
+      );
+      const results = await mediaProcessor.process();
+      if (results.length > 0) {
+        videoSegments.push({ video, segments: results.length > 1 ? results.map((result) => [result]) : [results] });
+      }
+    }
+
+    // Skipped images have no result, a chunk without any gets no post and is not counted in the parts.
+    const imagePosts: { imageChunk: ImageMedia[]; embeddedMedia: MediaProcessResult[] }[] = [];
+    for (const imageChunk of imageChunks) {
+      const mediaProcessor = this.mediaProcessorFactory.createProcessor(
+        imageChunk as ImageMedia[],
+        this.archiveFolder
+      );
+      const embeddedMedia = await mediaProcessor.process();
+      if (embeddedMedia.length > 0) {
+        imagePosts.push({ imageChunk, embeddedMedia });
+      }
+    }
+
     // Calculate total number of posts
-    const totalPosts = imageChunks.length + videos.length;
+    const segmentCount = videoSegments.reduce((count, { segments }) => count + segments.length, 0);
+    const totalPosts = imagePosts.length + segmentCount;
     logger.debug({
       title: postTitle,
-      imageChunks: imageChunks.length,
+      imageChunks: imagePosts.length,
       totalPosts,
       firstMediaUri: originalPost.media[0]?.uri
     }, 'Calculated post distribution');
@@ -84,33 +162,15 @@ export class InstagramMediaProcessor implements InstagramPostProcessingStrategy
     let currentPostNumber = 1;
 
     // Create posts for image chunks
-    for (const imageChunk of imageChunks) {
-      let title = originalPost.title ?? originalPost.media[0].title ?? "";
-      
-      // Calculate the suffix that will be added
-      const suffix = totalPosts > 1 ? ` (Part ${currentPostNumber}/${totalPosts})` : "";
-      
-      // If we need to truncate, we need to account for the length of the suffix
-      if (title.length + suffix.length > POST_TEXT_LIMIT) {
-        const maxTitleLength = POST_TEXT_LIMIT - suffix.length - POST_TEXT_TRUNCATE_SUFFIX.length;
-        title = title.substring(0, maxTitleLength) + POST_TEXT_TRUNCATE_SUFFIX;
-      }
-      
-      // Add the suffix after truncation
-      if (totalPosts > 1) {
-        title += suffix;
-      }
+    for (const { imageChunk, embeddedMedia } of imagePosts) {
+      const caption = originalPost.title ?? originalPost.media[0].title ?? "";
+      const { postText, textReplies } = this.createPostText(caption, currentPostNumber, totalPosts);
 
       // Add a small time offset for each post (1 second)
       const postDate = new Date(basePostDate.getTime() + (currentPostNumber - 1) * 1000);
-      const post = new ProcessedPostImpl(postDate, title);
-      const mediaProcessor = this.mediaProcessorFactory.createProcessor(
-        imageChunk as ImageMedia[],
-        this.archiveFolder
-      );
-      
-      // Process media for this post
-      post.embeddedMedia = await mediaProcessor.process();
+      const post = new ProcessedPostImpl(postDate, postText, sourceId, currentPostNumber, totalPosts);
+      post.textReplies = textReplies;
+      post.embeddedMedia = embeddedMedia;
       posts.push(post);
 
       logger.debug({
@@ -126,46 +186,33 @@ export class InstagramMediaProcessor implements InstagramPostProcessingStrategy
       currentPostNumber++;
     }
 
-    // Create individual posts for each video
-    for (const video of videos) {
-      let title = originalPost.title ?? video.title ?? "";
-      
-      // Calculate the suffix that will be added
-      const suffix = totalPosts > 1 ? ` (Part ${currentPostNumber}/${totalPosts})` : "";
-      
-      // If we need to truncate, we need to account for the length of the suffix
-      if (title.length + suffix.length > POST_TEXT_LIMIT) {
-        const maxTitleLength = POST_TEXT_LIMIT - suffix.length - POST_TEXT_TRUNCATE_SUFFIX.length;
-        title = title.substring(0, maxTitleLength) + POST_TEXT_TRUNCATE_SUFFIX;
-      }
-      
-      // Add the suffix after truncation
-      if (totalPosts > 1) {
-        title += suffix;
-      }
+    // Create individual posts for each video, and for each segment of a split video
+    for (const { video, segments } of videoSegments) {
+      for (const [segmentIndex, embeddedMedia] of segments.entries()) {
+        const caption = originalPost.title ?? video.title ?? "";
+        const { postText, textReplies } = this.createPostText(caption, currentPostNumber, totalPosts);
 
-      // Add a small time offset for each post (1 second)
-      const postDate = new Date(basePostDate.getTime() + (currentPostNumber - 1) * 1000);
-      const post = new ProcessedPostImpl(postDate, title);
-      const mediaProcessor = this.mediaProcessorFactory.createProcessor(
-        [video] as VideoMedia[],
-        this.archiveFolder
-      );
-      
-      // Process media for this post
-      post.embeddedMedia = await mediaProcessor.process();
-      posts.push(post);
+        // Add a small time offset for each post (1 second)
+        const postDate = new Date(basePostDate.getTime() + (currentPostNumber - 1) * 1000);
+        const post = new ProcessedPostImpl(postDate, postText, sourceId, currentPostNumber, totalPosts);
+        post.textReplies = textReplies;
+        post.embeddedMedia = embeddedMedia;
+        // The segments of a video only make sense read in order.
+        post.continuesThread = segmentIndex > 0;
+        posts.push(post);
 
-      logger.debug({
-        title: postTitle,
-        postNumber: currentPostNumber,
-        totalPosts,
-        type: 'video',
-        postDate: postDate.toISOString(),
-        mediaUri: video.uri
-      }, 'Created video post');
+        logger.debug({
+          title: postTitle,
+          postNumber: currentPostNumber,
+          totalPosts,
+          type: 'video',
+          segment: segments.length > 1 ? `${segmentIndex + 1}/${segments.length}` : undefined,
+          postDate: postDate.toISOString(),
+          mediaUri: video.uri
+        }, 'Created video post');
 
-      currentPostNumber++;
+        currentPostNumber++;
+      }
     }
 
     logger.debug({
@@ -183,8 +230,9 @@ export class InstagramMediaProcessor implements InstagramPostProcessingStrategy
    * 
    * This method splits posts with mixed media into separate posts:
    * - Images are grouped into posts of up to 4 images
-   * - Each video gets its own post
-   * - Posts are numbered when split (e.g. "Title (1/4)")
+   * - Each video gets its own post, a video too long for Bluesky gets a post per segment
+   * - Posts are numbered when split (e.g. "Title (Part 1/4)")
+   * - Captions longer than a post continue in numbered text replies (e.g. "...end (2/2)")
    * 
    * @returns {Promise<ProcessedPost[]>} A promise that resolves to an array of ProcessedPost objects.
    */
@@ -1,11 +1,19 @@
 import fs from "fs";
 
 import { InstagramVideoProcessor } from "..";
+import { VIDEO_ALT_TEXT_LIMIT } from "../../alt";
+import { logger } from "../../logger/logger";
+import { runReport } from "../../report";
+import { VideoSplitter } from "../../video/segment";
+import { VideoTranscoder } from "../../video/transcode";
 import { VideoMedia } from "../InstagramExportedPost";
+import { VideoMediaProcessResultImpl } from "../MediaProcessResult";
 
 // Mock the file system
 jest.mock("fs", () => ({
+  existsSync: jest.fn(() => true),
   readFileSync: jest.fn(),
+  readdirSync: jest.fn(() => []),
 }));
 
 // Mock sharp
@@ -122,7 +130,7 @@ describe("InstagramVideoProcessor", () => {
     expect(result[0].mimeType).toBe("");
   });
 
-  test("should truncate video title when it exceeds limit", async () => {
+  test("should keep the full video title when it exceeds the post limit", async () => {
     const longTitle = "C".repeat(400); // Create a title longer than POST_TEXT_LIMIT (300)
     const mockVideo: VideoMedia = {
       uri: "video.mp4",
@@ -139,7 +147,266 @@ describe("InstagramVideoProcessor", () => {
     const result = await processor.process();
 
     expect(result).toHaveLength(1);
-    expect(result[0].mediaText.length).toBe(303); // 300 chars + "..."
-    expect(result[0].mediaText.endsWith("...")).toBe(true);
+    expect(result[0].mediaText).toBe(longTitle);
+  });
+
+  test("should truncate video title to the video alt text limit", async () => {
+    const longTitle = "word ".repeat(300);
+    const mockVideo: VideoMedia = {
+      uri: "video.mp4",
+      title: longTitle,
+      creation_timestamp: 1234567890,
+      media_metadata: {},
+      cross_post_source: { source_app: "Instagram" },
+      backup_uri: "backup_video.mp4",
+      dubbing_info: [],
+      media_variants: [],
+    };
+
+    const processor = new InstagramVideoProcessor([mockVideo], "/test/archive");
+    const result = await processor.process();
+
+    expect(result).toHaveLength(1);
+    expect(result[0].mediaText.length).toBeLessThanOrEqual(VIDEO_ALT_TEXT_LIMIT);
+    expect(result[0].mediaText.endsWith("word")).toBe(true);
+    expect((result[0] as VideoMediaProcessResultImpl).altText?.text).toBe(result[0].mediaText);
+  });
+
+  test("should skip a video too large to upload and report it", async () => {
+    // The size of a video over the limit, without allocating it.
+    const tooLarge = Object.defineProperty(Buffer.from("test"), "length", { value: 200 * 1024 * 1024 });
+    (fs.readFileSync as jest.Mock).mockReturnValueOnce(tooLarge);
+    runReport.clear();
+    const videos: VideoMedia[] = ["media/posts/large.mp4", "media/posts/small.mp4"].map((uri) => ({
+      uri,
+      title: "Test Video",
+      creation_timestamp: 1234567890,
+      media_metadata: {},
+      cross_post_source: { source_app: "Instagram" },
+      backup_uri: "backup_video.mp4",
+      dubbing_info: [],
+      media_variants: [],
+    }));
+
+    const result = await new InstagramVideoProcessor(videos, "/test/archive").process();
+
+    expect(result.map(({ uri }) => uri)).toEqual(["media/posts/small.mp4"]);
+    expect(runReport.getFailures()).toEqual([{ item: "media/posts/large.mp4", reason: "Video too large." }]);
+  });
+
+  test("should skip a missing video and report it without splitting it", async () => {
+    (fs.existsSync as jest.Mock).mockReturnValueOnce(false);
+    const splitter = { split: jest.fn() };
+    runReport.clear();
+    const video: VideoMedia = {
+      uri: "media/posts/missing.mp4",
+      title: "Test Video",
+      creation_timestamp: 1234567890,
+      media_metadata: {},
+      cross_post_source: { source_app: "Instagram" },
+      backup_uri: "backup_video.mp4",
+      dubbing_info: [],
+      media_variants: [],
+    };
+
+    const processor = new InstagramVideoProcessor(
+      [video],
+      "/test/archive",
+      undefined,
+      splitter as unknown as VideoSplitter
+    );
+
+    expect(await processor.process()).toEqual([]);
+    expect(splitter.split).not.toHaveBeenCalled();
+    expect(runReport.getFailures()).toEqual([
+      { item: "media/posts/missing.mp4", reason: "Video file not found: media/posts/missing.mp4" },
+    ]);
+  });
+
+  test("should report a video that can not be read as not found", async () => {
+    (fs.readFileSync as jest.Mock).mockImplementationOnce(() => {
+      throw new Error("ENOENT");
+    });
+    runReport.clear();
+    const video: VideoMedia = {
+      uri: "media/posts/video.mp4",
+      title: "Test Video",
+      creation_timestamp: 1234567890,
+      media_metadata: {},
+      cross_post_source: { source_app: "Instagram" },
+      backup_uri: "backup_video.mp4",
+      dubbing_info: [],
+      media_variants: [],
+    };
+
+    expect(await new InstagramVideoProcessor([video], "/test/archive").process()).toEqual([]);
+    expect(runReport.getFailures()).toEqual([
+      { item: "media/posts/video.mp4", reason: "Video file not found: /test/archive/media/posts/video.mp4" },
+    ]);
+  });
+
+  describe("transcoding", () => {
+    const mockVideo: VideoMedia = {
+      uri: "media/posts/video.webm",
+      title: "Test Video",
+      creation_timestamp: 1234567890,
+      media_metadata: {},
+      cross_post_source: { source_app: "Instagram" },
+      backup_uri: "backup_video.webm",
+      dubbing_info: [],
+      media_variants: [],
+    };
+
+    beforeEach(() => {
+      runReport.clear();
+    });
+
+    test("should upload the transcoded video", async () => {
+      const transcodedBuffer = Buffer.from("transcoded");
+      (fs.readFileSync as jest.Mock).mockImplementation((path: string) =>
+        path === "video-cache/abc.mp4" ? transcodedBuffer : Buffer.from("original")
+      );
+      const transcoder = {
+        transcode: jest.fn().mockResolvedValue({
+          filePath: "video-cache/abc.mp4",
+          reasons: ["unsupported container video/webm"],
+          cached: false,
+        }),
+      };
+
+      const processor = new InstagramVideoProcessor([mockVideo], "/test/archive", transcoder as unknown as VideoTranscoder);
+      const [result] = await processor.process();
+
+      expect(transcoder.transcode).toHaveBeenCalledWith("/test/archive/media/posts/video.webm");
+      expect(result.mediaBuffer).toBe(transcodedBuffer);
+      expect(result.mimeType).toBe("video/mp4");
+      expect(runReport.getOptimizations()).toEqual([{
+        item: "media/posts/video.webm",
+        description: "transcoded to H.264 MP4, unsupported container video/webm",
+      }]);
+    });
+
+    test("should upload the original video when no transcoding is needed", async () => {
+      const transcoder = { transcode: jest.fn().mockResolvedValue(undefined) };
+
+      const processor = new InstagramVideoProcessor([{ ...mockVideo, uri: "video.mp4" }], "/test/archive", transcoder as unknown as VideoTranscoder);
+      const [result] = await processor.process();
+
+      expect(result.mediaBuffer?.toString()).toBe("test");
+      expect(result.mimeType).toBe("video/mp4");
+      expect(runReport.getOptimizations()).toEqual([]);
+    });
+
+    test("should fall back to the original video when transcoding fails", async () => {
+      const transcoder = { transcode: jest.fn().mockRejectedValue(new Error("Cannot find ffmpeg")) };
+
+      const processor = new InstagramVideoProcessor([mockVideo], "/test/archive", transcoder as unknown as VideoTranscoder);
+      const [result] = await processor.process();
+
+      expect(result.mediaBuffer?.toString()).toBe("test");
+      expect(result.mimeType).toBe("video/webm");
+    });
+  });
+
+  describe("splitting", () => {
+    const mockVideo: VideoMedia = {
+      uri: "media/reels/long.mp4",
+      title: "Long Reel",
+      creation_timestamp: 1234567890,
+      media_metadata: {},
+      cross_post_source: { source_app: "Instagram" },
+      backup_uri: "backup_long.mp4",
+      dubbing_info: [],
+      media_variants: [],
+    };
+    const segments = ["video-cache/key-segments/segment-000.mp4", "video-cache/key-segments/segment-001.mp4"];
+
+    beforeEach(() => {
+      runReport.clear();
+      (fs.readFileSync as jest.Mock).mockImplementation((path: string) => Buffer.from(path));
+    });
+
+    test("should return a result per segment in order", async () => {
+      const splitter = { split: jest.fn().mockResolvedValue(segments) };
+      const transcoder = { transcode: jest.fn().mockResolvedValue(undefined) };
+
+      const processor = new InstagramVideoProcessor(
+        [mockVideo],
+        "/test/archive",
+        transcoder as unknown as VideoTranscoder,
+        splitter as unknown as VideoSplitter
+      );
+      const results = await processor.process();
+
+      expect(splitter.split).toHaveBeenCalledWith("/test/archive/media/reels/long.mp4");
+      expect(transcoder.transcode.mock.calls).toEqual([[segments[0]], [segments[1]]]);
+      expect(results.map((result) => result.mediaBuffer?.toString())).toEqual(segments);
+      expect(results.map((result) => result.mediaText)).toEqual(["Long Reel", "Long Reel"]);
+      expect(runReport.getOptimizations()).toEqual([{ item: "media/reels/long.mp4", description: "split into 2 videos" }]);
+    });
+
+    test("should upload the whole video when it is short enough", async () => {
+      const splitter = { split: jest.fn().mockResolvedValue(undefined) };
+
+      const processor = new InstagramVideoProcessor([mockVideo], "/test/archive", undefined, splitter as unknown as VideoSplitter);
+      const results = await processor.process();
+
+      expect(results).toHaveLength(1);
+      expect(results[0].mediaBuffer?.toString()).toBe("/test/archive/media/reels/long.mp4");
+    });
+
+    test("should fall back to the whole video when splitting fails", async () => {
+      const splitter = { split: jest.fn().mockRejectedValue(new Error("Cannot find ffmpeg")) };
+
+      const processor = new InstagramVideoProcessor([mockVideo], "/test/archive", undefined, splitter as unknown as VideoSplitter);
+      const results = await processor.process();
+
+      expect(results).toHaveLength(1);
+      expect(runReport.getOptimizations()).toEqual([]);
+    });
+  });
+
+  describe("captions", () => {
+    const mockVideo: VideoMedia = {
+      uri: "media/reels/reel.mp4",
+      title: "Reel",
+      creation_timestamp: 1234567890,
+      media_metadata: {},
+      cross_post_source: { source_app: "Instagram" },
+      backup_uri: "backup_reel.mp4",
+      dubbing_info: [],
+      media_variants: [],
+    };
+    const files: Record<string, string> = {
+      "/test/archive/media/reels/reel.srt": "1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\n",
+      "/test/archive/media/reels/reel.fr.vtt": "WEBVTT\n\n00:00:01.000 --> 00:00:02.500\nBonjour\n",
+    };
+
+    beforeEach(() => {
+      (fs.readdirSync as jest.Mock).mockReturnValue(["other.srt", "reel.fr.vtt", "reel.mp4", "reel.srt"]);
+      (fs.readFileSync as jest.Mock).mockImplementation((path: string) => Buffer.from(files[path] ?? "video"));
+    });
+
+    test("should add the caption files next to the video as WebVTT", async () => {
+      const processor = new InstagramVideoProcessor([mockVideo], "/test/archive", undefined, undefined, undefined, "de");
+      const [result] = await processor.process();
+
+      expect((result as VideoMediaProcessResultImpl).captions).toEqual([
+        { lang: "fr", content: files["/test/archive/media/reels/reel.fr.vtt"] },
+        { lang: "de", content: "WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.500\nHello\n" },
+      ]);
+    });
+
+    test("should not add the captions to the segments of a split video", async () => {
+      const splitter = { split: jest.fn().mockResolvedValue(["segment-000.mp4", "segment-001.mp4"]) };
+
+      const processor = new InstagramVideoProcessor([mockVideo], "/test/archive", undefined, splitter as unknown as VideoSplitter);
+      const results = await processor.process();
+
+      expect(results.map((result) => (result as VideoMediaProcessResultImpl).captions)).toEqual([[], []]);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Captions of video media/reels/reel.mp4 are not added to its segments, their timing would not match"
+      );
+    });
   });
 });
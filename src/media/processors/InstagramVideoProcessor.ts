@@ -1,32 +1,48 @@
+import FS from "fs";
+
+import { AltTextProvider, capAltText, VIDEO_ALT_TEXT_LIMIT } from "../../alt";
+import { Archive, openArchive } from "../../archive/archive";
 import { logger } from "../../logger/logger";
+import { runReport } from "../../report";
+import { DEFAULT_CAPTION_LANGUAGE, readVideoCaptions, VideoCaption } from "../../video/captions";
+import { VideoSplitter } from "../../video/segment";
+import { VideoTranscoder } from "../../video/transcode";
 import { getVideoDimensions, getMimeType as getVideoMimeType, validateVideo } from "../../video/video";
 import { VideoMedia } from "../InstagramExportedPost";
 import { VideoMediaProcessingStrategy } from "../interfaces/VideoMediaProcessingStrategy";
 import { MediaProcessResult, VideoMediaProcessResultImpl } from "../MediaProcessResult";
 import { getMediaBuffer } from "../utils";
 
-const POST_TEXT_LIMIT = 300;
-const POST_TEXT_TRUNCATE_SUFFIX = "...";
 
 export class InstagramVideoProcessor implements VideoMediaProcessingStrategy {
   constructor(
     public instagramVideos: VideoMedia[],
-    public archiveFolder: string
+    public archiveFolder: string,
+    public videoTranscoder?: VideoTranscoder,
+    public videoSplitter?: VideoSplitter,
+    public altTextProvider: AltTextProvider = new AltTextProvider(),
+    public captionLanguage: string = DEFAULT_CAPTION_LANGUAGE
   ) {}
 
-  process(): Promise<MediaProcessResult[]> {
-    const processingResults: Promise<MediaProcessResult>[] = [];
+  async process(): Promise<MediaProcessResult[]> {
+    const processingResults: Promise<MediaProcessResult[]>[] = [];
     // Iterate over each video in the post,
     // adding the process to the promise array.
     for (const media of this.instagramVideos) {
+      // A video that can not be uploaded is skipped, the other media of the post are still posted.
       const processingVideo = this.processVideoMedia(
         media,
         this.archiveFolder
-      );        
+      ).catch((error) => {
+        const reason = error instanceof Error ? error.message : "Unknown error";
+        logger.error(`Skipping video ${media.uri}: ${reason}`);
+        runReport.addFailure(media.uri, reason);
+        return [];
+      });
       processingResults.push(processingVideo);
     }
-    // Return all video(s) being processed as a single promise.
-    return Promise.all(processingResults);
+    // Return all video(s) being processed as a single promise, a split video gives several results.
+    return (await Promise.all(processingResults)).flat();
   }
 
   public getMimeType(fileType: string): string {
@@ -35,32 +51,118 @@ export class InstagramVideoProcessor implements VideoMediaProcessingStrategy {
 
   /**
    * Transforms post content from social media format into the bluesky post format.
-   * @param post
+   * A video longer than Bluesky accepts is split, each segment is a result in order.
+   * @param media
    * @param archiveFolder
-   * @param bluesky
-   * @param simulate
-   * @returns Promise<VideoMediaProcessResultImpl>
+   * @returns Promise<VideoMediaProcessResultImpl[]>
    */
   private async processVideoMedia(
     media: VideoMedia,
     archiveFolder: string
+  ): Promise<VideoMediaProcessResultImpl[]> {
+    // Videos in a ZIP file are extracted for ffmpeg.
+    const archive = openArchive(archiveFolder);
+    if (!archive.has(media.uri)) {
+      throw Error(`Video file not found: ${media.uri}`);
+    }
+    const filePath = await archive.extract(media.uri);
+    let segments: string[] | undefined;
+
+    try {
+      segments = await this.videoSplitter?.split(filePath);
+      if (segments) {
+        runReport.addOptimization(media.uri, `split into ${segments.length} videos`);
+      }
+    } catch (error) {
+      logger.error(`Failed to split video ${media.uri}, uploading it whole: ${(error as Error)?.message}`);
+    }
+
+    const captions = this.readCaptions(media, archive);
+    if (!segments) {
+      return [await this.processVideoFile(media, filePath, getMediaBuffer(archiveFolder, media), captions)];
+    }
+    if (captions.length > 0) {
+      logger.warn(`Captions of video ${media.uri} are not added to its segments, their timing would not match`);
+    }
+
+    // One at a time, transcoding several segments at once would compete for the CPU.
+    const results: VideoMediaProcessResultImpl[] = [];
+    for (const segment of segments) {
+      results.push(await this.processVideoFile(media, segment, FS.readFileSync(segment)));
+    }
+    return results;
+  }
+
+  /**
+   * Reads the caption files next to the video in the archive, a video without any has no captions.
+   * @param media
+   * @param archive the video is in.
+   */
+  private readCaptions(media: VideoMedia, archive: Archive): VideoCaption[] {
+    try {
+      const captions = readVideoCaptions(archive, media.uri, this.captionLanguage);
+      if (captions.length > 0) {
+        logger.debug(`Found captions of video ${media.uri} in ${captions.map(({ lang }) => lang).join(", ")}`);
+      }
+      return captions;
+    } catch (error) {
+      logger.error(`Failed to read the captions of video ${media.uri}: ${(error as Error)?.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Transcodes a video file if needed and reads it for upload.
+   * @param media the video comes from, for the title and the logs.
+   * @param filePath of the original video or one of its segments.
+   * @param originalBuffer content of the file, uploaded when no transcode is needed.
+   * @param captions of the video, none for a segment.
+   */
+  private async processVideoFile(
+    media: VideoMedia,
+    filePath: string,
+    originalBuffer: Buffer | undefined,
+    captions: VideoCaption[] = []
   ): Promise<VideoMediaProcessResultImpl> {
-    const fileType = media.uri.substring(media.uri.lastIndexOf(".") + 1);
-    const mimeType = this.getMimeType(fileType);
+    const fileType = filePath.substring(filePath.lastIndexOf(".") + 1);
+    let mimeType = this.getMimeType(fileType);
+    let mediaBuffer: Buffer | undefined;
 
-    const mediaBuffer = getMediaBuffer(archiveFolder, media);
-    const aspectRatio = await getVideoDimensions(`${archiveFolder}/${media.uri}`);
+    try {
+      const transcoded = await this.videoTranscoder?.transcode(filePath);
+      if (transcoded) {
+        mediaBuffer = FS.readFileSync(transcoded.filePath);
+        filePath = transcoded.filePath;
+        mimeType = "video/mp4";
+        runReport.addOptimization(media.uri, `transcoded to H.264 MP4, ${transcoded.reasons.join(", ")}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to transcode video ${media.uri}, uploading the original: ${(error as Error)?.message}`);
+    }
 
-    if(!validateVideo(mediaBuffer!)) {
-      throw Error('Video too large.')
+    mediaBuffer ??= originalBuffer;
+    if (!mediaBuffer) {
+      throw Error(`Video file not found: ${filePath}`);
     }
-    
-    let title = media.title;
-    if (title && title.length > POST_TEXT_LIMIT) {
-      logger.info(`Truncating video title from ${title.length} to ${POST_TEXT_LIMIT} characters`);
-      title = title.substring(0, POST_TEXT_LIMIT) + POST_TEXT_TRUNCATE_SUFFIX;
+    const aspectRatio = await getVideoDimensions(filePath).catch(() => undefined);
+    if (!aspectRatio) {
+      logger.warn(`Dimensions of video ${media.uri} are unknown, it is posted without an aspect ratio`);
+    }
+
+    if(!validateVideo(mediaBuffer)) {
+      throw Error('Video too large.')
     }
     
-    return new VideoMediaProcessResultImpl(title, mimeType, mediaBuffer!, aspectRatio);
+    const altText = this.altTextProvider.getAltText(media);
+    altText.text = capAltText(altText.text, VIDEO_ALT_TEXT_LIMIT);
+    return new VideoMediaProcessResultImpl(
+      altText.text,
+      mimeType,
+      mediaBuffer,
+      aspectRatio,
+      media.uri,
+      altText,
+      captions
+    );
   }
 } 
\ No newline at end of file
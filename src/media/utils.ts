@@ -1,6 +1,5 @@
-import FS from "fs";
-
 import { InstagramExportedPost, Media } from "./InstagramExportedPost";
+import { Archive, FolderArchive, openArchive } from "../archive/archive";
 import { logger } from "../logger/logger";
 
 /**
@@ -57,8 +56,8 @@ export function decodeUTF8(data: any): any {
 }
 
 /**
- * Reads the instagram media file from the archive folder and media file name in export data.
- * @param archiveFolder
+ * Reads the instagram media file from the archive and media file name in export data.
+ * @param archiveFolder path of the archive, a folder or ZIP files.
  * @param media
  * @returns
  */
@@ -66,14 +65,12 @@ export function getMediaBuffer(
   archiveFolder: string,
   media: Media
 ): Buffer | undefined {
-  const mediaFilename = `${archiveFolder}/${media.uri}`;
-
   let mediaBuffer;
   try {
-    mediaBuffer = FS.readFileSync(mediaFilename);
+    mediaBuffer = openArchive(archiveFolder).read(media.uri);
   } catch (error) {
     logger.error({
-      message: `Failed to read media file: ${mediaFilename}`,
+      message: `Failed to read media file: ${archiveFolder}/${media.uri}`,
       error,
     });
   }
@@ -87,19 +84,25 @@ export function getMediaBuffer(
  * If the file does not exist, logs an informational message and returns the provided fallback value.
  * If the file exists but cannot be parsed as JSON, logs a warning and returns the fallback value.
  *
- * @param filePath - The path to the JSON file to read.
+ * @param filePath - The path to the JSON file to read, relative to the archive.
  * @param missingFileMessage - Optional message to log if the file is not found. Defaults to 'File not found.'.
  * @param fallback - Optional fallback value to return if the file is missing or cannot be parsed. Defaults to an empty array.
+ * @param archive - Optional archive the file is in. Defaults to the file system.
  * @returns The parsed JSON content as an array, or the fallback value if the file is missing or invalid.
  */
-export function readJsonFile(filePath: string, missingFileMessage: string = 'File not found.', fallback: any[] = []): any[] {
-  if (!FS.existsSync(filePath)) {
+export function readJsonFile(
+  filePath: string,
+  missingFileMessage: string = 'File not found.',
+  fallback: any[] = [],
+  archive: Archive = new FolderArchive('')
+): any[] {
+  if (!archive.has(filePath)) {
     logger.info(missingFileMessage)
     return fallback;
   }
 
   try {
-    const buffer = FS.readFileSync(filePath);
+    const buffer = archive.read(filePath);
     return JSON.parse(buffer.toString());
   } catch (error) {
     logger.warn(`Failed to parse ${filePath}: ${(error as Error)?.message}`);
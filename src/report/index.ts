@@ -0,0 +1 @@
+export * from './report';
\ No newline at end of file
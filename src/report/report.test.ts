@@ -0,0 +1,81 @@
+import { RunReport } from "./report";
+import { logger } from "../logger/logger";
+
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe("RunReport", () => {
+  let report: RunReport;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    report = new RunReport();
+  });
+
+  test("should log every failed item", () => {
+    report.addFailure("[a.jpg Part 1/1]", "Internal Server Error");
+    report.addFailure("[b.jpg Part 1/2] media 2/4", "Blob too large");
+
+    report.log();
+
+    expect(logger.warn).toHaveBeenCalledWith("2 items were given up and not imported:");
+    expect(logger.warn).toHaveBeenCalledWith("- [a.jpg Part 1/1]: Internal Server Error");
+    expect(logger.warn).toHaveBeenCalledWith("- [b.jpg Part 1/2] media 2/4: Blob too large");
+  });
+
+  test("should log every optimized media", () => {
+    report.addOptimization("photo.jpg", "2.1 MB to 900 kB");
+
+    report.log();
+
+    expect(logger.info).toHaveBeenCalledWith("1 media were optimized for Bluesky:");
+    expect(logger.info).toHaveBeenCalledWith("- photo.jpg: 2.1 MB to 900 kB");
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  test("should log every image without alt text", () => {
+    report.addMissingAltText("media/posts/photo.jpg");
+
+    report.log();
+
+    expect(logger.warn).toHaveBeenCalledWith("1 images have no alt text:");
+    expect(logger.warn).toHaveBeenCalledWith("- media/posts/photo.jpg");
+  });
+
+  test("should mark machine-generated alt text", () => {
+    report.addGeneratedAltText("media/posts/photo.jpg: llava");
+
+    report.log();
+
+    expect(logger.info).toHaveBeenCalledWith("1 images have machine-generated alt text:");
+    expect(logger.info).toHaveBeenCalledWith("- media/posts/photo.jpg: llava");
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  test("should log nothing without failures", () => {
+    report.log();
+
+    expect(logger.warn).not.toHaveBeenCalled();
+    expect(logger.info).not.toHaveBeenCalled();
+  });
+
+  test("should forget the failures when cleared", () => {
+    report.addFailure("[a.jpg Part 1/1]", "Internal Server Error");
+    report.addOptimization("photo.jpg", "2.1 MB to 900 kB");
+    report.addMissingAltText("photo.jpg");
+    report.addGeneratedAltText("other.jpg");
+
+    report.clear();
+
+    expect(report.getFailures()).toEqual([]);
+    expect(report.getOptimizations()).toEqual([]);
+    expect(report.getMissingAltText()).toEqual([]);
+    expect(report.getGeneratedAltText()).toEqual([]);
+  });
+});
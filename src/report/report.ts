@@ -0,0 +1,98 @@
+import { logger } from "../logger/logger";
+
+/**
+ * An item of the archive that was given up on, e.g. a post or media that failed after every retry.
+ */
+export interface FailedItem {
+  item: string;
+  reason: string;
+}
+
+/**
+ * Media changed to be accepted by Bluesky, e.g. an image compressed to fit the upload limit.
+ */
+export interface OptimizedItem {
+  item: string;
+  description: string;
+}
+
+/**
+ * Collects what happened to individual items during a run, logged as a summary at the end.
+ */
+export class RunReport {
+  private readonly failures: FailedItem[] = [];
+  private readonly optimizations: OptimizedItem[] = [];
+  private readonly missingAltText: string[] = [];
+  private readonly generatedAltText: string[] = [];
+
+  addFailure(item: string, reason: string): void {
+    this.failures.push({ item, reason });
+  }
+
+  getFailures(): FailedItem[] {
+    return [...this.failures];
+  }
+
+  addOptimization(item: string, description: string): void {
+    this.optimizations.push({ item, description });
+  }
+
+  getOptimizations(): OptimizedItem[] {
+    return [...this.optimizations];
+  }
+
+  addMissingAltText(item: string): void {
+    this.missingAltText.push(item);
+  }
+
+  getMissingAltText(): string[] {
+    return [...this.missingAltText];
+  }
+
+  addGeneratedAltText(item: string): void {
+    this.generatedAltText.push(item);
+  }
+
+  getGeneratedAltText(): string[] {
+    return [...this.generatedAltText];
+  }
+
+  /**
+   * Logs the summary, nothing is logged for a run without anything to report.
+   */
+  log(): void {
+    if (this.optimizations.length > 0) {
+      logger.info(`${this.optimizations.length} media were optimized for Bluesky:`);
+      for (const { item, description } of this.optimizations) {
+        logger.info(`- ${item}: ${description}`);
+      }
+    }
+    if (this.generatedAltText.length > 0) {
+      logger.info(`${this.generatedAltText.length} images have machine-generated alt text:`);
+      for (const item of this.generatedAltText) {
+        logger.info(`- ${item}`);
+      }
+    }
+    if (this.missingAltText.length > 0) {
+      logger.warn(`${this.missingAltText.length} images have no alt text:`);
+      for (const item of this.missingAltText) {
+        logger.warn(`- ${item}`);
+      }
+    }
+    if (this.failures.length > 0) {
+      logger.warn(`${this.failures.length} items were given up and not imported:`);
+      for (const { item, reason } of this.failures) {
+        logger.warn(`- ${item}: ${reason}`);
+      }
+    }
+  }
+
+  clear(): void {
+    this.failures.length = 0;
+    this.optimizations.length = 0;
+    this.missingAltText.length = 0;
+    this.generatedAltText.length = 0;
+  }
+}
+
+export const runReport = new RunReport();
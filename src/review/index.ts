@@ -0,0 +1 @@
+export * from './review';
\ No newline at end of file
@@ -0,0 +1,128 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { reviewAltText } from "./review";
+import { createMediaProcessor, readInstagramPosts } from "../instagram-to-bluesky";
+import { logger } from "../logger/logger";
+import { ImageMediaProcessResultImpl, VideoMediaProcessResultImpl } from "../media";
+
+jest.mock("../instagram-to-bluesky", () => ({
+  createMediaProcessor: jest.fn(),
+  readInstagramPosts: jest.fn(),
+}));
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("dotenv", () => ({
+  config: jest.fn(),
+}));
+
+describe("reviewAltText", () => {
+  const originalEnv = process.env;
+  const postDate = new Date("2021-06-04T18:30:00.000Z");
+  let tempDir: string;
+  let manifestFile: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "review-"));
+    manifestFile = path.join(tempDir, "alt-text.json");
+    process.env = { ...originalEnv, ARCHIVE_FOLDER: "/test/folder", ALT_TEXT_FILE: manifestFile };
+    delete process.env.BLUESKY_USERNAME;
+    delete process.env.BLUESKY_PASSWORD;
+
+    const photo = new ImageMediaProcessResultImpl(
+      "Beach day\nPhoto taken near these geographical coordinates: geo:-33.9,151.2",
+      "image/jpeg",
+      Buffer.from("photo"),
+      undefined,
+      "media/posts/photo.jpg",
+      { text: "Beach day", source: "title" }
+    );
+    const segment = (index: number) =>
+      new VideoMediaProcessResultImpl("", "video/mp4", Buffer.from(`segment ${index}`), undefined, "media/reels/reel.mp4", { text: "" });
+    (readInstagramPosts as jest.Mock).mockReturnValue([]);
+    (createMediaProcessor as jest.Mock).mockReturnValue({
+      process: jest.fn().mockResolvedValue([
+        { postDate, embeddedMedia: [photo] },
+        { postDate, embeddedMedia: [segment(1)] },
+        { postDate, embeddedMedia: [segment(2)] },
+      ]),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test("should list every media once with its proposed alt text", async () => {
+    await reviewAltText();
+
+    expect(createMediaProcessor).toHaveBeenCalledWith(expect.anything(), [], undefined);
+    expect(JSON.parse(fs.readFileSync(manifestFile, "utf8"))).toEqual([
+      {
+        uri: "media/posts/photo.jpg",
+        type: "image",
+        postDate: "2021-06-04T18:30:00.000Z",
+        altText: "Beach day",
+        source: "title",
+        generated: false,
+      },
+      {
+        uri: "media/reels/reel.mp4",
+        type: "video",
+        postDate: "2021-06-04T18:30:00.000Z",
+        altText: "",
+        source: "",
+        generated: false,
+      },
+    ]);
+    expect(logger.info).toHaveBeenCalledWith(
+      `Wrote 2 media to ${manifestFile}, 1 without alt text. Edit the alt text and run the import.`
+    );
+  });
+
+  test("should mark alt text generated by a model", async () => {
+    const photo = new ImageMediaProcessResultImpl(
+      "Waves on a sandy beach",
+      "image/jpeg",
+      Buffer.from("photo"),
+      undefined,
+      "media/posts/beach.jpg",
+      { text: "Waves on a sandy beach", source: "llava", generated: true }
+    );
+    (createMediaProcessor as jest.Mock).mockReturnValue({
+      process: jest.fn().mockResolvedValue([{ postDate, embeddedMedia: [photo] }]),
+    });
+
+    await reviewAltText();
+
+    expect(JSON.parse(fs.readFileSync(manifestFile, "utf8"))).toEqual([
+      expect.objectContaining({ uri: "media/posts/beach.jpg", source: "llava", generated: true }),
+    ]);
+  });
+
+  test("should keep the alt text of a previous review", async () => {
+    fs.writeFileSync(manifestFile, "[]");
+
+    await reviewAltText();
+
+    expect(createMediaProcessor).toHaveBeenCalledWith(expect.anything(), [], manifestFile);
+  });
+
+  test("should require the alt text file", async () => {
+    delete process.env.ALT_TEXT_FILE;
+
+    await expect(reviewAltText()).rejects.toThrow("ALT_TEXT_FILE is required to review alt text");
+  });
+});
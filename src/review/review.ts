@@ -0,0 +1,51 @@
+import FS from "fs";
+
+import { AltTextManifestEntry, writeAltTextManifest } from "../alt";
+import { AppConfig } from "../config";
+import { createMediaProcessor, readInstagramPosts } from "../instagram-to-bluesky";
+import { logger } from "../logger/logger";
+
+/**
+ * Lists every image and video of the archive with the alt text the import would give it, in the
+ * ALT_TEXT_FILE, as CSV when its name ends with .csv and as JSON otherwise.
+ *
+ * The archive is processed like an import, but nothing is posted. Edit the alt text in the file,
+ * the next import reads it from the same ALT_TEXT_FILE. Alt text already in the file is kept when
+ * reviewing again, so new posts can be reviewed without losing the edits.
+ */
+export async function reviewAltText() {
+  const config = AppConfig.fromEnv();
+  config.validateAltTextReview();
+
+  const manifestFile = config.getAltTextFile()!;
+  // The file does not exist before the first review, every media starts from its title.
+  const processedPosts = await createMediaProcessor(
+    config,
+    readInstagramPosts(config),
+    FS.existsSync(manifestFile) ? manifestFile : undefined
+  ).process();
+
+  // A split video is listed once, its segments share the alt text.
+  const entries = new Map<string, AltTextManifestEntry>();
+  for (const { postDate, embeddedMedia } of processedPosts) {
+    for (const media of embeddedMedia) {
+      if (!media.uri || entries.has(media.uri)) {
+        continue;
+      }
+      entries.set(media.uri, {
+        uri: media.uri,
+        type: media.getType(),
+        postDate: postDate?.toISOString() ?? "",
+        altText: media.altText?.text ?? media.mediaText,
+        source: media.altText?.source ?? "",
+        generated: media.altText?.generated ?? false,
+      });
+    }
+  }
+
+  writeAltTextManifest(manifestFile, [...entries.values()]);
+  const missing = [...entries.values()].filter(({ altText }) => !altText).length;
+  logger.info(
+    `Wrote ${entries.size} media to ${manifestFile}, ${missing} without alt text. Edit the alt text and run the import.`
+  );
+}
@@ -0,0 +1 @@
+export * from './rollback';
\ No newline at end of file
@@ -0,0 +1,174 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { rollback } from "./rollback";
+import { BlueskyClient } from "../bluesky/bluesky";
+import { ImportJournal } from "../journal";
+import { logger } from "../logger/logger";
+
+jest.mock("../bluesky/bluesky", () => ({
+  BlueskyClient: jest.fn(),
+}));
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+jest.mock("dotenv", () => ({
+  config: jest.fn(),
+}));
+
+describe("rollback", () => {
+  const originalEnv = process.env;
+  let tempDir: string;
+  let journalFile: string;
+  let mockBluesky: { login: jest.Mock; deletePost: jest.Mock };
+
+  const recordPost = (runId: string, id: string) =>
+    ImportJournal.load(journalFile, runId).record({
+      sourceId: `media/posts/${id}.jpg`,
+      part: 1,
+      totalParts: 1,
+      uri: `at://did:plc:test/app.bsky.feed.post/${id}`,
+      cid: `cid-${id}`,
+      postDate: "2024-01-01T00:00:00.000Z",
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "rollback-"));
+    journalFile = path.join(tempDir, "import-journal.jsonl");
+    process.env = {
+      ...originalEnv,
+      BLUESKY_USERNAME: "test_user",
+      BLUESKY_PASSWORD: "test_pass",
+      SIMULATE: "0",
+      JOURNAL_FILE: journalFile,
+    };
+    delete process.env.ROLLBACK_RUN_ID;
+
+    mockBluesky = {
+      login: jest.fn().mockResolvedValue(undefined),
+      deletePost: jest.fn().mockImplementation((uri: string) =>
+        Promise.resolve({ uri, blobs: [`blob-${uri}`] })
+      ),
+    };
+    (BlueskyClient as jest.Mock).mockImplementation(() => mockBluesky);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test("should delete the posts of the latest run newest first", async () => {
+    recordPost("run-1", "a");
+    recordPost("run-2", "b");
+    recordPost("run-2", "c");
+
+    await rollback(jest.fn().mockResolvedValue(true));
+
+    expect(mockBluesky.deletePost.mock.calls).toEqual([
+      ["at://did:plc:test/app.bsky.feed.post/c"],
+      ["at://did:plc:test/app.bsky.feed.post/b"],
+    ]);
+    expect(logger.info).toHaveBeenCalledWith(
+      "Rollback finished, deleted 2 posts, 0 were already deleted, 0 failed."
+    );
+    expect(logger.info).toHaveBeenCalledWith(
+      "2 blobs are no longer referenced and will be removed by the PDS."
+    );
+  });
+
+  test("should delete the posts of the configured run", async () => {
+    process.env.ROLLBACK_RUN_ID = "run-1";
+    recordPost("run-1", "a");
+    recordPost("run-2", "b");
+
+    await rollback(jest.fn().mockResolvedValue(true));
+
+    expect(mockBluesky.deletePost.mock.calls).toEqual([
+      ["at://did:plc:test/app.bsky.feed.post/a"],
+    ]);
+  });
+
+  test("should remove deleted posts from the journal", async () => {
+    recordPost("run-1", "a");
+    recordPost("run-2", "b");
+
+    await rollback(jest.fn().mockResolvedValue(true));
+
+    const journal = ImportJournal.load(journalFile);
+    expect(journal.getEntries().map((entry) => entry.sourceId)).toEqual([
+      "media/posts/a.jpg",
+    ]);
+  });
+
+  test("should tolerate posts that were already deleted", async () => {
+    recordPost("run-1", "a");
+    recordPost("run-1", "b");
+    mockBluesky.deletePost.mockResolvedValueOnce(null);
+
+    await rollback(jest.fn().mockResolvedValue(true));
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      "Skipping post - Already deleted: at://did:plc:test/app.bsky.feed.post/b"
+    );
+    expect(logger.info).toHaveBeenCalledWith(
+      "Rollback finished, deleted 1 posts, 1 were already deleted, 0 failed."
+    );
+    expect(ImportJournal.load(journalFile).size).toBe(0);
+  });
+
+  test("should keep posts that failed to delete in the journal", async () => {
+    recordPost("run-1", "a");
+    mockBluesky.deletePost.mockRejectedValueOnce(new Error("Network error"));
+
+    await rollback(jest.fn().mockResolvedValue(true));
+
+    expect(logger.error).toHaveBeenCalledWith(
+      "Failed to delete post at://did:plc:test/app.bsky.feed.post/a: Network error"
+    );
+    expect(ImportJournal.load(journalFile).size).toBe(1);
+  });
+
+  test("should only list the posts in simulate mode", async () => {
+    process.env.SIMULATE = "1";
+    recordPost("run-1", "a");
+    const confirm = jest.fn();
+
+    await rollback(confirm);
+
+    expect(logger.info).toHaveBeenCalledWith(
+      "2024-01-01T00:00:00.000Z [media/posts/a.jpg Part 1/1] at://did:plc:test/app.bsky.feed.post/a"
+    );
+    expect(confirm).not.toHaveBeenCalled();
+    expect(BlueskyClient).not.toHaveBeenCalled();
+  });
+
+  test("should not delete anything without confirmation", async () => {
+    recordPost("run-1", "a");
+
+    await rollback(jest.fn().mockResolvedValue(false));
+
+    expect(logger.info).toHaveBeenCalledWith("Rollback cancelled, no posts were deleted.");
+    expect(mockBluesky.deletePost).not.toHaveBeenCalled();
+    expect(ImportJournal.load(journalFile).size).toBe(1);
+  });
+
+  test("should warn when the journal is empty", async () => {
+    await rollback(jest.fn());
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining("No posts to roll back")
+    );
+    expect(BlueskyClient).not.toHaveBeenCalled();
+  });
+});
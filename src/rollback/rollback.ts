@@ -0,0 +1,116 @@
+import { createInterface } from "readline/promises";
+
+import { BlueskyClient } from "../bluesky/bluesky";
+import { AppConfig } from "../config";
+import { ImportJournal } from "../journal";
+import { logger } from "../logger/logger";
+
+/**
+ * Asks the user on the terminal, only an explicit "yes" confirms.
+ * @param question
+ */
+export async function askForConfirmation(question: string): Promise<boolean> {
+  const terminal = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    const answer = await terminal.question(question);
+    return answer.trim().toLowerCase() === "yes";
+  } finally {
+    terminal.close();
+  }
+}
+
+/**
+ * Deletes every post created by an import run, as recorded in the journal.
+ *
+ * SIMULATE=1 lists the posts without deleting them. Posts already deleted by hand are skipped.
+ * The blobs of deleted posts are no longer referenced and are removed by the PDS itself,
+ * atproto has no endpoint to delete a blob directly.
+ *
+ * @param confirm asks the user before deleting anything.
+ */
+export async function rollback(
+  confirm: (question: string) => Promise<boolean> = askForConfirmation
+) {
+  const config = AppConfig.fromEnv();
+  config.validateRollback();
+
+  const journal = ImportJournal.load(config.getJournalFile());
+  const runId = config.getRollbackRunId() ?? journal.getLatestRunId();
+  const entries = runId ? journal.getEntries(runId) : [];
+
+  if (entries.length === 0) {
+    logger.warn(
+      `No posts to roll back, run ${runId ?? "(none)"} has no entries in ${config.getJournalFile()}`
+    );
+    return;
+  }
+
+  logger.info(`Rollback of run ${runId} would delete ${entries.length} posts:`);
+  for (const entry of entries) {
+    logger.info(
+      `${entry.postDate} [${entry.sourceId} Part ${entry.part}/${entry.totalParts}] ${entry.uri}`
+    );
+  }
+
+  if (config.isSimulateEnabled()) {
+    logger.warn("--- SIMULATE mode is enabled, no posts will be deleted ---");
+    return;
+  }
+
+  const confirmed = await confirm(
+    `Delete ${entries.length} posts from ${config.getBlueskyUsername()}? Type "yes" to continue: `
+  );
+  if (!confirmed) {
+    logger.info("Rollback cancelled, no posts were deleted.");
+    return;
+  }
+
+  const bluesky = new BlueskyClient(
+    config.getBlueskyUsername(),
+    config.getBlueskyPassword(),
+    { serviceUrl: config.getBlueskyServiceUrl() }
+  );
+  await bluesky.login();
+
+  const removedUris: string[] = [];
+  const releasedBlobs = new Set<string>();
+  let deletedPosts = 0;
+  let missingPosts = 0;
+  let failedPosts = 0;
+
+  // Delete newest first so replies are removed before the posts they reply to.
+  for (const entry of [...entries].reverse()) {
+    try {
+      const deletedPost = await bluesky.deletePost(entry.uri);
+      if (deletedPost) {
+        deletedPost.blobs.forEach((blob) => releasedBlobs.add(blob));
+        deletedPosts++;
+        logger.info(`Deleted post: ${entry.uri}`);
+      } else {
+        missingPosts++;
+        logger.warn(`Skipping post - Already deleted: ${entry.uri}`);
+      }
+      removedUris.push(entry.uri);
+    } catch (error) {
+      failedPosts++;
+      logger.error(
+        `Failed to delete post ${entry.uri}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  // Forget the deleted posts so a resumed import creates them again.
+  journal.remove(removedUris);
+
+  logger.info(
+    `Rollback finished, deleted ${deletedPosts} posts, ${missingPosts} were already deleted, ${failedPosts} failed.`
+  );
+  logger.info(
+    `${releasedBlobs.size} blobs are no longer referenced and will be removed by the PDS.`
+  );
+}
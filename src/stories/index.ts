@@ -0,0 +1 @@
+export * from './stories';
\ No newline at end of file
@@ -0,0 +1,114 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import { formatStoryDay, groupStoriesByDay, readArchiveStories } from "./stories";
+import { EXPORT_LAYOUTS, FolderArchive } from "../archive";
+import { logger } from "../logger/logger";
+import { Media } from "../media";
+
+jest.mock("../logger/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Timestamp in seconds of a local time, the days of stories are in the time zone of the import.
+const at = (day: number, hours: number) => new Date(2021, 5, day, hours).getTime() / 1000;
+
+const story = (uri: string, creation_timestamp: number) => ({ uri, creation_timestamp, title: "" }) as Media;
+
+describe("stories", () => {
+  test("should format the day of a story", () => {
+    expect(formatStoryDay(new Date(2021, 0, 4, 23, 59))).toBe("2021-01-04");
+  });
+
+  test("should group stories into a post per day", () => {
+    const posts = groupStoriesByDay(
+      [
+        story("media/stories/202106/2.mp4", at(4, 18)),
+        story("media/stories/202106/1.jpg", at(4, 9)),
+        story("media/stories/202106/3.jpg", at(5, 1)),
+      ],
+      "Story from {date}"
+    );
+
+    expect(posts).toEqual([
+      {
+        creation_timestamp: at(4, 9),
+        title: "Story from 2021-06-04",
+        media: [story("media/stories/202106/1.jpg", at(4, 9)), story("media/stories/202106/2.mp4", at(4, 18))],
+      },
+      {
+        creation_timestamp: at(5, 1),
+        title: "Story from 2021-06-05",
+        media: [story("media/stories/202106/3.jpg", at(5, 1))],
+      },
+    ]);
+  });
+
+  describe("readArchiveStories", () => {
+    let folder: string;
+
+    const layout = (name: string) => EXPORT_LAYOUTS.find((exportLayout) => exportLayout.name === name)!;
+
+    const write = (fileName: string, content: unknown) => {
+      fs.mkdirSync(path.dirname(path.join(folder, fileName)), { recursive: true });
+      fs.writeFileSync(path.join(folder, fileName), JSON.stringify(content));
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      folder = fs.mkdtempSync(path.join(os.tmpdir(), "stories-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test("should read the stories between the dates of the options", () => {
+      write("your_instagram_activity/media/stories.json", {
+        ig_stories: [
+          story("media/stories/202106/1.jpg", at(3, 12)),
+          story("media/stories/202106/2.jpg", at(4, 12)),
+          story("media/stories/202106/3.jpg", at(4, 13)),
+          story("media/stories/202106/4.jpg", at(6, 12)),
+          story("media/stories/202106/5.jpg", 0),
+        ],
+      });
+
+      const posts = readArchiveStories(new FolderArchive(folder), layout("your_instagram_activity"), {
+        text: "Archived story {date}",
+        minDate: new Date(2021, 5, 4),
+        maxDate: new Date(2021, 5, 5),
+      });
+
+      expect(posts.map(({ title, media }) => ({ title, count: (media as Media[]).length }))).toEqual([
+        { title: "Archived story 2021-06-04", count: 2 },
+      ]);
+      expect(logger.info).toHaveBeenCalledWith(
+        "Skipped 3 stories without a date or outside of STORIES_MIN_DATE and STORIES_MAX_DATE"
+      );
+      expect(logger.info).toHaveBeenCalledWith("Found 2 stories to import as 1 posts, one per day");
+    });
+
+    test("should read the stories of the oldest exports", () => {
+      write("media.json", {
+        photos: [],
+        stories: [{ caption: "Sunset", taken_at: "2018-06-12T10:20:30", path: "stories/201806/1.jpg" }],
+      });
+
+      const [post] = readArchiveStories(new FolderArchive(folder), layout("media.json"), { text: "Story from {date}" });
+
+      expect(post.media).toEqual([{ uri: "stories/201806/1.jpg", creation_timestamp: 1528798830, title: "Sunset" }]);
+    });
+
+    test("should find no stories in an export without them", () => {
+      expect(readArchiveStories(new FolderArchive(folder), layout("content"), { text: "Story from {date}" })).toEqual([]);
+      expect(logger.info).toHaveBeenCalledWith("No stories found in the content export.");
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Archive, ExportLayout, findShards, readLayoutFile } from "../archive";
+import { logger } from "../logger/logger";
+import { InstagramExportedPost, Media } from "../media";
+
+// Text of the post of each day of stories, {date} is replaced by the day.
+export const DEFAULT_STORIES_TEXT = "Story from {date}";
+
+/**
+ * Stories to import, opt-in and filtered by their own dates so they do not flood the feed.
+ */
+export interface StoryOptions {
+  // Text of the post of each day, see DEFAULT_STORIES_TEXT.
+  text: string;
+  minDate?: Date;
+  maxDate?: Date;
+}
+
+/**
+ * Formats the day of a story as YYYY-MM-DD, in the time zone of the computer running the import.
+ * @param date
+ */
+export function formatStoryDay(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Groups stories into a post per day, their media in the order they were shared.
+ * @param stories media of the stories, with their creation timestamp.
+ * @param text of the posts, {date} is replaced by the day of the stories.
+ * @returns a post per day, dated by the first story of the day.
+ */
+export function groupStoriesByDay(stories: Media[], text: string): InstagramExportedPost[] {
+  const days = new Map<string, Media[]>();
+  for (const story of [...stories].sort((a, b) => a.creation_timestamp - b.creation_timestamp)) {
+    const day = formatStoryDay(new Date(story.creation_timestamp * 1000));
+    days.set(day, [...(days.get(day) ?? []), story]);
+  }
+
+  return Array.from(days, ([day, media]) => ({
+    creation_timestamp: media[0].creation_timestamp,
+    title: text.replaceAll("{date}", day),
+    media,
+  }));
+}
+
+/**
+ * Reads the stories of an archive and groups them into a post per day.
+ * @param archive
+ * @param layout of the archive.
+ * @param options
+ * @returns the posts of the stories between the dates of the options.
+ */
+export function readArchiveStories(archive: Archive, layout: ExportLayout, options: StoryOptions): InstagramExportedPost[] {
+  const files = layout.stories ? findShards(archive, layout.folder, layout.stories, layout.extension) : [];
+  if (files.length === 0) {
+    logger.info(`No stories found in the ${layout.name} export.`);
+    return [];
+  }
+
+  const stories = files.flatMap((file) =>
+    layout.readStories(readLayoutFile(archive, layout, file, `Stories file ${file} not found.`))
+  );
+  const { minDate, maxDate } = options;
+  const storiesInRange = stories.filter(({ creation_timestamp }) => {
+    const date = new Date(creation_timestamp * 1000);
+    return creation_timestamp > 0 && !(minDate && date < minDate) && !(maxDate && date > maxDate);
+  });
+  if (storiesInRange.length < stories.length) {
+    logger.info(
+      `Skipped ${stories.length - storiesInRange.length} stories without a date or outside of STORIES_MIN_DATE and STORIES_MAX_DATE`
+    );
+  }
+
+  const posts = groupStoriesByDay(storiesInRange, options.text);
+  logger.info(`Found ${storiesInRange.length} stories to import as ${posts.length} posts, one per day`);
+  return posts;
+}
@@ -0,0 +1,119 @@
+import fs from "fs";
+import zlib from "zlib";
+
+export const STORED = 0;
+export const DEFLATED = 8;
+
+const ENCRYPTED_FLAG = 0x0001;
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+const UTF8_FLAG = 0x0800;
+// Extended timestamp extra field, written before the ZIP64 one like Info-ZIP does.
+const TIMESTAMP_EXTRA = Buffer.from([0x55, 0x54, 0x05, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00]);
+
+export interface ZipOptions {
+  method?: number;
+  // Writes the ZIP64 records of archives over 4 GB.
+  zip64?: boolean;
+  // Writes the sizes in a data descriptor after the content, as streaming zip tools do.
+  dataDescriptor?: boolean;
+  // Names of the entries flagged as encrypted.
+  encrypted?: string[];
+}
+
+/**
+ * Writes a ZIP file of the given files, for the tests of the archive readers.
+ */
+export function writeZip(
+  zipFile: string,
+  files: Record<string, string>,
+  { method = DEFLATED, zip64 = false, dataDescriptor = false, encrypted = [] }: ZipOptions = {}
+): void {
+  const records: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.from(content);
+    const compressed = method === DEFLATED ? zlib.deflateRawSync(data) : data;
+    const fileName = Buffer.from(name);
+    const crc = zlib.crc32(data);
+    const flags =
+      UTF8_FLAG | (dataDescriptor ? DATA_DESCRIPTOR_FLAG : 0) | (encrypted.includes(name) ? ENCRYPTED_FLAG : 0);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    // With a data descriptor the local header has no CRC and sizes.
+    if (!dataDescriptor) {
+      local.writeUInt32LE(crc, 14);
+      local.writeUInt32LE(compressed.length, 18);
+      local.writeUInt32LE(data.length, 22);
+    }
+    local.writeUInt16LE(fileName.length, 26);
+
+    const descriptor = Buffer.alloc(dataDescriptor ? 16 : 0);
+    if (dataDescriptor) {
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      descriptor.writeUInt32LE(compressed.length, 8);
+      descriptor.writeUInt32LE(data.length, 12);
+    }
+
+    const extra = Buffer.alloc(zip64 ? 28 : 0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(data.length), 4);
+      extra.writeBigUInt64LE(BigInt(compressed.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+    const extraFields = zip64 ? Buffer.concat([TIMESTAMP_EXTRA, extra]) : extra;
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(45, 4);
+    header.writeUInt16LE(45, 6);
+    header.writeUInt16LE(flags, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(zip64 ? 0xffffffff : compressed.length, 20);
+    header.writeUInt32LE(zip64 ? 0xffffffff : data.length, 24);
+    header.writeUInt16LE(fileName.length, 28);
+    header.writeUInt16LE(extraFields.length, 30);
+    header.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+
+    records.push(local, fileName, compressed, descriptor);
+    directory.push(header, fileName, extraFields);
+    offset += local.length + fileName.length + compressed.length + descriptor.length;
+  }
+
+  const centralDirectory = Buffer.concat(directory);
+  const count = Object.keys(files).length;
+  const end: Buffer[] = [];
+  if (zip64) {
+    const zip64End = Buffer.alloc(56);
+    zip64End.writeUInt32LE(0x06064b50, 0);
+    zip64End.writeBigUInt64LE(44n, 4);
+    zip64End.writeBigUInt64LE(BigInt(count), 24);
+    zip64End.writeBigUInt64LE(BigInt(count), 32);
+    zip64End.writeBigUInt64LE(BigInt(centralDirectory.length), 40);
+    zip64End.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + centralDirectory.length), 8);
+    locator.writeUInt32LE(1, 16);
+    end.push(zip64End, locator);
+  }
+
+  const endOfDirectory = Buffer.alloc(22);
+  endOfDirectory.writeUInt32LE(0x06054b50, 0);
+  endOfDirectory.writeUInt16LE(zip64 ? 0xffff : count, 8);
+  endOfDirectory.writeUInt16LE(zip64 ? 0xffff : count, 10);
+  endOfDirectory.writeUInt32LE(zip64 ? 0xffffffff : centralDirectory.length, 12);
+  endOfDirectory.writeUInt32LE(zip64 ? 0xffffffff : offset, 16);
+
+  fs.writeFileSync(zipFile, Buffer.concat([...records, centralDirectory, ...end, endOfDirectory]));
+}
@@ -0,0 +1 @@
+export * from './text';
\ No newline at end of file
@@ -0,0 +1,100 @@
+import {
+  fitsTextLimit,
+  getByteLength,
+  getGraphemeLength,
+  getPostTextLimit,
+  splitText,
+} from "./text";
+
+describe("text length", () => {
+  test("should count graphemes instead of code units", () => {
+    expect(getGraphemeLength("👍🏽")).toBe(1);
+    expect(getGraphemeLength("👨‍👩‍👧")).toBe(1);
+    expect(getGraphemeLength("é")).toBe(1);
+    expect(getGraphemeLength("🇳🇱 ok")).toBe(4);
+  });
+
+  test("should count bytes in UTF-8", () => {
+    expect(getByteLength("abc")).toBe(3);
+    expect(getByteLength("é")).toBe(2);
+    expect(getByteLength("👍🏽")).toBe(8);
+  });
+
+  test("should fit 300 emoji even though their string length is larger", () => {
+    const text = "😀".repeat(300);
+
+    expect(text.length).toBe(600);
+    expect(fitsTextLimit(text)).toBe(true);
+    expect(fitsTextLimit(text + "😀")).toBe(false);
+  });
+
+  test("should not fit text over the byte limit", () => {
+    // 179 graphemes but 3222 bytes
+    expect(fitsTextLimit("👨‍👩‍👧".repeat(179))).toBe(false);
+  });
+
+  test("should keep room for text added afterwards", () => {
+    expect(getPostTextLimit(11)).toEqual({ graphemes: 289, bytes: 2989 });
+  });
+});
+
+describe("splitText", () => {
+  const limit = (graphemes: number) => ({ graphemes, bytes: graphemes * 10 });
+
+  test("should return short text as a single chunk", () => {
+    expect(splitText("Short caption", limit(20))).toEqual(["Short caption"]);
+    expect(splitText("", limit(20))).toEqual([""]);
+  });
+
+  test("should split at the end of a sentence", () => {
+    expect(splitText("First sentence here. Second one! Third", limit(35))).toEqual([
+      "First sentence here. Second one!",
+      "Third",
+    ]);
+  });
+
+  test("should split at a new line", () => {
+    expect(splitText("A first paragraph\nand the second", limit(25))).toEqual([
+      "A first paragraph",
+      "and the second",
+    ]);
+  });
+
+  test("should split at a word when the sentence would leave a tiny chunk", () => {
+    expect(splitText("Hi. This is a rather long sentence", limit(20))).toEqual([
+      "Hi. This is a rather",
+      "long sentence",
+    ]);
+  });
+
+  test("should only cut inside a word longer than the limit", () => {
+    expect(splitText("A".repeat(25), limit(10))).toEqual(["A".repeat(10), "A".repeat(10), "A".repeat(5)]);
+  });
+
+  test("should never cut a grapheme cluster", () => {
+    expect(splitText("👍🏽".repeat(5), limit(2))).toEqual(["👍🏽👍🏽", "👍🏽👍🏽", "👍🏽"]);
+  });
+
+  test("should fit each chunk in the byte limit", () => {
+    const chunks = splitText("ééééé ééééé", { graphemes: 100, bytes: 12 });
+
+    expect(chunks).toEqual(["ééééé", "ééééé"]);
+  });
+
+  test("should cut before a link rather than inside it", () => {
+    expect(splitText("(https://example.com/a/long/path", limit(20))).toEqual([
+      "(",
+      "https://example.com/",
+      "a/long/path",
+    ]);
+  });
+
+  test("should keep every word of the text", () => {
+    const text = "Lorem ipsum dolor sit amet, consectetur adipiscing elit. ".repeat(20).trim();
+
+    const chunks = splitText(text, limit(100));
+
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(100));
+    expect(chunks.join(" ")).toBe(text);
+  });
+});
@@ -0,0 +1,153 @@
+import { RichText } from "@atproto/api";
+
+/**
+ * Post text lexicon maxGraphemes 300 and maxLength 3000, the length is counted in UTF-8 bytes.
+ * @link https://github.com/bluesky-social/atproto/blob/main/lexicons/app/bsky/feed/post.json
+ */
+export const POST_TEXT_LIMIT = 300;
+export const POST_TEXT_BYTE_LIMIT = 3000;
+export const POST_TEXT_TRUNCATE_SUFFIX = "...";
+
+/**
+ * Maximum length of a text, both in graphemes and in UTF-8 bytes.
+ */
+export interface TextLimit {
+  graphemes: number;
+  bytes: number;
+}
+
+const SENTENCE_END = /^[.!?…。！？]$/;
+const SENTENCE_CLOSE = /^["'”’»)\]]$/;
+const WHITESPACE = /^\s+$/;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/**
+ * Splits text into grapheme clusters, e.g. an emoji with skin tone or a letter with combining accents is one grapheme.
+ */
+export function getGraphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
+
+/**
+ * Length as Bluesky counts it, in graphemes.
+ */
+export function getGraphemeLength(text: string): number {
+  return getGraphemes(text).length;
+}
+
+export function getByteLength(text: string): number {
+  return Buffer.byteLength(text, "utf8");
+}
+
+/**
+ * The limit of a post text, keeping room for text added afterwards.
+ * @param reserve length of the ASCII text added to the post, e.g. a " (Part 1/2)" suffix.
+ */
+export function getPostTextLimit(reserve: number = 0): TextLimit {
+  return {
+    graphemes: POST_TEXT_LIMIT - reserve,
+    bytes: POST_TEXT_BYTE_LIMIT - reserve,
+  };
+}
+
+export function fitsTextLimit(text: string, limit: TextLimit = getPostTextLimit()): boolean {
+  return getGraphemeLength(text) <= limit.graphemes && getByteLength(text) <= limit.bytes;
+}
+
+/**
+ * Ranges of mentions, links and tags in graphemes, a chunk must never end inside one.
+ */
+function getFacetRanges(text: string, graphemes: string[]): { start: number; end: number }[] {
+  const richText = new RichText({ text });
+  richText.detectFacetsWithoutResolution();
+
+  // Facets index UTF-8 bytes, map each byte offset back to the grapheme it starts.
+  const graphemeAtByte = new Map<number, number>();
+  let byteOffset = 0;
+  graphemes.forEach((grapheme, index) => {
+    graphemeAtByte.set(byteOffset, index);
+    byteOffset += getByteLength(grapheme);
+  });
+  graphemeAtByte.set(byteOffset, graphemes.length);
+
+  return (richText.facets ?? []).map(({ index }) => ({
+    start: graphemeAtByte.get(index.byteStart) ?? 0,
+    end: graphemeAtByte.get(index.byteEnd) ?? graphemes.length,
+  }));
+}
+
+function isSentenceEnd(graphemes: string[], end: number): boolean {
+  let i = end - 1;
+  while (i > 0 && SENTENCE_CLOSE.test(graphemes[i])) {
+    i--;
+  }
+  return SENTENCE_END.test(graphemes[i]);
+}
+
+/**
+ * Finds where to cut the graphemes so the first chunk fits the limit, preferring the end of
+ * a sentence, then the end of a word. Only cuts inside a word if it is longer than the limit,
+ * and then before a facet rather than inside it.
+ */
+function findCut(text: string, graphemes: string[], limit: TextLimit): number {
+  // Longest prefix that fits both the grapheme and the byte limit.
+  let fits = 0;
+  let bytes = 0;
+  while (fits < limit.graphemes && fits < graphemes.length) {
+    bytes += getByteLength(graphemes[fits]);
+    if (bytes > limit.bytes) {
+      break;
+    }
+    fits++;
+  }
+
+  let wordCut = 0;
+  let sentenceCut = 0;
+  for (let i = 1; i <= fits; i++) {
+    if (!WHITESPACE.test(graphemes[i]) || WHITESPACE.test(graphemes[i - 1])) {
+      continue;
+    }
+    wordCut = i;
+    if (graphemes[i].includes("\n") || isSentenceEnd(graphemes, i)) {
+      sentenceCut = i;
+    }
+  }
+
+  // A sentence ending early would leave a tiny chunk, cut at a word instead.
+  if (sentenceCut >= fits / 2) {
+    return sentenceCut;
+  }
+  if (wordCut > 0) {
+    return wordCut;
+  }
+
+  const facet = getFacetRanges(text, graphemes).find(
+    ({ start, end }) => start < fits && fits < end
+  );
+  return facet && facet.start > 0 ? facet.start : Math.max(fits, 1);
+}
+
+/**
+ * Splits text into chunks that each fit the limit, at sentence or word boundaries.
+ * Grapheme clusters and facets are never split, unless a single facet is longer than the limit.
+ * @param text
+ * @param limit maximum length of a chunk.
+ * @returns the chunks in order, a single chunk if the text already fits.
+ */
+export function splitText(text: string, limit: TextLimit = getPostTextLimit()): string[] {
+  const chunks: string[] = [];
+  let remaining = text.trim();
+
+  while (!fitsTextLimit(remaining, limit)) {
+    const graphemes = getGraphemes(remaining);
+    const cut = findCut(remaining, graphemes, limit);
+    chunks.push(graphemes.slice(0, cut).join("").trim());
+    remaining = graphemes.slice(cut).join("").trim();
+  }
+
+  if (remaining.length > 0 || chunks.length === 0) {
+    chunks.push(remaining);
+  }
+  return chunks;
+}
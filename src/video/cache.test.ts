@@ -0,0 +1,52 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { getCacheKey, writeThenRename } from './cache';
+
+describe('video cache', () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test('should change the cache key with the processing version', () => {
+    const video = path.join(folder, 'video.mp4');
+    fs.writeFileSync(video, 'video');
+
+    expect(getCacheKey(video, 1)).toBe(getCacheKey(video, 1));
+    expect(getCacheKey(video, 1)).not.toBe(getCacheKey(video, 2));
+  });
+
+  test('should rename the output once written', async () => {
+    const target = path.join(folder, 'video.mp4');
+
+    await writeThenRename(target, async (partialPath) => fs.writeFileSync(partialPath, 'video'), '.partial.mp4');
+
+    expect(fs.readFileSync(target, 'utf8')).toBe('video');
+    expect(fs.readdirSync(folder)).toEqual(['video.mp4']);
+  });
+
+  test('should remove an interrupted output and never create the target', async () => {
+    const target = path.join(folder, 'segments');
+    // Left over by a previous run stopped halfway.
+    fs.mkdirSync(`${target}.partial`);
+    fs.writeFileSync(path.join(`${target}.partial`, 'stale.mp4'), 'stale');
+
+    await expect(
+      writeThenRename(target, async (partialFolder) => {
+        expect(fs.existsSync(partialFolder)).toBe(false);
+        fs.mkdirSync(partialFolder);
+        fs.writeFileSync(path.join(partialFolder, 'segment-000.mp4'), 'partial');
+        throw new Error('ffmpeg exited with code 1');
+      })
+    ).rejects.toThrow('ffmpeg exited with code 1');
+
+    expect(fs.readdirSync(folder)).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { createHash } from "crypto";
+import FS from "fs";
+import path from "path";
+
+/**
+ * Names the cached output of a video, the key changes when the file or the processing changes.
+ * @param filePath original video.
+ * @param version of the processing settings, bumped when they change.
+ */
+export function getCacheKey(filePath: string, version: number): string {
+  const { size, mtimeMs } = FS.statSync(filePath);
+  return createHash("sha256")
+    .update(`${path.resolve(filePath)}:${size}:${mtimeMs}:${version}`)
+    .digest("hex");
+}
+
+
+/**
+ * Writes a file or folder under a temporary name, renamed once complete. An interrupted write,
+ * e.g. a stopped import, must not be mistaken by the next run for a finished one.
+ * @param targetPath of the finished file or folder.
+ * @param write writes the output to the temporary path it is given.
+ * @param suffix of the temporary path, ffmpeg picks the format of its output from the extension.
+ */
+export async function writeThenRename(
+  targetPath: string,
+  write: (partialPath: string) => Promise<void>,
+  suffix: string = ".partial"
+): Promise<void> {
+  const partialPath = `${targetPath}${suffix}`;
+  FS.rmSync(partialPath, { recursive: true, force: true });
+  try {
+    await write(partialPath);
+    FS.renameSync(partialPath, targetPath);
+  } finally {
+    FS.rmSync(partialPath, { recursive: true, force: true });
+  }
+}
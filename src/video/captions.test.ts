@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { FolderArchive } from '../archive';
+import { CAPTION_SIZE_LIMIT, convertSrtToVtt, findCaptionFiles, readVideoCaptions } from './captions';
+import { logger } from '../logger/logger';
+
+jest.mock('../logger/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('convertSrtToVtt', () => {
+  test('should convert SubRip cues to WebVTT', () => {
+    const srt = '\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nWorld\r\n';
+
+    expect(convertSrtToVtt(srt)).toBe(
+      'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.500\nHello\n\n2\n00:00:03.000 --> 00:00:04.000\nWorld\n'
+    );
+  });
+});
+
+describe('caption files', () => {
+  let folder: string;
+  let archive: FolderArchive;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'captions-'));
+    archive = new FolderArchive(folder);
+    fs.writeFileSync(path.join(folder, 'reel.mp4'), 'video');
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test('should find the captions named after the video with their language', () => {
+    for (const fileName of ['reel.srt', 'reel.pt-BR.srt', 'reel.pt-BR.vtt', 'reel.notes.txt', 'reel.final.srt', 'other.vtt']) {
+      fs.writeFileSync(path.join(folder, fileName), '');
+    }
+
+    expect(findCaptionFiles(archive, 'reel.mp4', 'de')).toEqual([
+      { lang: 'pt-BR', entry: 'reel.pt-BR.vtt' },
+      { lang: 'de', entry: 'reel.srt' }
+    ]);
+  });
+
+  test('should find no captions in a missing folder', () => {
+    expect(findCaptionFiles(archive, 'missing/reel.mp4')).toEqual([]);
+  });
+
+  test('should read the captions as WebVTT', () => {
+    fs.writeFileSync(path.join(folder, 'reel.en.srt'), '1\n00:00:01,000 --> 00:00:02,000\nHello\n');
+    fs.writeFileSync(path.join(folder, 'reel.fr.vtt'), '\uFEFFWEBVTT\n\n00:00:01.000 --> 00:00:02.000\nBonjour\n');
+
+    expect(readVideoCaptions(archive, 'reel.mp4')).toEqual([
+      { lang: 'en', content: 'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nHello\n' },
+      { lang: 'fr', content: 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nBonjour\n' }
+    ]);
+  });
+
+  test('should skip captions Bluesky would reject', () => {
+    fs.writeFileSync(path.join(folder, 'reel.en.vtt'), 'Hello');
+    fs.writeFileSync(path.join(folder, 'reel.fr.vtt'), `WEBVTT\n\n${'a'.repeat(CAPTION_SIZE_LIMIT)}`);
+
+    expect(readVideoCaptions(archive, 'reel.mp4')).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith('Skipping captions reel.en.vtt, not a WebVTT file');
+    expect(logger.warn).toHaveBeenCalledWith(
+      `Skipping captions reel.fr.vtt, larger than ${CAPTION_SIZE_LIMIT} bytes`
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import path from "path";
+
+import { Archive } from "../archive/archive";
+import { logger } from "../logger/logger";
+
+/**
+ * Video caption lexicon, up to 20 WebVTT files of at most 20000 bytes, each with its language.
+ * @link https://github.com/bluesky-social/atproto/blob/main/lexicons/app/bsky/embed/video.json
+ */
+export const CAPTION_SIZE_LIMIT = 20000;
+export const CAPTION_COUNT_LIMIT = 20;
+export const CAPTION_MIME_TYPE = "text/vtt";
+export const DEFAULT_CAPTION_LANGUAGE = "en";
+
+const CAPTION_EXTENSIONS = [".vtt", ".srt"];
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+const SRT_TIMESTAMP = /(\d{1,2}:\d{2}:\d{2}),(\d{3})/g;
+
+/**
+ * Captions of a video as WebVTT, ready to be uploaded.
+ */
+export interface VideoCaption {
+  // BCP 47 language tag, e.g. en or pt-BR.
+  lang: string;
+  content: string;
+}
+
+/**
+ * Checks if a text looks like a BCP 47 language tag, e.g. en or pt-BR.
+ * @param lang
+ */
+export function isLanguageTag(lang: string): boolean {
+  return LANGUAGE_TAG.test(lang);
+}
+
+/**
+ * Converts SubRip subtitles to WebVTT, the only caption format Bluesky accepts.
+ * Cue numbers are kept as cue identifiers, timestamps use a dot before the milliseconds.
+ * @param srt
+ */
+export function convertSrtToVtt(srt: string): string {
+  const cues = srt
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .trim()
+    .replace(SRT_TIMESTAMP, "$1.$2");
+  return `WEBVTT\n\n${cues}\n`;
+}
+
+/**
+ * Finds the caption files next to a video, named after it with an optional language,
+ * e.g. `reel.vtt`, `reel.en.vtt` or `reel.pt-BR.srt` for `reel.mp4`.
+ * @param archive the video is in.
+ * @param videoEntry path of the video in the archive, e.g. its media URI.
+ * @param defaultLanguage of caption files without a language in their name.
+ * @returns the caption entry of each language, WebVTT preferred over SubRip.
+ */
+export function findCaptionFiles(
+  archive: Archive,
+  videoEntry: string,
+  defaultLanguage: string = DEFAULT_CAPTION_LANGUAGE
+): { lang: string; entry: string }[] {
+  const folder = path.posix.dirname(videoEntry);
+  const baseName = path.posix.basename(videoEntry, path.posix.extname(videoEntry));
+
+  const files = new Map<string, string>();
+  for (const fileName of archive.list(folder === "." ? "" : folder).sort()) {
+    const extension = path.extname(fileName).toLowerCase();
+    const name = fileName.substring(0, fileName.length - extension.length);
+    if (!CAPTION_EXTENSIONS.includes(extension)) {
+      continue;
+    }
+
+    let lang: string;
+    if (name === baseName) {
+      lang = defaultLanguage;
+    } else if (name.startsWith(`${baseName}.`) && isLanguageTag(name.substring(baseName.length + 1))) {
+      lang = name.substring(baseName.length + 1);
+    } else {
+      continue;
+    }
+
+    if (!files.has(lang) || extension === ".vtt") {
+      files.set(lang, path.posix.join(folder, fileName));
+    }
+  }
+  return Array.from(files, ([lang, entry]) => ({ lang, entry }));
+}
+
+/**
+ * Reads the captions of a video from the caption files next to it, converted to WebVTT.
+ * Captions Bluesky would reject are skipped with a warning.
+ * @param archive the video is in.
+ * @param videoEntry path of the video in the archive, e.g. its media URI.
+ * @param defaultLanguage of caption files without a language in their name.
+ */
+export function readVideoCaptions(
+  archive: Archive,
+  videoEntry: string,
+  defaultLanguage: string = DEFAULT_CAPTION_LANGUAGE
+): VideoCaption[] {
+  const captions: VideoCaption[] = [];
+  for (const { lang, entry } of findCaptionFiles(archive, videoEntry, defaultLanguage)) {
+    const text = archive.read(entry).toString();
+    const content = path.extname(entry).toLowerCase() === ".srt" ? convertSrtToVtt(text) : text.replace(/^\uFEFF/, "");
+
+    if (!content.startsWith("WEBVTT")) {
+      logger.warn(`Skipping captions ${entry}, not a WebVTT file`);
+    } else if (Buffer.byteLength(content) > CAPTION_SIZE_LIMIT) {
+      logger.warn(`Skipping captions ${entry}, larger than ${CAPTION_SIZE_LIMIT} bytes`);
+    } else if (captions.length >= CAPTION_COUNT_LIMIT) {
+      logger.warn(`Skipping captions ${entry}, a video has at most ${CAPTION_COUNT_LIMIT} captions`);
+    } else {
+      captions.push({ lang, content });
+    }
+  }
+  return captions;
+}
@@ -1 +1,4 @@
-export * from './video';
\ No newline at end of file
+export * from './video';
+export * from './transcode';
+export * from './segment';
+export * from './captions';
\ No newline at end of file
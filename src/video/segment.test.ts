@@ -0,0 +1,158 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import ffmpeg from 'fluent-ffmpeg';
+
+import { cutWithFfmpeg, planSegments, probeKeyframes, VideoSplitter } from './segment';
+
+const mockCommand = {
+  outputOptions: jest.fn().mockReturnThis(),
+  on: jest.fn(),
+  save: jest.fn()
+};
+
+jest.mock('child_process', () => ({
+  execFile: jest.fn()
+}));
+jest.mock('fluent-ffmpeg', () =>
+  Object.assign(jest.fn(() => mockCommand), {
+    setFfprobePath: jest.fn(),
+    ffprobe: jest.fn()
+  })
+);
+jest.mock('@ffprobe-installer/ffprobe', () => ({
+  path: '/mock/ffprobe/path'
+}));
+jest.mock('../logger/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('planSegments', () => {
+  test('should not cut a video that fits in one segment', () => {
+    expect(planSegments([0, 60, 120], 150)).toEqual([]);
+  });
+
+  test('should cut on the last keyframe before the limit', () => {
+    const keyframes = Array.from({ length: 100 }, (_, index) => index * 4);
+
+    // Keyframes every 4 seconds, segments of at most 179 seconds.
+    expect(planSegments(keyframes, 400)).toEqual([176, 352]);
+  });
+
+  test('should cut at the limit without a keyframe in range', () => {
+    expect(planSegments([0], 400, 180)).toEqual([180, 360]);
+  });
+
+  test('should accept keyframes out of order', () => {
+    expect(planSegments([150, 0, 90], 200, 180)).toEqual([150]);
+  });
+});
+
+describe('probeKeyframes', () => {
+  test('should read the keyframe times of the video stream', async () => {
+    // Called through promisify, which resolves with the second callback argument.
+    (execFile as unknown as jest.Mock).mockImplementation((_file, _args, _options, callback) =>
+      callback(null, { stdout: '0.000000\n2.002000\n\n4.004000\n', stderr: '' })
+    );
+
+    expect(await probeKeyframes('video.mp4')).toEqual([0, 2.002, 4.004]);
+    expect(execFile).toHaveBeenCalledWith(
+      '/mock/ffprobe/path',
+      expect.arrayContaining(['-skip_frame', 'nokey', 'video.mp4']),
+      expect.any(Object),
+      expect.any(Function)
+    );
+  });
+});
+
+describe('cutWithFfmpeg', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCommand.on.mockImplementation(function (this: typeof mockCommand, event: string, callback: () => void) {
+      if (event === 'end') {
+        mockCommand.save.mockImplementation(() => callback());
+      }
+      return this;
+    });
+  });
+
+  test('should copy the streams into numbered segments', async () => {
+    await cutWithFfmpeg('in.mov', 'segments', [176, 352]);
+
+    expect(ffmpeg).toHaveBeenCalledWith('in.mov');
+    expect(mockCommand.outputOptions).toHaveBeenCalledWith(
+      expect.arrayContaining(['-c copy', '-f segment', '-segment_times 176,352'])
+    );
+    expect(mockCommand.save).toHaveBeenCalledWith(path.join('segments', 'segment-%03d.mov'));
+  });
+});
+
+describe('VideoSplitter', () => {
+  let folder: string;
+  let videoPath: string;
+  const probe = jest.fn();
+  const probeKeyframeTimes = jest.fn();
+  const cut = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'segment-'));
+    videoPath = path.join(folder, 'video.mp4');
+    fs.writeFileSync(videoPath, 'original');
+    probe.mockResolvedValue({ duration: 400, width: 1080, height: 1920, videoCodec: 'h264' });
+    probeKeyframeTimes.mockResolvedValue([0, 170, 340]);
+    cut.mockImplementation(async (_input: string, outputFolder: string, cutTimes: number[]) => {
+      for (let index = 0; index <= cutTimes.length; index++) {
+        fs.writeFileSync(path.join(outputFolder, `segment-00${index}.mp4`), `segment ${index}`);
+      }
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test('should split a long video into ordered segments', async () => {
+    const splitter = new VideoSplitter(path.join(folder, 'cache'), cut, probe, probeKeyframeTimes);
+
+    const segments = await splitter.split(videoPath);
+
+    expect(cut).toHaveBeenCalledWith(videoPath, expect.any(String), [170, 340]);
+    expect(segments?.map((segment) => fs.readFileSync(segment, 'utf8'))).toEqual(['segment 0', 'segment 1', 'segment 2']);
+  });
+
+  test('should not split a video within the duration limit', async () => {
+    probe.mockResolvedValueOnce({ duration: 180, width: 1080, height: 1920, videoCodec: 'h264' });
+
+    expect(await new VideoSplitter(path.join(folder, 'cache'), cut, probe, probeKeyframeTimes).split(videoPath)).toBeUndefined();
+    expect(cut).not.toHaveBeenCalled();
+  });
+
+  test('should reuse the cached segments on a re-run', async () => {
+    const first = await new VideoSplitter(path.join(folder, 'cache'), cut, probe, probeKeyframeTimes).split(videoPath);
+    const second = await new VideoSplitter(path.join(folder, 'cache'), cut, probe, probeKeyframeTimes).split(videoPath);
+
+    expect(cut).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+  });
+
+  test('should not cache a failed cut', async () => {
+    cut.mockImplementationOnce(async (_input: string, outputFolder: string) => {
+      fs.writeFileSync(path.join(outputFolder, 'segment-000.mp4'), 'partial');
+      throw new Error('ffmpeg exited with code 1');
+    });
+    const splitter = new VideoSplitter(path.join(folder, 'cache'), cut, probe, probeKeyframeTimes);
+
+    await expect(splitter.split(videoPath)).rejects.toThrow('ffmpeg exited with code 1');
+    expect(fs.readdirSync(path.join(folder, 'cache'))).toEqual([]);
+
+    expect(await splitter.split(videoPath)).toHaveLength(3);
+  });
+});
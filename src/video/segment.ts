@@ -0,0 +1,146 @@
+import { execFile } from "child_process";
+import FS from "fs";
+import path from "path";
+import { promisify } from "util";
+
+import ffprobe from "@ffprobe-installer/ffprobe";
+import ffmpeg from "fluent-ffmpeg";
+
+import { getCacheKey, writeThenRename } from "./cache";
+import { probeVideo, VIDEO_DURATION_LIMIT, VideoProbe } from "./transcode";
+import { logger } from "../logger/logger";
+
+// Bump when the segmenting changes, so cached segments are redone.
+const SEGMENT_VERSION = 1;
+// Keeps each segment a little under the duration limit, the cut times are rounded by the muxer.
+const SEGMENT_MARGIN = 1;
+
+/**
+ * Cuts the input file at the given times, in seconds, writing the segments to the output folder.
+ */
+export type VideoCutter = (input: string, outputFolder: string, cutTimes: number[]) => Promise<void>;
+
+/**
+ * Reads the timestamps of the keyframes of the first video stream with ffprobe, in seconds.
+ * Only keyframes are decoded, so it is fast even for long videos.
+ * @param filePath
+ */
+export async function probeKeyframes(filePath: string): Promise<number[]> {
+  const { stdout } = await promisify(execFile)(
+    ffprobe.path,
+    [
+      "-v", "error",
+      "-select_streams", "v:0",
+      "-skip_frame", "nokey",
+      "-show_entries", "frame=pts_time",
+      "-of", "csv=p=0",
+      filePath,
+    ],
+    { maxBuffer: 16 * 1024 * 1024 }
+  );
+
+  return stdout
+    .split("\n")
+    .map((line) => parseFloat(line))
+    .filter((time) => Number.isFinite(time));
+}
+
+/**
+ * Chooses where to cut a video into segments no longer than the limit. Each cut is on the last
+ * keyframe before the limit, as a stream copy can only start a segment on a keyframe.
+ * @param keyframes timestamps in seconds.
+ * @param duration of the video in seconds.
+ * @param limit longest segment in seconds.
+ * @returns the cut times in seconds, empty when the video fits in one segment.
+ */
+export function planSegments(
+  keyframes: number[],
+  duration: number,
+  limit: number = VIDEO_DURATION_LIMIT - SEGMENT_MARGIN
+): number[] {
+  const sortedKeyframes = [...keyframes].sort((a, b) => a - b);
+  const cutTimes: number[] = [];
+  let start = 0;
+
+  while (duration - start > limit) {
+    const end = start + limit;
+    // Without a keyframe in the range the segment is cut at the limit, and clipped when transcoded.
+    const cut = sortedKeyframes.filter((time) => time > start && time <= end).pop() ?? end;
+    cutTimes.push(cut);
+    start = cut;
+  }
+  return cutTimes;
+}
+
+/**
+ * Cuts with the ffmpeg segment muxer, copying the streams so the quality is kept and no time is
+ * spent encoding. ffmpeg must be installed or set with the FFMPEG_PATH variable.
+ */
+export const cutWithFfmpeg: VideoCutter = (input, outputFolder, cutTimes) =>
+  new Promise((resolve, reject) => {
+    const extension = path.extname(input) || ".mp4";
+    ffmpeg(input)
+      .outputOptions([
+        "-map 0",
+        "-c copy",
+        "-f segment",
+        `-segment_times ${cutTimes.join(",")}`,
+        // Every segment starts at zero, as a standalone video.
+        "-reset_timestamps 1",
+      ])
+      .on("end", () => resolve())
+      .on("error", (error: Error) => reject(error))
+      .save(path.join(outputFolder, `segment-%03d${extension}`));
+  });
+
+/**
+ * Splits videos longer than Bluesky accepts into sequential segments, caching them on disk so a
+ * re-run reuses them.
+ */
+export class VideoSplitter {
+  /**
+   * @param cacheFolder folder of the segments.
+   * @param cut
+   * @param probe
+   * @param probeKeyframeTimes
+   */
+  constructor(
+    private readonly cacheFolder: string,
+    private readonly cut: VideoCutter = cutWithFfmpeg,
+    private readonly probe: (filePath: string) => Promise<VideoProbe> = probeVideo,
+    private readonly probeKeyframeTimes: (filePath: string) => Promise<number[]> = probeKeyframes
+  ) {}
+
+  /**
+   * Splits the video if it is longer than the duration limit.
+   * @param filePath
+   * @returns the segments in order, or undefined if the video is short enough.
+   * @throws when the video can not be probed or cut, e.g. ffmpeg is not installed.
+   */
+  async split(filePath: string): Promise<string[] | undefined> {
+    const { duration } = await this.probe(filePath);
+    if (duration <= VIDEO_DURATION_LIMIT) {
+      return undefined;
+    }
+
+    const segmentFolder = path.join(this.cacheFolder, `${getCacheKey(filePath, SEGMENT_VERSION)}-segments`);
+    if (FS.existsSync(segmentFolder)) {
+      logger.debug(`Using cached segments of ${filePath}: ${segmentFolder}`);
+      return this.listSegments(segmentFolder);
+    }
+
+    const cutTimes = planSegments(await this.probeKeyframeTimes(filePath), duration);
+    logger.info(`Splitting ${filePath} of ${Math.round(duration)}s into ${cutTimes.length + 1} videos`);
+    await writeThenRename(segmentFolder, async (partialFolder) => {
+      FS.mkdirSync(partialFolder, { recursive: true });
+      await this.cut(filePath, partialFolder, cutTimes);
+    });
+    return this.listSegments(segmentFolder);
+  }
+
+  private listSegments(segmentFolder: string): string[] {
+    return FS.readdirSync(segmentFolder)
+      .sort()
+      .map((file) => path.join(segmentFolder, file));
+  }
+}
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import ffmpeg from 'fluent-ffmpeg';
+
+import { encodeWithFfmpeg, planTranscode, VideoProbe, VideoTranscoder } from './transcode';
+
+const mockCommand = {
+  videoCodec: jest.fn().mockReturnThis(),
+  videoBitrate: jest.fn().mockReturnThis(),
+  audioCodec: jest.fn().mockReturnThis(),
+  audioBitrate: jest.fn().mockReturnThis(),
+  outputOptions: jest.fn().mockReturnThis(),
+  format: jest.fn().mockReturnThis(),
+  videoFilters: jest.fn().mockReturnThis(),
+  duration: jest.fn().mockReturnThis(),
+  on: jest.fn(),
+  save: jest.fn()
+};
+
+jest.mock('fluent-ffmpeg', () =>
+  Object.assign(jest.fn(() => mockCommand), {
+    setFfprobePath: jest.fn(),
+    ffprobe: jest.fn()
+  })
+);
+jest.mock('@ffprobe-installer/ffprobe', () => ({
+  path: '/mock/ffprobe/path'
+}));
+jest.mock('../logger/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+const MB = 1024 * 1024;
+const compatibleVideo: VideoProbe = { duration: 30, width: 1080, height: 1920, videoCodec: 'h264', audioCodec: 'aac' };
+
+describe('planTranscode', () => {
+  test('should not transcode a compatible video', () => {
+    expect(planTranscode(compatibleVideo, 20 * MB, 'video/mp4')).toBeUndefined();
+    expect(planTranscode(compatibleVideo, 20 * MB, 'video/quicktime')).toBeUndefined();
+  });
+
+  test('should lower the bitrate of a video over the size limit to fit it', () => {
+    const plan = planTranscode({ ...compatibleVideo, duration: 120 }, 150 * MB, 'video/mp4');
+
+    expect(plan?.reasons).toEqual(['larger than 100MB']);
+    // Video and audio of 120 seconds must stay under 90% of 100MB.
+    expect(((plan!.videoBitrate + plan!.audioBitrate) * 1000 * 120) / 8).toBeLessThanOrEqual(0.9 * 100 * MB);
+    expect(plan?.maxLength).toBeUndefined();
+    expect(plan?.duration).toBeUndefined();
+  });
+
+  test('should cap the bitrate of a short video', () => {
+    expect(planTranscode({ ...compatibleVideo, duration: 5 }, 150 * MB, 'video/mp4')?.videoBitrate).toBe(8000);
+  });
+
+  test('should downscale a very high resolution', () => {
+    const plan = planTranscode({ ...compatibleVideo, width: 3840, height: 2160 }, 50 * MB, 'video/mp4');
+
+    expect(plan?.reasons).toEqual(['resolution 3840x2160']);
+    expect(plan?.maxLength).toBe(1920);
+  });
+
+  test('should clip a video over the duration limit', () => {
+    const plan = planTranscode({ ...compatibleVideo, duration: 600 }, 50 * MB, 'video/mp4');
+
+    expect(plan?.reasons).toEqual(['longer than 180s']);
+    expect(plan?.duration).toBe(180);
+  });
+
+  test('should convert unsupported containers and codecs', () => {
+    const plan = planTranscode({ ...compatibleVideo, videoCodec: 'vp9', audioCodec: 'opus' }, 10 * MB, 'video/webm');
+
+    expect(plan?.reasons).toEqual([
+      'unsupported container video/webm',
+      'unsupported video codec vp9',
+      'unsupported audio codec opus'
+    ]);
+  });
+
+  test('should keep a video without audio', () => {
+    expect(planTranscode({ ...compatibleVideo, audioCodec: undefined }, 10 * MB, 'video/mp4')).toBeUndefined();
+  });
+});
+
+describe('encodeWithFfmpeg', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCommand.on.mockImplementation(function (this: typeof mockCommand, event: string, callback: () => void) {
+      if (event === 'end') {
+        mockCommand.save.mockImplementation(() => callback());
+      }
+      return this;
+    });
+  });
+
+  test('should encode H.264/AAC MP4 at the planned bitrate', async () => {
+    await encodeWithFfmpeg('in.webm', 'out.mp4', { reasons: [], videoBitrate: 5000, audioBitrate: 128 });
+
+    expect(ffmpeg).toHaveBeenCalledWith('in.webm');
+    expect(mockCommand.videoCodec).toHaveBeenCalledWith('libx264');
+    expect(mockCommand.videoBitrate).toHaveBeenCalledWith(5000);
+    expect(mockCommand.audioCodec).toHaveBeenCalledWith('aac');
+    expect(mockCommand.format).toHaveBeenCalledWith('mp4');
+    expect(mockCommand.videoFilters).not.toHaveBeenCalled();
+    expect(mockCommand.duration).not.toHaveBeenCalled();
+    expect(mockCommand.save).toHaveBeenCalledWith('out.mp4');
+  });
+
+  test('should downscale and clip the video', async () => {
+    await encodeWithFfmpeg('in.mp4', 'out.mp4', {
+      reasons: [],
+      videoBitrate: 3000,
+      audioBitrate: 128,
+      maxLength: 1920,
+      duration: 180
+    });
+
+    expect(mockCommand.videoFilters).toHaveBeenCalledWith(expect.stringContaining('scale=w=1920:h=1920'));
+    expect(mockCommand.duration).toHaveBeenCalledWith(180);
+  });
+});
+
+describe('VideoTranscoder', () => {
+  let folder: string;
+  let videoPath: string;
+  const probe = jest.fn();
+  const encode = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'transcode-'));
+    videoPath = path.join(folder, 'video.webm');
+    fs.writeFileSync(videoPath, 'original');
+    probe.mockResolvedValue({ ...compatibleVideo, videoCodec: 'vp9' });
+    encode.mockImplementation(async (_input: string, output: string) => fs.writeFileSync(output, 'transcoded'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  test('should transcode into the cache folder', async () => {
+    const transcoder = new VideoTranscoder(path.join(folder, 'cache'), encode, probe);
+
+    const transcoded = await transcoder.transcode(videoPath);
+
+    expect(transcoded?.cached).toBe(false);
+    expect(transcoded?.reasons).toContain('unsupported container video/webm');
+    expect(path.dirname(transcoded!.filePath)).toBe(path.join(folder, 'cache'));
+    expect(fs.readFileSync(transcoded!.filePath, 'utf8')).toBe('transcoded');
+  });
+
+  test('should reuse the cached transcode on a re-run', async () => {
+    const first = await new VideoTranscoder(path.join(folder, 'cache'), encode, probe).transcode(videoPath);
+    const second = await new VideoTranscoder(path.join(folder, 'cache'), encode, probe).transcode(videoPath);
+
+    expect(encode).toHaveBeenCalledTimes(1);
+    expect(second).toEqual({ ...first, cached: true });
+  });
+
+  test('should not transcode a compatible video', async () => {
+    probe.mockResolvedValueOnce(compatibleVideo);
+    const mp4Path = path.join(folder, 'video.mp4');
+    fs.writeFileSync(mp4Path, 'original');
+
+    expect(await new VideoTranscoder(path.join(folder, 'cache'), encode, probe).transcode(mp4Path)).toBeUndefined();
+    expect(encode).not.toHaveBeenCalled();
+  });
+
+  test('should not cache a failed transcode', async () => {
+    encode.mockImplementationOnce(async (_input: string, output: string) => {
+      fs.writeFileSync(output, 'partial');
+      throw new Error('ffmpeg exited with code 1');
+    });
+    const transcoder = new VideoTranscoder(path.join(folder, 'cache'), encode, probe);
+
+    await expect(transcoder.transcode(videoPath)).rejects.toThrow('ffmpeg exited with code 1');
+    expect(fs.readdirSync(path.join(folder, 'cache'))).toEqual([]);
+
+    await transcoder.transcode(videoPath);
+    expect(encode).toHaveBeenCalledTimes(2);
+  });
+});
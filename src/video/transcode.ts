@@ -0,0 +1,215 @@
+import FS from "fs";
+import path from "path";
+
+import ffmpeg from "fluent-ffmpeg";
+
+import { getCacheKey, writeThenRename } from "./cache";
+import { getMimeType, VIDEO_SIZE_LIMIT } from "./video";
+import { logger } from "../logger/logger";
+
+/**
+ * Longest video Bluesky accepts, in seconds.
+ * @link https://bsky.social/about/blog/09-11-2024-video
+ */
+export const VIDEO_DURATION_LIMIT = 180;
+// Longest side of a video, larger videos are downscaled by the Bluesky video service anyway.
+const VIDEO_LENGTH_LIMIT = 1920;
+const AUDIO_BITRATE = 128;
+const MAX_VIDEO_BITRATE = 8000;
+// Share of the size limit the streams may use, the rest is left for the container.
+const SIZE_MARGIN = 0.9;
+// Bump when the encoding settings change, so cached transcodes are redone.
+const TRANSCODE_VERSION = 1;
+
+const SUPPORTED_MIME_TYPES = ["video/mp4", "video/quicktime"];
+const SUPPORTED_VIDEO_CODECS = ["h264"];
+const SUPPORTED_AUDIO_CODECS = ["aac", "mp3"];
+
+/**
+ * What ffprobe reports about a video, as needed to decide how to transcode it.
+ */
+export interface VideoProbe {
+  duration: number;
+  width: number;
+  height: number;
+  videoCodec?: string;
+  audioCodec?: string;
+}
+
+/**
+ * How a video is re-encoded, undefined settings keep the original.
+ */
+export interface TranscodePlan {
+  // Why the video is transcoded, for the logs and the run report.
+  reasons: string[];
+  // Kilobits per second.
+  videoBitrate: number;
+  audioBitrate: number;
+  maxLength?: number;
+  duration?: number;
+}
+
+/**
+ * Video re-encoded as H.264/AAC MP4.
+ */
+export interface TranscodedVideo {
+  filePath: string;
+  reasons: string[];
+  cached: boolean;
+}
+
+/**
+ * Encodes the input file to the output file following the plan.
+ */
+export type VideoEncoder = (input: string, output: string, plan: TranscodePlan) => Promise<void>;
+
+/**
+ * Reads the duration, dimensions and codecs of a video with ffprobe.
+ * @param filePath
+ */
+export function probeVideo(filePath: string): Promise<VideoProbe> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err: Error, metadata) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      const videoStream = metadata.streams.find((s) => s.codec_type === "video");
+      const audioStream = metadata.streams.find((s) => s.codec_type === "audio");
+      if (!videoStream) {
+        reject(new Error("No video stream found"));
+        return;
+      }
+
+      resolve({
+        duration: Number(metadata.format?.duration ?? videoStream.duration) || 0,
+        width: videoStream.width ?? 0,
+        height: videoStream.height ?? 0,
+        videoCodec: videoStream.codec_name,
+        audioCodec: audioStream?.codec_name,
+      });
+    });
+  });
+}
+
+/**
+ * Decides if a video has to be transcoded for Bluesky: larger than the size limit, longer than
+ * the duration limit, a very high resolution, or a container or codec Bluesky does not accept.
+ * @param probe
+ * @param size of the video file in bytes.
+ * @param mimeType of the video file.
+ * @returns the plan, or undefined if the video can be uploaded as it is.
+ */
+export function planTranscode(probe: VideoProbe, size: number, mimeType: string): TranscodePlan | undefined {
+  const reasons: string[] = [];
+  if (size > VIDEO_SIZE_LIMIT) {
+    reasons.push(`larger than ${VIDEO_SIZE_LIMIT / 1024 / 1024}MB`);
+  }
+  if (probe.duration > VIDEO_DURATION_LIMIT) {
+    reasons.push(`longer than ${VIDEO_DURATION_LIMIT}s`);
+  }
+  if (Math.max(probe.width, probe.height) > VIDEO_LENGTH_LIMIT) {
+    reasons.push(`resolution ${probe.width}x${probe.height}`);
+  }
+  if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+    reasons.push(`unsupported container ${mimeType || "unknown"}`);
+  }
+  if (!probe.videoCodec || !SUPPORTED_VIDEO_CODECS.includes(probe.videoCodec)) {
+    reasons.push(`unsupported video codec ${probe.videoCodec ?? "unknown"}`);
+  }
+  if (probe.audioCodec && !SUPPORTED_AUDIO_CODECS.includes(probe.audioCodec)) {
+    reasons.push(`unsupported audio codec ${probe.audioCodec}`);
+  }
+  if (reasons.length === 0) {
+    return undefined;
+  }
+
+  // The bitrate that fills the size limit over the duration kept, never above a high quality bitrate.
+  const duration = Math.min(probe.duration, VIDEO_DURATION_LIMIT) || VIDEO_DURATION_LIMIT;
+  const totalBitrate = (VIDEO_SIZE_LIMIT * 8 * SIZE_MARGIN) / 1000 / duration;
+  return {
+    reasons,
+    videoBitrate: Math.floor(Math.min(MAX_VIDEO_BITRATE, totalBitrate - AUDIO_BITRATE)),
+    audioBitrate: AUDIO_BITRATE,
+    maxLength: Math.max(probe.width, probe.height) > VIDEO_LENGTH_LIMIT ? VIDEO_LENGTH_LIMIT : undefined,
+    duration: probe.duration > VIDEO_DURATION_LIMIT ? VIDEO_DURATION_LIMIT : undefined,
+  };
+}
+
+/**
+ * Encodes H.264/AAC MP4 with ffmpeg, which must be installed or set with the FFMPEG_PATH variable.
+ */
+export const encodeWithFfmpeg: VideoEncoder = (input, output, plan) =>
+  new Promise((resolve, reject) => {
+    const command = ffmpeg(input)
+      .videoCodec("libx264")
+      .videoBitrate(plan.videoBitrate)
+      .audioCodec("aac")
+      .audioBitrate(plan.audioBitrate)
+      .outputOptions([
+        "-preset medium",
+        "-pix_fmt yuv420p",
+        `-maxrate ${plan.videoBitrate}k`,
+        `-bufsize ${plan.videoBitrate * 2}k`,
+        // Moves the index to the start, so playback starts before the whole video is loaded.
+        "-movflags +faststart",
+      ])
+      .format("mp4");
+
+    if (plan.maxLength) {
+      command.videoFilters(
+        `scale=w=${plan.maxLength}:h=${plan.maxLength}:force_original_aspect_ratio=decrease:force_divisible_by=2`
+      );
+    }
+    if (plan.duration) {
+      command.duration(plan.duration);
+    }
+
+    command
+      .on("end", () => resolve())
+      .on("error", (error: Error) => reject(error))
+      .save(output);
+  });
+
+/**
+ * Transcodes videos Bluesky would reject, caching the result on disk so a re-run reuses it.
+ */
+export class VideoTranscoder {
+  /**
+   * @param cacheFolder folder of the transcoded videos.
+   * @param encode
+   * @param probe
+   */
+  constructor(
+    private readonly cacheFolder: string,
+    private readonly encode: VideoEncoder = encodeWithFfmpeg,
+    private readonly probe: (filePath: string) => Promise<VideoProbe> = probeVideo
+  ) {}
+
+  /**
+   * Transcodes the video if needed.
+   * @param filePath
+   * @returns the transcoded video, or undefined if the original can be uploaded.
+   * @throws when the video can not be probed or encoded, e.g. ffmpeg is not installed.
+   */
+  async transcode(filePath: string): Promise<TranscodedVideo | undefined> {
+    const { size } = FS.statSync(filePath);
+    const fileType = filePath.substring(filePath.lastIndexOf(".") + 1);
+    const plan = planTranscode(await this.probe(filePath), size, getMimeType(fileType));
+    if (!plan) {
+      return undefined;
+    }
+
+    const cachedPath = path.join(this.cacheFolder, `${getCacheKey(filePath, TRANSCODE_VERSION)}.mp4`);
+    if (FS.existsSync(cachedPath)) {
+      logger.debug(`Using cached transcode of ${filePath}: ${cachedPath}`);
+      return { filePath: cachedPath, reasons: plan.reasons, cached: true };
+    }
+
+    logger.info(`Transcoding ${filePath} (${plan.reasons.join(", ")}), this can take a while`);
+    FS.mkdirSync(this.cacheFolder, { recursive: true });
+    await writeThenRename(cachedPath, (partialPath) => this.encode(filePath, partialPath, plan), ".partial.mp4");
+    return { filePath: cachedPath, reasons: plan.reasons, cached: false };
+  }
+}
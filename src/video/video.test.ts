@@ -62,7 +62,7 @@ describe('video utilities', () => {
       expect(dimensions).toEqual({ width: 1920, height: 1080 });
     });
 
-    test('should use default dimensions when width/height not found', async () => {
+    test('should not guess dimensions when width/height not found', async () => {
       const mockMetadata = {
         streams: [
           {
@@ -76,7 +76,27 @@ describe('video utilities', () => {
       });
 
       const dimensions = await getVideoDimensions('test.mp4');
-      expect(dimensions).toEqual({ width: 640, height: 640 });
+      expect(dimensions).toBeUndefined();
+    });
+
+    test.each([
+      ['the rotate tag', { tags: { rotate: '90' } }],
+      ['the side data flattened by fluent-ffmpeg', { rotation: '-90' }],
+      ['the side data list', { side_data_list: [{ side_data_type: 'Display Matrix', rotation: 270 }] }],
+    ])('should swap the dimensions of a video rotated by %s', async (_source, rotation) => {
+      (ffmpeg.ffprobe as jest.Mock).mockImplementation((path, callback) => {
+        callback(null, { streams: [{ codec_type: 'video', width: 1920, height: 1080, ...rotation }] });
+      });
+
+      expect(await getVideoDimensions('test.mov')).toEqual({ width: 1080, height: 1920 });
+    });
+
+    test('should keep the dimensions of a video turned upside down', async () => {
+      (ffmpeg.ffprobe as jest.Mock).mockImplementation((path, callback) => {
+        callback(null, { streams: [{ codec_type: 'video', width: 1920, height: 1080, rotation: 180 }] });
+      });
+
+      expect(await getVideoDimensions('test.mov')).toEqual({ width: 1920, height: 1080 });
     });
 
     test('should reject when no video stream found', async () => {
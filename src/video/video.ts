@@ -6,20 +6,21 @@ import { Ratio } from "../media";
 // Configure ffmpeg to use ffprobe
 ffmpeg.setFfprobePath(ffprobe.path);
 
+export const VIDEO_SIZE_LIMIT = 100 * 1024 * 1024; // 100MB
+
 /**
  * Validates video size is not greater than max size.
  * @returns boolean
  */
 export function validateVideo(buffer: Buffer): boolean {
-  const MAX_SIZE = 100 * 1024 * 1024; // 100MB
   logger.debug(
     `Validating video size: ${Math.round(buffer.length / 1024 / 1024)}MB`
   );
-  if (buffer.length > MAX_SIZE) {
+  if (buffer.length > VIDEO_SIZE_LIMIT) {
     logger.warn(
       `Video file too large: ${Math.round(
         buffer.length / 1024 / 1024
-      )}MB (max ${MAX_SIZE / 1024 / 1024}MB)`
+      )}MB (max ${VIDEO_SIZE_LIMIT / 1024 / 1024}MB)`
     );
     return false;
   }
@@ -27,12 +28,34 @@ export function validateVideo(buffer: Buffer): boolean {
 }
 
 /**
- * Uses FFMpeg to resolve the video dimensions.
- * @returns Promise<{width: number, height: number}>
+ * Rotation fields of a video stream reported by ffprobe.
+ */
+export interface RotatedVideoStream {
+  rotation?: number | string;
+  tags?: { rotate?: string };
+  side_data_list?: { rotation?: number | string }[];
+}
+
+/**
+ * Reads the rotation a player applies to a video stream, in degrees. Phones record portrait
+ * videos as landscape frames with a rotation, from the display matrix side data in recent
+ * ffprobe versions and from the rotate tag in older ones.
+ * @param stream as reported by ffprobe.
+ */
+export function getVideoRotation(stream: RotatedVideoStream): number {
+  const sideData = stream.side_data_list?.find((data) => data.rotation !== undefined);
+  // fluent-ffmpeg flattens the side data into the stream.
+  const rotation = sideData?.rotation ?? stream.rotation ?? stream.tags?.rotate;
+  return Number(rotation) || 0;
+}
+
+/**
+ * Uses FFMpeg to resolve the video dimensions as displayed, the rotation applied.
+ * @returns Promise<{width: number, height: number}>, undefined when the stream has no dimensions.
  */
 export async function getVideoDimensions(
   filePath: string
-): Promise<Ratio> {
+): Promise<Ratio | undefined> {
   logger.debug(`Getting video dimensions for: ${filePath}`);
   return new Promise((resolve, reject) => {
     ffmpeg.ffprobe(filePath, (err: Error, metadata) => {
@@ -51,10 +74,16 @@ export async function getVideoDimensions(
         return;
       }
 
-      const dimensions = {
-        width: videoStream.width || 640,
-        height: videoStream.height || 640,
-      };
+      if (!videoStream.width || !videoStream.height) {
+        logger.warn(`Video dimensions not found for: ${filePath}`);
+        resolve(undefined);
+        return;
+      }
+
+      const rotated = Math.abs(getVideoRotation(videoStream)) % 180 === 90;
+      const dimensions = rotated
+        ? { width: videoStream.height, height: videoStream.width }
+        : { width: videoStream.width, height: videoStream.height };
       logger.debug(
         `Video dimensions: ${dimensions.width}x${dimensions.height}`
       );
@@ -69,6 +98,16 @@ export function getMimeType(fileType: string): string {
       return "video/mp4";
     case "mov":
       return "video/quicktime";
+    case "m4v":
+      return "video/x-m4v";
+    case "webm":
+      return "video/webm";
+    case "mkv":
+      return "video/x-matroska";
+    case "avi":
+      return "video/x-msvideo";
+    case "3gp":
+      return "video/3gpp";
     default:
       return "";
   }